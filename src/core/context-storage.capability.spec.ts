@@ -0,0 +1,128 @@
+import { describe, expect, it } from '@jest/globals';
+import { ContextStorage, currentRequestContext } from './context-storage.capability.js';
+import type { RequestContext } from './request-context.js';
+import type { RequestHandler } from './request-handler.js';
+import { requestProcessor, RequestProcessor } from './request-processor.js';
+
+describe('ContextStorage', () => {
+  interface TestMeans {
+    readonly name: string;
+  }
+
+  function currentName(): string | undefined {
+    return currentRequestContext<TestMeans>()?.name;
+  }
+
+  it('stores request context', async () => {
+    let name: string | undefined;
+
+    await processor(
+      ContextStorage.for<TestMeans>(() => {
+        name = currentName();
+      }),
+    )({ name: 'test' });
+
+    expect(name).toBe('test');
+  });
+  it('stores request context for asynchronous code', async () => {
+    let name: string | undefined;
+
+    await processor(
+      ContextStorage.for<TestMeans>(async () => {
+        await new Promise(resolve => setTimeout(resolve));
+        name = currentName();
+      }),
+    )({ name: 'test' });
+
+    expect(name).toBe('test');
+  });
+  it('updates request context when delegating to the next handler', async () => {
+    const names: (string | undefined)[] = [];
+
+    await processor(
+      ContextStorage.for<TestMeans>(async ({ next }) => {
+        names.push(currentName());
+        await next(
+          async ({ next }) => {
+            names.push(currentName());
+            await next(() => {
+              names.push(currentName());
+            });
+            await next(
+              () => {
+                names.push(currentName());
+              },
+              { name: 'nested' },
+            );
+          },
+          { name: 'modified' },
+        );
+        names.push(currentName());
+      }),
+    )({ name: 'test' });
+
+    expect(names).toEqual(['test', 'modified', 'modified', 'nested', 'test']);
+  });
+  it('provides stored context to handlers', async () => {
+    let context: RequestContext<TestMeans> | undefined;
+    let current: RequestContext<TestMeans> | undefined;
+
+    await processor(
+      ContextStorage.for<TestMeans>(({ next }) =>
+        next(
+          ctx => {
+            context = ctx;
+            current = currentRequestContext();
+          },
+          { name: 'modified' },
+        ),
+      ),
+    )({ name: 'test' });
+
+    expect(current).toBe(context);
+  });
+  it('is applied once', async () => {
+    const names: (string | undefined)[] = [];
+
+    await processor(
+      ContextStorage.and(ContextStorage).for<TestMeans>(({ next }) => {
+        names.push(currentName());
+
+        return next(
+          ContextStorage.for(() => {
+            names.push(currentName());
+          }),
+          { name: 'modified' },
+        );
+      }),
+    )({ name: 'test' });
+
+    expect(names).toEqual(['test', 'modified']);
+  });
+  it('is not available outside request processing', () => {
+    expect(currentRequestContext()).toBeUndefined();
+  });
+  it('is not available without capability', async () => {
+    let context: RequestContext<unknown> | undefined = undefined;
+
+    await processor<TestMeans>(() => {
+      context = currentRequestContext();
+    })({ name: 'test' });
+
+    expect(context).toBeUndefined();
+  });
+
+  function processor<TMeans>(handler: RequestHandler<TMeans>): RequestProcessor<TMeans> {
+    return requestProcessor({
+      handler,
+      async next<TExt>(
+        handler: RequestHandler<TMeans & TExt>,
+        context: RequestContext<TMeans & TExt>,
+      ): Promise<boolean> {
+        await handler(context);
+
+        return true;
+      },
+    });
+  }
+});
@@ -0,0 +1,86 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import {
+  provideRequestCapability,
+  requestHandlerDelegating,
+} from '../impl/request-capability-registry.js';
+import { RequestCapability } from './request-capability.js';
+import type { RequestContext } from './request-context.js';
+import type { RequestHandler } from './request-handler.js';
+import type { RequestModification } from './request-modification.js';
+
+/**
+ * @internal
+ */
+const RequestContext$storage = /*#__PURE__*/ new AsyncLocalStorage<RequestContext<unknown>>();
+
+/**
+ * Obtains current request processing context.
+ *
+ * Request processing context is available only to the code executed within the handlers {@link ContextStorage
+ * context storage capability} provided to, including asynchronous code invoked by them.
+ *
+ * @typeParam TMeans - Expected request processing means.
+ *
+ * @returns Either current request processing context, or `undefined` when called outside request processing or when
+ * context storage is not enabled.
+ */
+export function currentRequestContext<TMeans = unknown>(): RequestContext<TMeans> | undefined {
+  return RequestContext$storage.getStore() as RequestContext<TMeans> | undefined;
+}
+
+/**
+ * @internal
+ */
+class ContextStorageCapability extends RequestCapability<unknown> {
+  override get id(): string {
+    return 'ContextStorage';
+  }
+
+  for<TMeans>(handler: RequestHandler<TMeans>): RequestHandler<TMeans> {
+    return provideRequestCapability(this, handler, context =>
+      storeRequestContext(context, handler),
+    );
+  }
+}
+
+/**
+ * @internal
+ */
+function storeRequestContext<TMeans>(
+  context: RequestContext<TMeans>,
+  handler: RequestHandler<TMeans>,
+): PromiseLike<unknown> | void {
+  const stored: RequestContext<TMeans> = {
+    ...context,
+    next<TExt extends object>(
+      this: void,
+      nextHandler: RequestHandler<TMeans & TExt>,
+      modification?: RequestModification<TMeans, TExt>,
+    ): Promise<boolean> {
+      return context.next<TExt>(
+        requestHandlerDelegating(
+          nextContext => storeRequestContext(nextContext, nextHandler),
+          nextHandler,
+        ),
+        modification,
+      );
+    },
+  };
+
+  return RequestContext$storage.run(stored as RequestContext<unknown>, handler, stored);
+}
+
+/**
+ * Request context storage capability.
+ *
+ * Stores request processing context in `AsyncLocalStorage`, so that it can be obtained by
+ * {@link currentRequestContext} function from any code invoked by request processing handlers, even if the context is
+ * not passed to it explicitly. E.g. from ORM or audit code.
+ *
+ * Once applied, the stored context is updated each time the request processing is delegated to the
+ * {@link RequestContext.Agent.next next handler}.
+ *
+ * Works with any {@link requestProcessor request processor}.
+ */
+export const ContextStorage: RequestCapability<unknown> =
+  /*#__PURE__*/ new ContextStorageCapability();
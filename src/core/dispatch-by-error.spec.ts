@@ -0,0 +1,168 @@
+import { describe, expect, it } from '@jest/globals';
+import { dispatchByError, errorCase } from './dispatch-by-error.js';
+import { dispatchError } from './dispatch-error.js';
+import type { ErrorMeans } from './error.means.js';
+import type { RequestContext } from './request-context.js';
+import type { RequestHandler } from './request-handler.js';
+import { requestProcessor } from './request-processor.js';
+
+describe('dispatchByError', () => {
+  interface TestMeans {
+    readonly results: string[];
+  }
+
+  class TestError extends Error {
+    readonly code: string;
+
+    constructor(code: string) {
+      super(code);
+      this.code = code;
+    }
+  }
+
+  class SubError extends TestError {}
+
+  it('dispatches error by its class', async () => {
+    const results = await process(
+      new TypeError('test'),
+      dispatchByError([
+        errorCase(RangeError, ({ results }) => {
+          results.push('range');
+        }),
+        errorCase(TypeError, ({ error, results }) => {
+          results.push(`type: ${error.message}`);
+        }),
+      ]),
+    );
+
+    expect(results).toEqual(['type: test']);
+  });
+  it('dispatches error by its superclass', async () => {
+    const results = await process(
+      new SubError('sub'),
+      dispatchByError([
+        errorCase(TestError, ({ error, results }) => {
+          results.push(`test: ${error.code}`);
+        }),
+      ]),
+    );
+
+    expect(results).toEqual(['test: sub']);
+  });
+  it('prefers the most specific error class', async () => {
+    const results = await process(
+      new SubError('sub'),
+      dispatchByError([
+        errorCase(Error, ({ results }) => {
+          results.push('error');
+        }),
+        errorCase(TestError, ({ results }) => {
+          results.push('test');
+        }),
+        errorCase(SubError, ({ results }) => {
+          results.push('sub');
+        }),
+      ]),
+    );
+
+    expect(results).toEqual(['sub']);
+  });
+  it('checks error condition', async () => {
+    const cases = [
+      errorCase(
+        TestError,
+        ({ code }) => code === 'first',
+        ({ results }: RequestContext<TestMeans & ErrorMeans<TestError>>) => {
+          results.push('first');
+        },
+      ),
+      errorCase(
+        TestError,
+        ({ code }) => code === 'second',
+        ({ results }: RequestContext<TestMeans & ErrorMeans<TestError>>) => {
+          results.push('second');
+        },
+      ),
+      errorCase(Error, ({ results }: RequestContext<TestMeans & ErrorMeans<Error>>) => {
+        results.push('other');
+      }),
+    ];
+
+    expect(await process(new TestError('first'), dispatchByError(cases))).toEqual(['first']);
+    expect(await process(new TestError('second'), dispatchByError(cases))).toEqual(['second']);
+    expect(await process(new TestError('third'), dispatchByError(cases))).toEqual(['other']);
+  });
+  it('processes unmatched error by fallback', async () => {
+    const results = await process(
+      'test',
+      dispatchByError(
+        [
+          errorCase(TypeError, ({ results }) => {
+            results.push('type');
+          }),
+        ],
+        ({ error, results }) => {
+          results.push(`fallback: ${error}`);
+        },
+      ),
+    );
+
+    expect(results).toEqual(['fallback: test']);
+  });
+  it('processes null error by fallback', async () => {
+    const results = await process(
+      null,
+      dispatchByError([], ({ error, results }) => {
+        results.push(`fallback: ${error}`);
+      }),
+    );
+
+    expect(results).toEqual(['fallback: null']);
+  });
+  it('rethrows unmatched error without fallback', async () => {
+    const error = new RangeError('test');
+    const results = await process(
+      error,
+      dispatchError<TestMeans>(
+        ({ error, results }) => {
+          results.push(`outer: ${(error as Error).message}`);
+        },
+        ({ next }) =>
+          next(
+            dispatchError<TestMeans>(
+              dispatchByError([
+                errorCase(TypeError, ({ results }) => {
+                  results.push('type');
+                }),
+              ]),
+              () => {
+                throw error;
+              },
+            ),
+          ),
+      ),
+    );
+
+    expect(results).toEqual(['outer: test']);
+  });
+
+  async function process(
+    error: unknown,
+    onError: RequestHandler<TestMeans & ErrorMeans>,
+  ): Promise<string[]> {
+    const results: string[] = [];
+
+    await requestProcessor<TestMeans>({
+      handler: dispatchError(onError, () => {
+        throw error;
+      }),
+      async next(handler, context) {
+        await handler(context);
+
+        return true;
+      },
+    })({ results });
+
+    return results;
+  }
+});
@@ -0,0 +1,146 @@
+import type { ErrorMeans } from './error.means.js';
+import type { RequestHandler } from './request-handler.js';
+
+/**
+ * Error dispatch case.
+ *
+ * Describes errors to process by {@link dispatchByError} and their handler. Can be constructed by {@link errorCase}
+ * function.
+ *
+ * @typeParam TMeans - Supported request processing means.
+ * @typeParam TError - Supported error type.
+ */
+export interface DispatchErrorCase<TMeans, TError = any> {
+  /**
+   * Class of errors to process.
+   *
+   * Matches instances of this class and its subclasses.
+   */
+  readonly on: ErrorClass<TError>;
+
+  /**
+   * Additional error condition.
+   *
+   * @param error - Error to check. An instance of {@link on error class}.
+   *
+   * @returns `true` if error should be processed by this case, or `false` otherwise.
+   */
+  readonly when?: ((this: void, error: TError) => boolean) | undefined;
+
+  /**
+   * Error processing handler.
+   */
+  readonly handler: RequestHandler<TMeans & ErrorMeans<TError>>;
+}
+
+/**
+ * Error class.
+ *
+ * @typeParam TError - Error type.
+ */
+export type ErrorClass<TError = any> = abstract new (...args: any[]) => TError;
+
+/**
+ * Builds error dispatch case for errors of the given class.
+ *
+ * @typeParam TMeans - Supported request processing means.
+ * @typeParam TError - Supported error type.
+ * @param on - Class of errors to process.
+ * @param handler - Error processing handler.
+ *
+ * @returns Error dispatch case.
+ */
+export function errorCase<TMeans, TError>(
+  on: ErrorClass<TError>,
+  handler: RequestHandler<TMeans & ErrorMeans<TError>>,
+): DispatchErrorCase<TMeans, TError>;
+
+/**
+ * Builds error dispatch case for errors of the given class matching the given condition.
+ *
+ * @typeParam TMeans - Supported request processing means.
+ * @typeParam TError - Supported error type.
+ * @param on - Class of errors to process.
+ * @param when - Additional error condition.
+ * @param handler - Error processing handler.
+ *
+ * @returns Error dispatch case.
+ */
+export function errorCase<TMeans, TError>(
+  on: ErrorClass<TError>,
+  when: (this: void, error: TError) => boolean,
+  handler: RequestHandler<TMeans & ErrorMeans<TError>>,
+): DispatchErrorCase<TMeans, TError>;
+
+export function errorCase<TMeans, TError>(
+  on: ErrorClass<TError>,
+  whenOrHandler:
+    ((this: void, error: TError) => boolean) | RequestHandler<TMeans & ErrorMeans<TError>>,
+  handler?: RequestHandler<TMeans & ErrorMeans<TError>>,
+): DispatchErrorCase<TMeans, TError> {
+  return handler
+    ? { on, when: whenOrHandler as (this: void, error: TError) => boolean, handler }
+    : { on, handler: whenOrHandler as RequestHandler<TMeans & ErrorMeans<TError>> };
+}
+
+/**
+ * Dispatches request processing error by its class.
+ *
+ * Selects the case for the most specific error class. I.e. the case for error class takes precedence over the case
+ * for its superclass, regardless of their order. The cases for the same class are checked in order they are listed.
+ *
+ * Processes the error with `fallback` handler when none of the cases match. Rethrows the error when there is no
+ * `fallback`, so that it can be processed by outer error handler.
+ *
+ * The error can be rethrown by case handler as well.
+ *
+ * @typeParam TMeans - Supported request processing means.
+ * @param cases - Error dispatch cases.
+ * @param fallback - Error processing handler to use when none of the cases match.
+ *
+ * @returns New error processing handler.
+ */
+export function dispatchByError<TMeans>(
+  cases: Iterable<DispatchErrorCase<TMeans>>,
+  fallback?: RequestHandler<TMeans & ErrorMeans>,
+): RequestHandler<TMeans & ErrorMeans> {
+  const casesByPrototype = new Map<unknown, DispatchErrorCase<TMeans>[]>();
+
+  for (const errorCase of cases) {
+    const { prototype } = errorCase.on;
+    const prototypeCases = casesByPrototype.get(prototype);
+
+    if (prototypeCases) {
+      prototypeCases.push(errorCase);
+    } else {
+      casesByPrototype.set(prototype, [errorCase]);
+    }
+  }
+
+  const findCase = (error: unknown): DispatchErrorCase<TMeans> | undefined => {
+    for (
+      let prototype: unknown = error != null ? Object.getPrototypeOf(error) : null;
+      prototype;
+      prototype = Object.getPrototypeOf(prototype)
+    ) {
+      const found = casesByPrototype.get(prototype)?.find(({ when }) => !when || when(error));
+
+      if (found) {
+        return found;
+      }
+    }
+
+    return;
+  };
+
+  return async context => {
+    const { error, next } = context;
+    const handler = findCase(error)?.handler ?? fallback;
+
+    if (!handler) {
+      throw error;
+    }
+
+    await next(handler);
+  };
+}
@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { HttpError } from '../../http/http-error.js';
+import { JsonLogger, jsonLogger } from './json-logger.js';
+
+describe('jsonLogger', () => {
+  let lines: string[];
+  let log: JsonLogger;
+
+  beforeEach(() => {
+    lines = [];
+    log = jsonLogger({
+      write: line => lines.push(line),
+      now: () => Date.UTC(2020, 0, 1),
+    });
+  });
+
+  function records(): unknown[] {
+    return lines.map(line => JSON.parse(line) as unknown);
+  }
+
+  it('writes JSON line per message', () => {
+    log.info('Hello', 'World');
+    log.warn(13);
+
+    expect(lines).toEqual([
+      '{"time":"2020-01-01T00:00:00.000Z","level":"info","msg":"Hello World"}\n',
+      '{"time":"2020-01-01T00:00:00.000Z","level":"warn","msg":"13"}\n',
+    ]);
+  });
+  it('writes message at each log level', () => {
+    log.error('error');
+    log.warn('warn');
+    log.info('info');
+    log.debug('debug');
+    log.trace('trace');
+
+    expect(records()).toEqual(
+      ['error', 'warn', 'info', 'debug', 'trace'].map(level => ({
+        time: '2020-01-01T00:00:00.000Z',
+        level,
+        msg: level,
+      })),
+    );
+  });
+  it('merges plain objects into record', () => {
+    log.info('Hello', { user: 'test' }, Object.assign(Object.create(null), { id: 13 }), [1, 2]);
+
+    expect(records()).toEqual([
+      {
+        time: '2020-01-01T00:00:00.000Z',
+        level: 'info',
+        user: 'test',
+        id: 13,
+        msg: 'Hello [ 1, 2 ]',
+      },
+    ]);
+  });
+  it('writes error', () => {
+    const cause = new TypeError('Cause');
+    const error = new Error('Failed', { cause });
+
+    log.error('Request failed', error, new Error('Other'), null);
+
+    const [record] = records() as Record<string, unknown>[];
+
+    expect(record.msg).toMatch(/^Request failed Error: Other\n.* null$/s);
+    expect(record.error).toEqual({
+      name: 'Error',
+      message: 'Failed',
+      stack: error.stack,
+      cause: { name: 'TypeError', message: 'Cause', stack: cause.stack },
+    });
+  });
+  it('writes circular error cause', () => {
+    const error = new Error('Failed');
+    const cause = new Error('Cause', { cause: error });
+
+    error.cause = cause;
+    log.error(error);
+
+    const [record] = records() as Record<string, unknown>[];
+
+    expect(record.error).toEqual({
+      name: 'Error',
+      message: 'Failed',
+      stack: error.stack,
+      cause: { name: 'Error', message: 'Cause', stack: cause.stack, cause: '[Circular]' },
+    });
+  });
+  it('writes circular references', () => {
+    const shared = { value: 1 };
+    const circular: Record<string, unknown> = { shared, other: shared };
+
+    circular.self = circular;
+    log.info({ circular });
+
+    expect(records()).toEqual([
+      {
+        time: '2020-01-01T00:00:00.000Z',
+        level: 'info',
+        circular: { shared: { value: 1 }, other: { value: 1 }, self: '[Circular]' },
+        msg: '',
+      },
+    ]);
+  });
+  it('writes `BigInt` values as strings', () => {
+    log.info({ count: 13n });
+
+    expect(records()).toEqual([
+      { time: '2020-01-01T00:00:00.000Z', level: 'info', count: '13', msg: '' },
+    ]);
+  });
+  it('does not override reserved fields', () => {
+    log.child({ time: 'bound', level: 'bound' }).info({ time: 'logged', level: 'logged' }, 'test');
+
+    expect(lines).toEqual(['{"time":"2020-01-01T00:00:00.000Z","level":"info","msg":"test"}\n']);
+  });
+  it('expands loggable values', () => {
+    log.error(new HttpError(404, { details: 'Not Here' }));
+
+    expect(records()).toEqual([
+      {
+        time: '2020-01-01T00:00:00.000Z',
+        level: 'error',
+        msg: '404 Not Here',
+      },
+    ]);
+  });
+  it('writes to `process.stdout` by default', () => {
+    const writeSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    try {
+      jsonLogger().info('test');
+
+      expect(writeSpy).toHaveBeenCalledWith(expect.stringMatching(/"msg":"test"\}\n$/));
+    } finally {
+      writeSpy.mockRestore();
+    }
+  });
+
+  describe('child', () => {
+    it('binds fields', () => {
+      const child = log.child({ request: 1, user: 'test' }).child({ user: 'other' });
+
+      expect(child.fields).toEqual({ request: 1, user: 'other' });
+      expect(log.fields).toEqual({});
+
+      child.info('test');
+
+      expect(records()).toEqual([
+        {
+          time: '2020-01-01T00:00:00.000Z',
+          level: 'info',
+          request: 1,
+          user: 'other',
+          msg: 'test',
+        },
+      ]);
+    });
+  });
+});
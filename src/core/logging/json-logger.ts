@@ -0,0 +1,211 @@
+import { dueLog } from '@proc7ts/logger';
+import { inspect } from 'node:util';
+import type { RequestLogger } from './request-logger.js';
+
+/**
+ * Structured request logger.
+ *
+ * Writes each logged message as a JSON object on a separate line (i.e. in NDJSON format). The message is processed
+ * before being written, so that {@link @proc7ts/logger!Loggable loggable} values, such as {@link HttpError}, are
+ * expanded.
+ *
+ * The JSON object contains the following properties:
+ *
+ * - `time` - ISO timestamp,
+ * - `level` - log level, i.e. `error`, `warn`, `info`, `debug`, or `trace`,
+ * - {@link JsonLogger.fields bound fields},
+ * - properties of plain objects logged,
+ * - `msg` - other logged values separated by spaces,
+ * - `error` - the first logged error, if any.
+ *
+ * The `time` and `level` properties can not be overridden by bound fields or logged objects. Circular references are
+ * written as `[Circular]` strings, while `BigInt` values - as decimal strings.
+ */
+export interface JsonLogger extends RequestLogger {
+  /**
+   * Fields bound to this logger.
+   *
+   * These are added to each logged message.
+   */
+  readonly fields: JsonLogger.Fields;
+
+  /**
+   * Creates a child logger with additional bound fields.
+   *
+   * The child logger writes messages the same way as this one.
+   *
+   * @param fields - Fields to bind in addition to {@link fields bound to this logger}. These override the existing
+   * fields with the same names.
+   *
+   * @returns New JSON logger.
+   */
+  child(fields: JsonLogger.Fields): JsonLogger;
+}
+
+export namespace JsonLogger {
+  /**
+   * Logged fields.
+   *
+   * Maps field names to their values.
+   */
+  export type Fields = Readonly<Record<string, unknown>>;
+
+  /**
+   * JSON logger options.
+   */
+  export interface Options {
+    /**
+     * Fields bound to the logger.
+     */
+    readonly fields?: Fields | undefined;
+
+    /**
+     * Writes log line.
+     *
+     * Writes to `process.stdout` by default.
+     *
+     * @param line - JSON line to write, including trailing newline.
+     */
+    write?(this: void, line: string): void;
+
+    /**
+     * Returns current time in milliseconds.
+     *
+     * Can be replaced e.g. for testing.
+     *
+     * @default `Date.now`.
+     */
+    now?(this: void): number;
+  }
+}
+
+/**
+ * Creates structured request logger.
+ *
+ * @param options - JSON logger options.
+ *
+ * @returns New JSON logger.
+ */
+export function jsonLogger(options: JsonLogger.Options = {}): JsonLogger {
+  const {
+    fields = {},
+    write = line => {
+      process.stdout.write(line);
+    },
+    now = Date.now,
+  } = options;
+  const log =
+    (level: string) =>
+    (...args: unknown[]): void => {
+      write(jsonLogLine(now(), level, fields, args));
+    };
+
+  return {
+    fields,
+    error: log('error'),
+    warn: log('warn'),
+    info: log('info'),
+    debug: log('debug'),
+    trace: log('trace'),
+    child: childFields => jsonLogger({ fields: { ...fields, ...childFields }, write, now }),
+  };
+}
+
+/**
+ * @internal
+ */
+function jsonLogLine(
+  time: number,
+  level: string,
+  fields: JsonLogger.Fields,
+  args: unknown[],
+): string {
+  const { line } = dueLog({ on: 'out', line: args });
+  // Reserve the first positions for `time` and `level`.
+  const record: Record<string, unknown> = { time: undefined, level: undefined, ...fields };
+  const message: string[] = [];
+  let error: Error | undefined;
+
+  for (const value of line) {
+    if (value instanceof Error && !error) {
+      error = value;
+    } else if (isPlainObject(value)) {
+      Object.assign(record, value);
+    } else {
+      message.push(typeof value === 'string' ? value : inspect(value, { breakLength: Infinity }));
+    }
+  }
+
+  record.msg = message.join(' ');
+  if (error) {
+    record.error = errorToJson(error, new Set());
+  }
+
+  // Write reserved fields last, so that they are not overridden.
+  record.time = new Date(time).toISOString();
+  record.level = level;
+
+  return JSON.stringify(record, jsonLogReplacer()) + '\n';
+}
+
+/**
+ * @internal
+ */
+function jsonLogReplacer(): (this: unknown, key: string, value: unknown) => unknown {
+  const ancestors: unknown[] = [];
+
+  return function (this: unknown, _key, value) {
+    if (typeof value === 'bigint') {
+      return String(value);
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    // `this` is an object containing the value.
+    while (ancestors.length && ancestors[ancestors.length - 1] !== this) {
+      ancestors.pop();
+    }
+    if (ancestors.includes(value)) {
+      return '[Circular]';
+    }
+
+    ancestors.push(value);
+
+    return value;
+  };
+}
+
+/**
+ * @internal
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const proto: unknown = Object.getPrototypeOf(value);
+
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * @internal
+ */
+function errorToJson(error: Error, causes: Set<Error>): Record<string, unknown> {
+  const { name, message, stack, cause } = error;
+
+  causes.add(error);
+
+  return {
+    name,
+    message,
+    stack,
+    cause:
+      cause instanceof Error
+        ? causes.has(cause)
+          ? '[Circular]'
+          : errorToJson(cause, causes)
+        : cause,
+  };
+}
@@ -1,5 +1,7 @@
 import { consoleLogger } from '@proc7ts/logger';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
 import { RequestCapability } from '../request-capability.js';
+import type { RequestContext } from '../request-context.js';
 import type { RequestHandler } from '../request-handler.js';
 import { requestExtension } from '../request-modification.js';
 import type { LoggerMeans } from './logger.means.js';
@@ -33,32 +35,37 @@ class LoggingCapability<TInput, TLogger extends RequestLogger>
   extends RequestCapability<TInput, LoggerMeans<TLogger>>
   implements Logging<TInput, TLogger>
 {
-  readonly for: <TMeans extends TInput>(
-    handler: RequestHandler<TMeans & LoggerMeans<TLogger>>,
-  ) => RequestHandler<TMeans>;
+  readonly #log: TLogger;
+  readonly #byDefault: boolean;
 
   constructor(log: TLogger, byDefault = false) {
     super();
-    if (byDefault) {
-      this.for =
-        <TMeans extends TInput>(
-          handler: RequestHandler<TMeans & LoggerMeans<TLogger>>,
-        ): RequestHandler<TMeans> =>
-        context => {
-          if ((context as Partial<LoggerMeans>).log) {
-            return context.next(handler);
-          }
+    this.#log = log;
+    this.#byDefault = byDefault;
+  }
+
+  override get id(): string {
+    return 'Logging';
+  }
+
+  override isAppliedTo(context: RequestContext<unknown>): boolean {
+    return !!(context as Partial<LoggerMeans>).log;
+  }
+
+  for<TMeans extends TInput>(
+    handler: RequestHandler<TMeans & LoggerMeans<TLogger>>,
+  ): RequestHandler<TMeans> {
+    const log = this.#log;
+    const provided: RequestHandler<TMeans> = context =>
+      context.next(handler, requestExtension({ log }));
 
-          return context.next(handler, requestExtension({ log }));
-        };
-    } else {
-      this.for =
-        <TMeans extends TInput>(
-          handler: RequestHandler<TMeans & LoggerMeans<TLogger>>,
-        ): RequestHandler<TMeans> =>
-        context =>
-          context.next(handler, requestExtension({ log }));
-    }
+    // Explicitly configured logger overrides the one present already.
+    return provideRequestCapability(
+      this,
+      handler,
+      provided,
+      this.#byDefault ? undefined : provided,
+    );
   }
 
   logBy<TNewLogger extends RequestLogger>(log: TNewLogger): Logging<TInput, TNewLogger> {
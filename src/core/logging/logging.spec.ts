@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it, jest } from '@jest/globals';
 import { consoleLogger, silentLogger } from '@proc7ts/logger';
 import { noop } from '@proc7ts/primitives';
+import { RequestCapability } from '../request-capability.js';
 import type { RequestContext } from '../request-context.js';
 import type { RequestHandler } from '../request-handler.js';
 import type { RequestProcessor } from '../request-processor.js';
@@ -56,6 +57,28 @@ describe('Logging', () => {
     });
   });
 
+  describe('isAppliedTo', () => {
+    it('is applied when request logger is present', async () => {
+      const log = Logging.logBy(silentLogger);
+      const Requiring = RequestCapability.of(handler => handler, { requires: [log] });
+
+      await processor(Logging.and(Requiring).for(handler))({});
+
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ log: consoleLogger }) as unknown as RequestContext<LoggerMeans>,
+      );
+    });
+    it('is not applied when request logger is absent', async () => {
+      const Requiring = RequestCapability.of<unknown, object>(handler => handler, {
+        requires: [Logging],
+      });
+
+      await expect(processor(Requiring.for(noop))({})).rejects.toThrow(
+        new ReferenceError(`${String(Requiring)} requires Logging`),
+      );
+    });
+  });
+
   function processor<TMeans>(handler: RequestHandler<TMeans>): RequestProcessor<TMeans> {
     return requestProcessor({
       handler,
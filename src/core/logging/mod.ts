@@ -1,3 +1,5 @@
+export * from './json-logger.js';
 export * from './logger.means.js';
 export * from './logging.capability.js';
+export * from './redact-logger.js';
 export * from './request-logger.js';
@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { silentLogger } from '@proc7ts/logger';
+import { HttpError } from '../../http/http-error.js';
+import { jsonLogger } from './json-logger.js';
+import { redactLogger } from './redact-logger.js';
+import { RequestLogger } from './request-logger.js';
+
+describe('redactLogger', () => {
+  let logged: unknown[][];
+  let log: RequestLogger;
+
+  beforeEach(() => {
+    logged = [];
+    log = { ...silentLogger, info: (...args) => logged.push(args) };
+  });
+
+  it('masks sensitive headers by default', () => {
+    redactLogger(log).info('Request', {
+      headers: {
+        Authorization: 'Bearer secret',
+        cookie: 'session=secret',
+        'set-cookie': ['session=secret'],
+        accept: 'application/json',
+      },
+    });
+
+    expect(logged).toEqual([
+      [
+        'Request',
+        {
+          headers: {
+            Authorization: '[REDACTED]',
+            cookie: '[REDACTED]',
+            'set-cookie': '[REDACTED]',
+            accept: 'application/json',
+          },
+        },
+      ],
+    ]);
+  });
+  it('masks password fields by default', () => {
+    redactLogger(log).info({ users: [{ login: 'test', password: 'secret' }] });
+
+    expect(logged).toEqual([[{ users: [{ login: 'test', password: '[REDACTED]' }] }]]);
+  });
+  it('masks credentials in strings by default', () => {
+    redactLogger(log).info('Authorization: Bearer abc.DEF-123= failed', 'Basic dGVzdA==');
+
+    expect(logged).toEqual([['Authorization: [REDACTED] failed', '[REDACTED]']]);
+  });
+  it('masks configured keys, paths, and patterns', () => {
+    redactLogger(log, {
+      keys: ['X-API-Key'],
+      paths: ['card.number', 'items.*.token'],
+      patterns: [/\d{4}-\d{4}/g],
+      mask: '***',
+    }).info('Paid by 1234-5678', {
+      'x-api-key': 'secret',
+      password: 'visible',
+      card: { number: '1234-5678', holder: 'Test' },
+      number: 'visible',
+      items: [{ token: 'secret' }, { token: 'secret', id: 'item-1234-5678' }],
+    });
+
+    expect(logged).toEqual([
+      [
+        'Paid by ***',
+        {
+          'x-api-key': '***',
+          password: 'visible',
+          card: { number: '***', holder: 'Test' },
+          number: 'visible',
+          items: [{ token: '***' }, { token: '***', id: 'item-***' }],
+        },
+      ],
+    ]);
+  });
+  it('redacts loggable values', () => {
+    const cause = new Error('Cause');
+
+    redactLogger(log).info(
+      new HttpError(401, {
+        details: 'Invalid Bearer abc',
+        issues: [{ path: 'password', message: 'Wrong Basic credentials' }],
+        cause,
+      }),
+    );
+
+    expect(logged).toEqual([['401', 'Invalid [REDACTED]', 'password: Wrong [REDACTED]', cause]]);
+  });
+  it('redacts errors', () => {
+    const cause = Object.assign(new TypeError('Cause Basic dGVzdA=='), {
+      password: 'secret',
+      details: { password: 'secret', token: 'Bearer abc' },
+    });
+    const error = new Error('Failed with Bearer secret', { cause });
+
+    redactLogger(log).info(new HttpError(500, { cause: error }));
+
+    const [[, redacted]] = logged as [[string, Error]];
+
+    expect(redacted).not.toBe(error);
+    expect(redacted).toBeInstanceOf(Error);
+    expect(redacted.message).toBe('Failed with [REDACTED]');
+    expect(redacted.stack).toContain('Failed with [REDACTED]');
+    expect(redacted.stack).not.toContain('secret');
+
+    const redactedCause = redacted.cause as TypeError & { password: string; details: unknown };
+
+    expect(redactedCause).toBeInstanceOf(TypeError);
+    expect(redactedCause.message).toBe('Cause [REDACTED]');
+    expect(redactedCause.password).toBe('[REDACTED]');
+    expect(redactedCause.details).toEqual({ password: '[REDACTED]', token: '[REDACTED]' });
+    expect(cause.message).toBe('Cause Basic dGVzdA==');
+  });
+  it('logs other values as is', () => {
+    const date = new Date();
+    const headers = Object.assign(Object.create(null) as object, { authorization: 'secret' });
+
+    redactLogger(log).info(date, 13, null, headers);
+
+    expect(logged).toEqual([[date, 13, null, { authorization: '[REDACTED]' }]]);
+    expect(logged[0][0]).toBe(date);
+  });
+  it('handles circular references', () => {
+    const value: Record<string, unknown> = { password: 'secret' };
+    const array: unknown[] = [];
+
+    value.self = value;
+    array.push(array);
+
+    redactLogger(log).info(value, array);
+
+    const [[redacted, redactedArray]] = logged as [[Record<string, unknown>, unknown[]]];
+
+    expect(redacted.password).toBe('[REDACTED]');
+    expect(redacted.self).toBe('[Circular]');
+    expect(redactedArray[0]).toBe('[Circular]');
+  });
+  it('redacts at each log level', () => {
+    const levels: string[] = [];
+    const log: RequestLogger = {
+      error: (message: string) => levels.push(`error: ${message}`),
+      warn: (message: string) => levels.push(`warn: ${message}`),
+      info: (message: string) => levels.push(`info: ${message}`),
+      debug: (message: string) => levels.push(`debug: ${message}`),
+      trace: (message: string) => levels.push(`trace: ${message}`),
+    };
+    const redacting = redactLogger(log);
+
+    redacting.error('Bearer 1');
+    redacting.warn('Bearer 2');
+    redacting.info('Bearer 3');
+    redacting.debug('Bearer 4');
+    redacting.trace('Bearer 5');
+
+    expect(levels).toEqual([
+      'error: [REDACTED]',
+      'warn: [REDACTED]',
+      'info: [REDACTED]',
+      'debug: [REDACTED]',
+      'trace: [REDACTED]',
+    ]);
+  });
+
+  describe('for JSON logger', () => {
+    it('retains bound fields', () => {
+      const lines: string[] = [];
+      const log = redactLogger(
+        jsonLogger({ fields: { app: 'test' }, write: line => lines.push(line) }),
+      );
+      const child = log.child({ user: 'tester' });
+
+      child.info('Hello', { headers: { cookie: 'secret' } });
+
+      expect(log.fields).toEqual({ app: 'test' });
+      expect(child.fields).toEqual({ app: 'test', user: 'tester' });
+      expect(JSON.parse(lines[0])).toMatchObject({
+        app: 'test',
+        user: 'tester',
+        headers: { cookie: '[REDACTED]' },
+        msg: 'Hello',
+      });
+    });
+  });
+});
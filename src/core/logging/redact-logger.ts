@@ -0,0 +1,208 @@
+import { dueLog } from '@proc7ts/logger';
+import type { JsonLogger } from './json-logger.js';
+import type { RequestLogger } from './request-logger.js';
+
+/**
+ * Sensitive data redaction options of request logger.
+ *
+ * @see redactLogger
+ */
+export interface LogRedaction {
+  /**
+   * Names of properties to mask wherever they are found in logged objects. E.g. header names.
+   *
+   * Case-insensitive.
+   *
+   * @default `authorization`, `proxy-authorization`, `cookie`, `set-cookie`, `password`.
+   */
+  readonly keys?: readonly string[] | undefined;
+
+  /**
+   * Paths to properties of logged objects to mask.
+   *
+   * Each path consists of property names separated by dots. E.g. `user.credentials.pin`. An asterisk (`*`) matches any
+   * property name or array index. E.g. `cards.*.number`.
+   */
+  readonly paths?: readonly string[] | undefined;
+
+  /**
+   * Regular expressions to mask the matching parts of logged strings with.
+   *
+   * Applied to message strings and to string property values.
+   *
+   * @default A pattern matching `Bearer` and `Basic` authorization credentials.
+   */
+  readonly patterns?: readonly RegExp[] | undefined;
+
+  /**
+   * A mask to replace sensitive data with.
+   *
+   * @default `[REDACTED]`.
+   */
+  readonly mask?: string | undefined;
+}
+
+/**
+ * @internal
+ */
+const LOG_REDACTION_KEYS: readonly string[] = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'password',
+];
+
+/**
+ * @internal
+ */
+const LOG_REDACTION_PATTERNS: readonly RegExp[] = [/\b(?:Bearer|Basic)\s+[\w\-.~+/]+=*/gi];
+
+/**
+ * Creates request logger that masks sensitive data before logging.
+ *
+ * Processes each logged message before passing it to the given logger. {@link @proc7ts/logger!Loggable Loggable}
+ * values, such as {@link HttpError}, are expanded first, so that their output is redacted too. Then the properties of
+ * plain objects, arrays, and errors, and strings are masked accordingly to redaction options. Errors are replaced by
+ * their copies with redacted own properties, such as `message`, `stack`, and `cause`. Circular references are replaced
+ * by `[Circular]` strings. Other values are logged as is.
+ *
+ * If the given logger is a {@link JsonLogger structured one}, then the returned logger is structured too. Its child
+ * loggers mask sensitive data as well.
+ *
+ * @param log - A logger to log redacted messages with.
+ * @param redaction - Redaction options.
+ *
+ * @returns Redacting logger.
+ */
+export function redactLogger(log: JsonLogger, redaction?: LogRedaction): JsonLogger;
+export function redactLogger(log: RequestLogger, redaction?: LogRedaction): RequestLogger;
+export function redactLogger(
+  log: RequestLogger & Partial<JsonLogger>,
+  redaction: LogRedaction = {},
+): RequestLogger {
+  const redact = logRedactor(redaction);
+  const logMethod =
+    (method: (...args: unknown[]) => void) =>
+    (...args: unknown[]): void => {
+      const { line } = dueLog(
+        { on: 'out', line: args },
+        {
+          onRaw(target, value) {
+            target.line[target.index++] = redact(value, []);
+          },
+        },
+      );
+
+      method.apply(log, line);
+    };
+  const redacting: RequestLogger = {
+    error: logMethod(log.error),
+    warn: logMethod(log.warn),
+    info: logMethod(log.info),
+    debug: logMethod(log.debug),
+    trace: logMethod(log.trace),
+  };
+  const { child } = log;
+
+  if (typeof child !== 'function') {
+    return redacting;
+  }
+
+  const structured: JsonLogger = {
+    ...redacting,
+    get fields() {
+      return log.fields!;
+    },
+    child: fields => redactLogger(child.call(log, fields), redaction),
+  };
+
+  return structured;
+}
+
+/**
+ * @internal
+ */
+function logRedactor({
+  keys = LOG_REDACTION_KEYS,
+  paths = [],
+  patterns = LOG_REDACTION_PATTERNS,
+  mask = '[REDACTED]',
+}: LogRedaction): (value: unknown, path: readonly string[]) => unknown {
+  const maskedKeys = new Set(keys.map(key => key.toLowerCase()));
+  const maskedPaths = paths.map(path => path.split('.'));
+  const isMasked = (key: string, path: readonly string[]): boolean =>
+    maskedKeys.has(key.toLowerCase()) ||
+    maskedPaths.some(
+      maskedPath =>
+        maskedPath.length === path.length &&
+        maskedPath.every((name, index) => name === '*' || name === path[index]),
+    );
+  const redact = (value: unknown, path: readonly string[], seen: Set<unknown>): unknown => {
+    if (typeof value === 'string') {
+      return patterns.reduce((result, pattern) => result.replace(pattern, mask), value);
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    if (value instanceof Error) {
+      seen.add(value);
+
+      const result = Object.create(Object.getPrototypeOf(value) as object | null) as Error;
+
+      for (const key of Reflect.ownKeys(value)) {
+        const descriptor = Object.getOwnPropertyDescriptor(value, key)!;
+
+        if (typeof key === 'string' && 'value' in descriptor) {
+          const propertyPath = [...path, key];
+
+          descriptor.value = isMasked(key, propertyPath)
+            ? mask
+            : redact(descriptor.value, propertyPath, seen);
+        }
+
+        Object.defineProperty(result, key, descriptor);
+      }
+
+      seen.delete(value);
+
+      return result;
+    }
+    if (Array.isArray(value)) {
+      seen.add(value);
+
+      const result = value.map((item: unknown, index) =>
+        redact(item, [...path, String(index)], seen),
+      );
+
+      seen.delete(value);
+
+      return result;
+    }
+
+    const proto: unknown = Object.getPrototypeOf(value);
+
+    if (proto !== Object.prototype && proto !== null) {
+      return value;
+    }
+
+    seen.add(value);
+
+    const result: Record<string, unknown> = {};
+
+    for (const [key, property] of Object.entries(value)) {
+      const propertyPath = [...path, key];
+
+      result[key] = isMasked(key, propertyPath) ? mask : redact(property, propertyPath, seen);
+    }
+
+    seen.delete(value);
+
+    return result;
+  };
+
+  return (value, path) => redact(value, path, new Set());
+}
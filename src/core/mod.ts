@@ -1,13 +1,17 @@
 /**
  * @module @hatsy/hatsy/core.js
  */
+export * from './context-storage.capability.js';
+export * from './dispatch-by-error.js';
 export * from './dispatch-error.js';
 export * from './error.means.js';
 export * from './logging/mod.js';
+export * from './request-abort.js';
 export * from './request-body.means.js';
 export * from './request-capability.js';
 export * from './request-context.js';
 export * from './request-handler.js';
 export * from './request-modification.js';
 export * from './request-processor.js';
+export * from './request-tracer.js';
 export * from './request-value-transformer.js';
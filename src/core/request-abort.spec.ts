@@ -0,0 +1,47 @@
+import { describe, expect, it } from '@jest/globals';
+import { requestAbortController } from './request-abort.js';
+
+describe('requestAbortController', () => {
+  it('is aborted when followed signal aborted', () => {
+    const parent = new AbortController();
+    const controller = requestAbortController(parent.signal);
+    const reason = new Error('test');
+
+    expect(controller.signal.aborted).toBe(false);
+
+    parent.abort(reason);
+
+    expect(controller.signal.aborted).toBe(true);
+    expect(controller.signal.reason).toBe(reason);
+  });
+  it('is aborted immediately when followed signal aborted already', () => {
+    const parent = new AbortController();
+    const reason = new Error('test');
+
+    parent.abort(reason);
+
+    const controller = requestAbortController(parent.signal);
+
+    expect(controller.signal.aborted).toBe(true);
+    expect(controller.signal.reason).toBe(reason);
+  });
+  it('does not abort followed signal', () => {
+    const parent = new AbortController();
+    const controller = requestAbortController(parent.signal);
+
+    controller.abort();
+
+    expect(controller.signal.aborted).toBe(true);
+    expect(parent.signal.aborted).toBe(false);
+  });
+  it('stops following signal once aborted', () => {
+    const parent = new AbortController();
+    const controller = requestAbortController(parent.signal);
+    const reason = new Error('test');
+
+    controller.abort(reason);
+    parent.abort(new Error('other'));
+
+    expect(controller.signal.reason).toBe(reason);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Creates request processing abort controller that follows the given signal.
+ *
+ * The signal of constructed controller is aborted either explicitly, or when the given `signal` is aborted. In the
+ * latter case the abort reason is the same as the one of the given `signal`.
+ *
+ * This can be used to replace an {@link RequestContext.Agent.signal abort signal} of request processing context
+ * when {@link RequestContext.Agent.next delegating} to the next handler.
+ *
+ * @param signal - Abort signal to follow.
+ *
+ * @returns New abort controller.
+ */
+export function requestAbortController(signal: AbortSignal): AbortController {
+  const controller = new AbortController();
+
+  if (signal.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    const onAbort = (): void => controller.abort(signal.reason);
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    controller.signal.addEventListener(
+      'abort',
+      () => signal.removeEventListener('abort', onAbort),
+      { once: true },
+    );
+  }
+
+  return controller;
+}
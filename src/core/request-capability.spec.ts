@@ -0,0 +1,287 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { noop } from '@proc7ts/primitives';
+import { RequestCapability } from './request-capability.js';
+import type { RequestContext } from './request-context.js';
+import { requestExtension } from './request-modification.js';
+import type { RequestHandler } from './request-handler.js';
+import { requestProcessor, RequestProcessor } from './request-processor.js';
+
+describe('RequestCapability', () => {
+  interface TestMeans {
+    readonly kind: string;
+  }
+
+  interface FooMeans {
+    readonly foo: string;
+  }
+
+  interface BarMeans {
+    readonly bar: string;
+  }
+
+  const provideFoo: RequestCapability.Provider<TestMeans, FooMeans> =
+    <TMeans extends TestMeans>(handler: RequestHandler<TMeans & FooMeans>) =>
+    ({ next }: RequestContext<TMeans>) =>
+      next(handler, requestExtension<TMeans, FooMeans>({ foo: 'foo' }));
+  const Foo = RequestCapability.of(provideFoo);
+  const provideBar: RequestCapability.Provider<TestMeans, BarMeans> =
+    <TMeans extends TestMeans>(handler: RequestHandler<TMeans & BarMeans>) =>
+    ({ next }: RequestContext<TMeans>) =>
+      next(handler, requestExtension<TMeans, BarMeans>({ bar: 'bar' }));
+  const Bar = RequestCapability.of(provideBar);
+
+  describe('id', () => {
+    it('is absent by default', () => {
+      expect(Foo.id).toBeUndefined();
+      expect(String(Foo)).toBe('RequestCapability');
+    });
+    it('is the one passed to provider options', () => {
+      const capability = RequestCapability.of(provideFoo, { id: 'Foo' });
+
+      expect(capability.id).toBe('Foo');
+      expect(String(capability)).toBe('Foo');
+    });
+  });
+
+  describe('de-duplication', () => {
+    let applied: number;
+    let Counting: RequestCapability<TestMeans, FooMeans>;
+
+    beforeEach(() => {
+      applied = 0;
+      Counting = RequestCapability.of<TestMeans, FooMeans>(
+        <TMeans extends TestMeans>(handler: RequestHandler<TMeans & FooMeans>) =>
+          ({ next }: RequestContext<TMeans>) =>
+            next(handler, requestExtension<TMeans, FooMeans>({ foo: `foo${++applied}` })),
+        { id: 'Counting' },
+      );
+    });
+
+    it('skips capability applied already', async () => {
+      let foo: string | undefined;
+
+      await processor(
+        Counting.for(
+          Counting.for(context => {
+            foo = context.foo;
+          }),
+        ),
+      )({ kind: 'test' });
+
+      expect(foo).toBe('foo1');
+      expect(applied).toBe(1);
+    });
+    it('skips capability with the same identity', async () => {
+      const Other = RequestCapability.of(provideFoo, { id: 'Counting' });
+      let foo: string | undefined;
+
+      await processor(
+        Counting.and(Other).for(context => {
+          foo = context.foo;
+        }),
+      )({ kind: 'test' });
+
+      expect(foo).toBe('foo1');
+    });
+    it('applies capability in sibling contexts', async () => {
+      const foos: string[] = [];
+      const handler = Counting.for(({ foo }) => {
+        foos.push(foo);
+      });
+
+      await processor<TestMeans>(async ({ next }) => {
+        await next(handler);
+        await next(handler);
+      })({ kind: 'test' });
+
+      expect(foos).toEqual(['foo1', 'foo2']);
+    });
+    it('applies capability without identity unconditionally', async () => {
+      let foo: string | undefined;
+      let count = 0;
+      const Anonymous = RequestCapability.of<TestMeans, FooMeans>(
+        <TMeans extends TestMeans>(handler: RequestHandler<TMeans & FooMeans>) =>
+          ({ next }: RequestContext<TMeans>) =>
+            next(handler, requestExtension<TMeans, FooMeans>({ foo: `foo${++count}` })),
+      );
+
+      await processor(
+        Anonymous.and(Anonymous).for(context => {
+          foo = context.foo;
+        }),
+      )({ kind: 'test' });
+
+      expect(foo).toBe('foo2');
+    });
+    it('skips combined capability implemented by class field', async () => {
+      class FieldCapability extends RequestCapability<TestMeans, FooMeans> {
+        override get id(): string {
+          return 'Counting';
+        }
+
+        readonly for = <TMeans extends TestMeans>(
+          handler: RequestHandler<TMeans & FooMeans>,
+        ): RequestHandler<TMeans> => provideFoo(handler);
+      }
+
+      let foo: string | undefined;
+
+      await processor(
+        Counting.and(new FieldCapability()).for(context => {
+          foo = context.foo;
+        }),
+      )({ kind: 'test' });
+
+      expect(foo).toBe('foo1');
+    });
+    it('omits duplicate capability when combining', () => {
+      const combined = Counting.and(Bar);
+
+      expect(combined.and(Counting)).toBe(combined);
+      expect(Counting.and(Counting)).toBe(Counting);
+    });
+  });
+
+  describe('requires', () => {
+    it('is empty by default', () => {
+      expect(Foo.requires).toEqual([]);
+    });
+
+    it('fails when required capability is not applied', async () => {
+      const FooRequired = RequestCapability.of(provideFoo, { id: 'Foo' });
+      const BarRequiring = RequestCapability.of(provideBar, {
+        id: 'Bar',
+        requires: [FooRequired],
+      });
+
+      await expect(processor(BarRequiring.for(noop))({ kind: 'test' })).rejects.toThrow(
+        new ReferenceError('Bar requires Foo'),
+      );
+    });
+    it('succeeds when required capability is applied', async () => {
+      const FooRequired = RequestCapability.of(provideFoo, { id: 'Foo' });
+      const BarRequiring = RequestCapability.of(provideBar, {
+        requires: [FooRequired],
+      });
+      let result: string[] = [];
+
+      await processor(
+        FooRequired.and(BarRequiring).for(({ foo, bar }) => {
+          result = [foo, bar];
+        }),
+      )({ kind: 'test' });
+
+      expect(result).toEqual(['foo', 'bar']);
+    });
+  });
+
+  describe('when', () => {
+    it('applies capability when condition holds', async () => {
+      let foo: string | undefined;
+
+      await processor(
+        Foo.when(({ kind }) => kind === 'foo').for(context => {
+          foo = context.foo;
+        }),
+      )({ kind: 'foo' });
+
+      expect(foo).toBe('foo');
+    });
+    it('does not apply capability when condition does not hold', async () => {
+      let context: Partial<FooMeans> | undefined;
+
+      await processor(
+        Foo.when(({ kind }) => kind === 'foo').for(ctx => {
+          context = ctx;
+        }),
+      )({ kind: 'bar' });
+
+      expect(context).toBeDefined();
+      expect(context?.foo).toBeUndefined();
+    });
+    it('accepts asynchronous condition', async () => {
+      let foo: string | undefined;
+
+      await processor(
+        Foo.when(async ({ kind }) => await Promise.resolve(kind === 'foo')).for(context => {
+          foo = context.foo;
+        }),
+      )({ kind: 'foo' });
+
+      expect(foo).toBe('foo');
+    });
+    it('applies fallback capability when condition does not hold', async () => {
+      let result: string | undefined;
+
+      await processor(
+        Foo.when(({ kind }) => kind === 'foo', Bar).for(context => {
+          result = 'foo' in context ? context.foo : context.bar;
+        }),
+      )({ kind: 'bar' });
+
+      expect(result).toBe('bar');
+    });
+  });
+
+  describe('select', () => {
+    it('applies the first matching capability', async () => {
+      const results: string[] = [];
+      const handler = processor(
+        RequestCapability.select<TestMeans, Partial<FooMeans & BarMeans>>([
+          { when: ({ kind }) => kind === 'foo', apply: Foo },
+          { when: ({ kind }) => kind.startsWith('b'), apply: Bar },
+          { when: ({ kind }) => kind === 'bar', apply: Foo },
+        ]).for(({ foo, bar }) => {
+          results.push(foo ?? bar ?? 'none');
+        }),
+      );
+
+      await handler({ kind: 'foo' });
+      await handler({ kind: 'bar' });
+      await handler({ kind: 'baz' });
+
+      expect(results).toEqual(['foo', 'bar', 'bar']);
+    });
+    it('applies fallback capability when no conditions hold', async () => {
+      const results: string[] = [];
+      const handler = processor(
+        RequestCapability.select(
+          [{ when: ({ kind }: RequestContext<TestMeans>) => kind === 'foo', apply: Foo }],
+          Bar,
+        ).for(context => {
+          results.push('foo' in context ? context.foo : context.bar);
+        }),
+      );
+
+      await handler({ kind: 'foo' });
+      await handler({ kind: 'baz' });
+
+      expect(results).toEqual(['foo', 'bar']);
+    });
+    it('leaves means unmodified when no conditions hold and no fallback', async () => {
+      const results: (string | undefined)[] = [];
+
+      await processor(
+        RequestCapability.select<TestMeans, FooMeans>([]).for(({ kind, foo }) => {
+          results.push(kind, foo);
+        }),
+      )({ kind: 'test' });
+
+      expect(results).toEqual(['test', undefined]);
+    });
+  });
+
+  function processor<TMeans>(handler: RequestHandler<TMeans>): RequestProcessor<TMeans> {
+    return requestProcessor({
+      handler,
+      async next<TExt>(
+        handler: RequestHandler<TMeans & TExt>,
+        context: RequestContext<TMeans & TExt>,
+      ): Promise<boolean> {
+        await handler(context);
+
+        return true;
+      },
+    });
+  }
+});
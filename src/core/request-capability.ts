@@ -1,3 +1,8 @@
+import {
+  isRequestCapabilityApplied,
+  provideRequestCapability,
+} from '../impl/request-capability-registry.js';
+import type { RequestContext } from './request-context.js';
 import type { RequestHandler } from './request-handler.js';
 
 /**
@@ -7,6 +12,15 @@ import type { RequestHandler } from './request-handler.js';
  *
  * Request processing capabilities could be {@link RequestCapability.combine combined}.
  *
+ * A capability may have an {@link RequestCapability.id identity}. Such capability is applied at most once. I.e. it is
+ * skipped when {@link RequestCapability.isAppliedTo applied already}. A capability may also declare the
+ * {@link RequestCapability.requires capabilities it requires}. Request processing fails when any of them is not
+ * applied yet.
+ *
+ * This is guaranteed for capabilities built {@link RequestCapability.of by provider}, as well as for
+ * {@link RequestCapability.combine combined} and {@link RequestCapability.select selected} ones. A capability
+ * implemented by subclassing is handled this way when combined with others or applied conditionally.
+ *
  * @typeParam TInput - A type of request processing means required in order to apply this capability.
  * @typeParam TExt - A type of extension to request processing means this capability applies.
  */
@@ -17,23 +31,16 @@ export abstract class RequestCapability<TInput, TExt = object> {
    * @typeParam TInput - A type of request processing means required by this provider.
    * @typeParam TExt - A type of extension to request processing means this provider applies.
    * @param provider - Request processing capability provider.
+   * @param options - Request processing capability options.
    *
    * @returns Request processing capability that call the given `provider` in order to apply.
    */
   static of<TInput, TExt>(
     this: void,
     provider: RequestCapability.Provider<TInput, TExt>,
+    options?: RequestCapability.Options,
   ): RequestCapability<TInput, TExt> {
-    const capability: RequestCapability<TInput, TExt> = {
-      for: provider,
-      and<TNext>(
-        next: RequestCapability<TInput & TExt, TNext>,
-      ): RequestCapability<TInput, TExt & TNext> {
-        return RequestCapability.combine(capability, next);
-      },
-    };
-
-    return capability;
+    return new RequestCapability$Provided(provider, options);
   }
 
   /**
@@ -46,28 +53,136 @@ export abstract class RequestCapability<TInput, TExt = object> {
    * @param second - Second capability to combine. Receives requests modified by the `first` one.
    *
    * @return Combined request processing capability that applies modifications to request by the `first` capability,
-   * and then - by the `second` one.
+   * and then - by the `second` one. The `first` capability itself when it contains the `second` one with
+   * {@link RequestCapability.id identity}, as the latter won't be applied twice anyway.
    */
   static combine<TInput, TExt, TNext>(
     this: void,
     first: RequestCapability<TInput, TExt>,
     second: RequestCapability<TInput & TExt, TNext>,
   ): RequestCapability<TInput, TExt & TNext> {
-    const chain: RequestCapability<TInput, TExt & TNext> = {
-      for<TMeans extends TInput>(
-        delegate: RequestHandler<TMeans & TExt & TNext>,
-      ): RequestHandler<TMeans> {
-        return first.for(second.for(delegate));
-      },
+    if (second.id != null && RequestCapability$Combined.partsOf(first).includes(second)) {
+      return first as RequestCapability<TInput, TExt & TNext>;
+    }
+
+    return new RequestCapability$Combined(first, second);
+  }
+
+  /**
+   * Selects request processing capability to apply by request processing condition.
+   *
+   * Checks the given cases in order, and applies the capability of the first case which condition holds.
+   * Applies the `otherwise` capability, if any, when none of the conditions hold.
+   *
+   * @typeParam TInput - A type of request processing means expected by capabilities and conditions.
+   * @typeParam TExt - A type of request processing means extension applied by selectable capabilities.
+   * @param cases - Iterable of cases to select capability from.
+   *
+   * @returns Request processing capability that extends request processing means by selected capability, if any.
+   * The means extension is partial, as there is no guarantee any capability applied.
+   */
+  static select<TInput, TExt>(
+    this: void,
+    cases: Iterable<RequestCapability.Case<TInput, TExt>>,
+  ): RequestCapability<TInput, Partial<TExt>>;
 
-      and<T>(
-        next: RequestCapability<TInput & TExt & TNext, T>,
-      ): RequestCapability<TInput, TExt & TNext & T> {
-        return RequestCapability.combine<TInput, TExt & TNext, T>(chain, next);
+  /**
+   * Selects request processing capability to apply by request processing condition, or falls back to another one.
+   *
+   * Checks the given cases in order, and applies the capability of the first case which condition holds.
+   * Applies the `otherwise` capability when none of the conditions hold.
+   *
+   * @typeParam TInput - A type of request processing means expected by capabilities and conditions.
+   * @typeParam TExt - A type of request processing means extension applied by selectable capabilities.
+   * @typeParam TElse - A type of request processing means extension applied by fallback capability.
+   * @param cases - Iterable of cases to select capability from.
+   * @param otherwise - Fallback capability to apply when none of the case conditions hold.
+   *
+   * @returns Request processing capability that extends request processing means either by selected capability, or by
+   * fallback one.
+   */
+  static select<TInput, TExt, TElse>(
+    this: void,
+    cases: Iterable<RequestCapability.Case<TInput, TExt>>,
+    otherwise: RequestCapability<TInput, TElse>,
+  ): RequestCapability<TInput, TExt | TElse>;
+
+  static select<TInput, TExt, TElse>(
+    this: void,
+    cases: Iterable<RequestCapability.Case<TInput, TExt>>,
+    otherwise?: RequestCapability<TInput, TElse>,
+  ): RequestCapability<TInput, TExt | TElse> {
+    return RequestCapability.of(
+      <TMeans extends TInput>(
+        handler: RequestHandler<TMeans & (TExt | TElse)>,
+      ): RequestHandler<TMeans> => {
+        const branches = Array.from(cases, ({ when, apply }) => ({
+          when,
+          handler: provideRequestCapability(
+            apply,
+            handler,
+            apply.for<TMeans>(handler as RequestHandler<TMeans & TExt>),
+          ),
+        }));
+        const fallback = otherwise
+          ? provideRequestCapability(
+              otherwise,
+              handler,
+              otherwise.for<TMeans>(handler as RequestHandler<TMeans & TElse>),
+            )
+          : (handler as RequestHandler<TMeans>);
+
+        return async context => {
+          for (const { when, handler } of branches) {
+            if (await when(context as RequestContext<TInput>)) {
+              await context.next(handler);
+
+              return;
+            }
+          }
+
+          await context.next(fallback);
+        };
       },
-    };
+    );
+  }
 
-    return chain;
+  /**
+   * Request processing capability identifier.
+   *
+   * Capabilities with the same identifier are considered equivalent. So, the capability is not applied when the one
+   * with the same identifier is applied already.
+   *
+   * @defaultValue `undefined`, which means the capability has no identity and is applied unconditionally.
+   */
+  get id(): string | undefined {
+    return;
+  }
+
+  /**
+   * Request processing capabilities this one requires.
+   *
+   * Each of them has to be {@link isAppliedTo applied} before this one. Otherwise, a `ReferenceError` thrown.
+   *
+   * @defaultValue Empty array.
+   */
+  get requires(): readonly RequestCapability<unknown, unknown>[] {
+    return [];
+  }
+
+  /**
+   * Checks whether this capability is applied to the given request processing context already.
+   *
+   * By default, checks whether the capability with the same {@link id identifier} applied.
+   *
+   * @param context - Request processing context to check.
+   *
+   * @returns `true` if this capability applied already and should be skipped, or `false` otherwise.
+   */
+  isAppliedTo(context: RequestContext<unknown>): boolean {
+    const { id } = this;
+
+    return id != null && isRequestCapabilityApplied(context, id);
   }
 
   /**
@@ -100,6 +215,132 @@ export abstract class RequestCapability<TInput, TExt = object> {
   ): RequestCapability<TInput, TExt & TNext> {
     return RequestCapability.combine<TInput, TExt, TNext>(this, next);
   }
+
+  /**
+   * Applies this capability only when the given condition holds.
+   *
+   * The request processing means remain unmodified when the condition does not hold.
+   *
+   * @typeParam TMeans - A type of request processing means required by the condition.
+   * @param condition - Request processing condition to check.
+   *
+   * @returns New request processing capability that applies this one conditionally. The means extension is partial,
+   * as there is no guarantee this capability applied.
+   *
+   * @see RequestCapability.select
+   */
+  when<TMeans extends TInput>(
+    condition: RequestCapability.Condition<TMeans>,
+  ): RequestCapability<TMeans, Partial<TExt>>;
+
+  /**
+   * Applies this capability when the given condition holds, or falls back to another capability otherwise.
+   *
+   * @typeParam TMeans - A type of request processing means required by the condition.
+   * @typeParam TElse - A type of request processing means extension applied by fallback capability.
+   * @param condition - Request processing condition to check.
+   * @param otherwise - Fallback capability to apply when the condition does not hold.
+   *
+   * @returns New request processing capability that applies either this one, or the fallback one.
+   *
+   * @see RequestCapability.select
+   */
+  when<TMeans extends TInput, TElse>(
+    condition: RequestCapability.Condition<TMeans>,
+    otherwise: RequestCapability<TMeans, TElse>,
+  ): RequestCapability<TMeans, TExt | TElse>;
+
+  when<TMeans extends TInput, TElse>(
+    condition: RequestCapability.Condition<TMeans>,
+    otherwise?: RequestCapability<TMeans, TElse>,
+  ): RequestCapability<TMeans, Partial<TExt> | TElse> {
+    const cases: RequestCapability.Case<TMeans, TExt>[] = [{ when: condition, apply: this }];
+
+    return otherwise
+      ? RequestCapability.select(cases, otherwise)
+      : RequestCapability.select(cases);
+  }
+
+  /**
+   * Builds a string representation of this capability.
+   *
+   * @returns Either capability {@link id identifier}, or `RequestCapability` string for capability without identity.
+   */
+  toString(): string {
+    return this.id ?? 'RequestCapability';
+  }
+}
+
+/**
+ * @internal
+ */
+class RequestCapability$Provided<TInput, TExt> extends RequestCapability<TInput, TExt> {
+  readonly #provider: RequestCapability.Provider<TInput, TExt>;
+  readonly #id: string | undefined;
+  readonly #requires: readonly RequestCapability<unknown, unknown>[];
+
+  constructor(
+    provider: RequestCapability.Provider<TInput, TExt>,
+    { id, requires = [] }: RequestCapability.Options = {},
+  ) {
+    super();
+    this.#provider = provider;
+    this.#id = id;
+    this.#requires = requires;
+  }
+
+  override get id(): string | undefined {
+    return this.#id;
+  }
+
+  override get requires(): readonly RequestCapability<unknown, unknown>[] {
+    return this.#requires;
+  }
+
+  for<TMeans extends TInput>(handler: RequestHandler<TMeans & TExt>): RequestHandler<TMeans> {
+    return provideRequestCapability(this, handler, this.#provider<TMeans>(handler));
+  }
+}
+
+/**
+ * @internal
+ */
+class RequestCapability$Combined<TInput, TExt, TNext> extends RequestCapability<
+  TInput,
+  TExt & TNext
+> {
+  static partsOf(
+    capability: RequestCapability<any, any>,
+  ): readonly RequestCapability<unknown, unknown>[] {
+    return capability instanceof RequestCapability$Combined ? capability.#parts : [capability];
+  }
+
+  readonly #first: RequestCapability<TInput, TExt>;
+  readonly #second: RequestCapability<TInput & TExt, TNext>;
+  readonly #parts: readonly RequestCapability<unknown, unknown>[];
+
+  constructor(
+    first: RequestCapability<TInput, TExt>,
+    second: RequestCapability<TInput & TExt, TNext>,
+  ) {
+    super();
+    this.#first = first;
+    this.#second = second;
+    this.#parts = [
+      ...RequestCapability$Combined.partsOf(first),
+      ...RequestCapability$Combined.partsOf(second),
+    ];
+  }
+
+  for<TMeans extends TInput>(
+    delegate: RequestHandler<TMeans & TExt & TNext>,
+  ): RequestHandler<TMeans> {
+    const first = this.#first;
+    const second = this.#second;
+    const handler = provideRequestCapability(second, delegate, second.for(delegate));
+
+    return provideRequestCapability(first, handler, first.for(handler));
+  }
 }
 
 export namespace RequestCapability {
@@ -120,4 +361,59 @@ export namespace RequestCapability {
     this: void,
     handler: RequestHandler<TMeans & TExt>,
   ) => RequestHandler<TMeans>;
+
+  /**
+   * Request processing capability options.
+   *
+   * Used when {@link RequestCapability.of building capability by provider}.
+   */
+  export interface Options {
+    /**
+     * Request processing capability {@link RequestCapability.id identifier}.
+     *
+     * @defaultValue `undefined`, which means the capability has no identity.
+     */
+    readonly id?: string | undefined;
+
+    /**
+     * Request processing capabilities the built one {@link RequestCapability.requires requires}.
+     *
+     * @defaultValue Empty array.
+     */
+    readonly requires?: readonly RequestCapability<unknown, unknown>[] | undefined;
+  }
+
+  /**
+   * Request processing condition signature.
+   *
+   * Decides whether to apply a capability to request.
+   *
+   * @typeParam TMeans - A type of request processing means required by this condition.
+   * @param context - Request processing context to check.
+   *
+   * @returns Either `true` if the condition holds, or `false` otherwise, or a promise-like instance resolving to one
+   * of them.
+   */
+  export type Condition<TMeans> = (
+    this: void,
+    context: RequestContext<TMeans>,
+  ) => boolean | PromiseLike<boolean>;
+
+  /**
+   * Request processing capability {@link RequestCapability.select selection} case.
+   *
+   * @typeParam TInput - A type of request processing means required by the case.
+   * @typeParam TExt - A type of extension to request processing means applied by the case capability.
+   */
+  export interface Case<TInput, TExt> {
+    /**
+     * Request processing condition to check.
+     */
+    readonly when: Condition<TInput>;
+
+    /**
+     * Request processing capability to apply when the condition holds.
+     */
+    readonly apply: RequestCapability<TInput, TExt>;
+  }
 }
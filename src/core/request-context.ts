@@ -25,13 +25,46 @@ export namespace RequestContext {
    * @typeParam TMeans - A type of request processing means.
    */
   export interface Agent<TMeans> {
+    /**
+     * Request processing abort signal.
+     *
+     * Aborted when request processing is no longer needed. E.g. when the client disconnects, or when processing is
+     * aborted by {@link RequestProcessor request processor} caller.
+     *
+     * Handlers may pass it to downstream I/O operations in order to cancel them.
+     *
+     * The signal is shared with the {@link next next handler}, unless request processing means modification replaces
+     * it.
+     */
+    readonly signal: AbortSignal;
+
+    /**
+     * Defers the given callback execution until request processing finishes.
+     *
+     * Deferred callbacks are executed once request processing finishes or fails. E.g. when HTTP response is sent, or
+     * the connection is closed. They are executed in order opposite to their registration order. Each callback is
+     * executed after the previous one completes.
+     *
+     * The errors thrown by deferred callbacks are logged by {@link LoggerMeans request logger} present in the context
+     * the callback has been deferred in, or by `console` otherwise.
+     *
+     * The callback is executed immediately when request processing finished already.
+     *
+     * Can be used e.g. to release the resources allocated for request processing.
+     *
+     * @param callback - Callback to execute. May return a promise-like instance to wait for before executing the
+     * next callback.
+     */
+    defer(this: void, callback: (this: void) => PromiseLike<unknown> | void): void;
+
     /**
      * Delegates request processing to the next `handler` and optionally modifies processing means by creating a new
      * context with the given `modifications` applied. The rest of the properties remain unchanged.
      *
      * @param handler - Target handler to delegate request processing to.
      * @param modification - Request processing means modification. `this` context will be passed to the next
-     * `handler` when omitted.
+     * `handler` when omitted. May contain a `signal` property to replace the {@link signal abort signal} with. The new
+     * signal is expected to abort whenever the original one does. E.g. when created by {@link requestAbortController}.
      *
      * @returns A promise resolved when request processing finishes. Resolves to `true` when request is responded,
      * or to `false` otherwise.
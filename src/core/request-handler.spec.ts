@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it } from '@jest/globals';
-import { valueProvider } from '@proc7ts/primitives';
+import { noop, valueProvider } from '@proc7ts/primitives';
 import type { ServerResponse } from 'node:http';
 import type { RequestContext } from './request-context.js';
 import { requestHandler, RequestHandler } from './request-handler.js';
@@ -20,6 +20,8 @@ describe('requestHandler', () => {
         return response.writableEnded;
       },
       modifiedBy: valueProvider(false),
+      signal: new AbortController().signal,
+      defer: noop,
     } as RequestContext<object>;
   });
 
@@ -0,0 +1,330 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { consoleLogger, silentLogger } from '@proc7ts/logger';
+import { noop } from '@proc7ts/primitives';
+import { ContextStorage } from './context-storage.capability.js';
+import type { LoggerMeans } from './logging/logger.means.js';
+import { Logging } from './logging/logging.capability.js';
+import { RequestCapability } from './request-capability.js';
+import type { RequestContext } from './request-context.js';
+import type { RequestHandler } from './request-handler.js';
+import { requestProcessor, RequestProcessor } from './request-processor.js';
+import type { RequestTracer } from './request-tracer.js';
+
+describe('requestProcessor', () => {
+  describe('signal', () => {
+    it('is never aborted by default', async () => {
+      let signal: AbortSignal | undefined;
+
+      await processor(context => {
+        signal = context.signal;
+      })({});
+
+      expect(signal).toBeInstanceOf(AbortSignal);
+      expect(signal?.aborted).toBe(false);
+    });
+    it('is the one passed to processor', async () => {
+      const abort = new AbortController();
+      let signal: AbortSignal | undefined;
+
+      await processor(context => {
+        signal = context.signal;
+      })({}, abort.signal);
+
+      expect(signal).toBe(abort.signal);
+    });
+    it('is propagated to the next handler', async () => {
+      const abort = new AbortController();
+      let signal: AbortSignal | undefined;
+
+      await processor<object>(({ next }) =>
+        next(
+          context => {
+            signal = context.signal;
+          },
+          { test: 'test' },
+        ),
+      )({}, abort.signal);
+
+      expect(signal).toBe(abort.signal);
+    });
+    it('can be replaced by modification', async () => {
+      const abort = new AbortController();
+      const replacement = new AbortController();
+      let signal: AbortSignal | undefined;
+
+      await processor<object>(({ next }) =>
+        next(
+          ({ next }) =>
+            next(context => {
+              signal = context.signal;
+            }),
+          { signal: replacement.signal },
+        ),
+      )({}, abort.signal);
+
+      expect(signal).toBe(replacement.signal);
+    });
+    it('is not replaced by undefined modification', async () => {
+      const abort = new AbortController();
+      let signal: AbortSignal | undefined;
+
+      await processor<object>(({ next }) =>
+        next(
+          context => {
+            signal = context.signal;
+          },
+          { signal: undefined } as { signal?: AbortSignal },
+        ),
+      )({}, abort.signal);
+
+      expect(signal).toBe(abort.signal);
+    });
+  });
+
+  describe('defer', () => {
+    it('executes deferred callbacks in reverse order after processing', async () => {
+      const calls: string[] = [];
+
+      const result = processor<object>(({ defer, next }) => {
+        defer(() => {
+          calls.push('first');
+        });
+
+        return next(
+          ({ defer }) => {
+            defer(async () => {
+              await Promise.resolve();
+              calls.push('second');
+            });
+            calls.push('handler');
+          },
+          { test: 'test' },
+        );
+      })({});
+
+      expect(calls).toEqual(['handler']);
+      await result;
+      expect(calls).toEqual(['handler', 'second', 'first']);
+    });
+    it('executes deferred callbacks when processing finished', async () => {
+      const calls: string[] = [];
+      let finish!: () => void;
+      const whenFinished = new Promise<void>(resolve => {
+        finish = resolve;
+      });
+
+      await processor(({ defer }) => {
+        defer(() => {
+          calls.push('deferred');
+        });
+      })({}, undefined, whenFinished);
+
+      expect(calls).toEqual([]);
+
+      finish();
+      await whenFinished;
+      await Promise.resolve();
+      expect(calls).toEqual(['deferred']);
+    });
+    it('executes deferred callbacks when processing failed', async () => {
+      const error = new Error('test');
+      let onDeferred!: () => void;
+      const whenDeferred = new Promise<void>(resolve => {
+        onDeferred = resolve;
+      });
+      const deferred = jest.fn(() => onDeferred());
+      const whenFinished = Promise.reject(error);
+
+      whenFinished.catch(noop);
+
+      await expect(
+        processor(({ defer }) => {
+          defer(deferred);
+
+          throw error;
+        })({}, undefined, whenFinished),
+      ).rejects.toBe(error);
+
+      await whenDeferred;
+      expect(deferred).toHaveBeenCalledTimes(1);
+    });
+    it('executes callback immediately when processing finished already', async () => {
+      let defer!: RequestContext.Agent<unknown>['defer'];
+
+      await processor(context => {
+        defer = context.defer;
+      })({});
+
+      const deferred = new Promise<void>(resolve => defer(resolve));
+
+      expect(await deferred).toBeUndefined();
+    });
+    it('logs deferred callback errors', async () => {
+      const error = new Error('test');
+      const log = { ...silentLogger, error: jest.fn() };
+
+      await processor(
+        Logging.logBy(log).for(({ defer }) => {
+          defer(() => {
+            throw error;
+          });
+        }),
+      )({});
+
+      expect(log.error).toHaveBeenCalledWith('Deferred request callback failed', error);
+    });
+    it('logs deferred callback errors by console', async () => {
+      const error = new Error('test');
+      const logErrorSpy = jest.spyOn(consoleLogger, 'error').mockImplementation(noop);
+
+      try {
+        await processor(({ defer }) => {
+          defer(() => {
+            throw error;
+          });
+        })({});
+
+        expect(logErrorSpy).toHaveBeenCalledWith('Deferred request callback failed', error);
+      } finally {
+        logErrorSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('tracer', () => {
+    let tracer: {
+      enter: jest.Mock<(entry: RequestTracer.Entry) => void>;
+      exit: jest.Mock<(exit: RequestTracer.Exit) => void>;
+      error: jest.Mock<(failure: RequestTracer.Failure) => void>;
+    };
+
+    beforeEach(() => {
+      tracer = {
+        enter: jest.fn(),
+        exit: jest.fn(),
+        error: jest.fn(),
+      };
+    });
+
+    it('traces handler calls', async () => {
+      const nested: RequestHandler<object> = noop;
+
+      await processor<object>(({ next }) => next(nested), tracer)({});
+
+      expect(tracer.enter).toHaveBeenCalledTimes(2);
+      expect(tracer.enter).toHaveBeenLastCalledWith(
+        expect.objectContaining({ handler: nested, capability: undefined }),
+      );
+      expect(tracer.exit).toHaveBeenCalledTimes(2);
+      expect(tracer.exit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          handler: nested,
+          elapsed: expect.any(Number),
+          responded: true,
+        }),
+      );
+      expect(tracer.error).not.toHaveBeenCalled();
+    });
+    it('traces handler failures', async () => {
+      const error = new Error('test');
+      const nested: RequestHandler<object> = () => {
+        throw error;
+      };
+
+      expect(
+        await processor<object>(({ next }) => next(nested), tracer)({}).catch(err => err),
+      ).toBe(error);
+
+      expect(tracer.error).toHaveBeenCalledTimes(2);
+      expect(tracer.error).toHaveBeenCalledWith(
+        expect.objectContaining({
+          handler: nested,
+          elapsed: expect.any(Number),
+          error,
+        }),
+      );
+      expect(tracer.exit).not.toHaveBeenCalled();
+    });
+    it('reports capability producing the context', async () => {
+      const handler: RequestHandler<LoggerMeans> = noop;
+      const logging = Logging.logBy(silentLogger);
+
+      await processor<object>(logging.for(handler), tracer)({});
+
+      expect(tracer.enter).toHaveBeenLastCalledWith(
+        expect.objectContaining({ handler, capability: logging }),
+      );
+    });
+    it('reports capability built by provider', async () => {
+      const handler: RequestHandler<object> = noop;
+      const capability = RequestCapability.of<object, object>(
+        handler =>
+          ({ next }) =>
+            next(handler),
+      );
+
+      await processor<object>(capability.for(handler), tracer)({});
+
+      expect(tracer.enter).toHaveBeenLastCalledWith(
+        expect.objectContaining({ handler, capability }),
+      );
+    });
+    it('reports combined capability implemented by class field', async () => {
+      class FieldCapability extends RequestCapability<object> {
+        readonly for =
+          <TMeans extends object>(handler: RequestHandler<TMeans>): RequestHandler<TMeans> =>
+          ({ next }) =>
+            next(handler);
+      }
+
+      const handler: RequestHandler<LoggerMeans> = noop;
+      const capability = new FieldCapability();
+
+      await processor<object>(Logging.and(capability).for(handler), tracer)({});
+
+      expect(tracer.enter).toHaveBeenLastCalledWith(
+        expect.objectContaining({ handler, capability }),
+      );
+    });
+    it('reports handlers delegated to under context storage', async () => {
+      const handler: RequestHandler<LoggerMeans> = noop;
+      const logging = Logging.logBy(silentLogger);
+
+      await processor<object>(ContextStorage.for(logging.for(handler)), tracer)({});
+
+      expect(tracer.enter).toHaveBeenLastCalledWith(
+        expect.objectContaining({ handler, capability: logging }),
+      );
+      expect(tracer.exit).toHaveBeenCalledWith(
+        expect.objectContaining({ handler, capability: logging, responded: true }),
+      );
+    });
+    it('accepts partial tracer', async () => {
+      const enter = jest.fn();
+
+      expect(await processor<object>(noop, { enter })({})).toBe(true);
+      expect(
+        await processor<object>(() => Promise.reject(new Error('test')), {})({}).catch(noop),
+      ).toBeUndefined();
+      expect(enter).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  function processor<TMeans>(
+    handler: RequestHandler<TMeans>,
+    tracer?: RequestTracer,
+  ): RequestProcessor<TMeans> {
+    return requestProcessor({
+      handler,
+      tracer,
+      async next<TExt>(
+        handler: RequestHandler<TMeans & TExt>,
+        context: RequestContext<TMeans & TExt>,
+      ): Promise<boolean> {
+        await handler(context);
+
+        return true;
+      },
+    });
+  }
+});
@@ -1,6 +1,10 @@
+import { consoleLogger } from '@proc7ts/logger';
+import { requestCapabilityOf, requestHandlerOf } from '../impl/request-capability-registry.js';
+import type { LoggerMeans } from './logging/logger.means.js';
 import type { RequestContext } from './request-context.js';
 import type { RequestHandler, RequestHandlerMethod } from './request-handler.js';
 import type { RequestModification } from './request-modification.js';
+import type { RequestTracer } from './request-tracer.js';
 
 /**
  * Generic request processor.
@@ -12,11 +16,22 @@ import type { RequestModification } from './request-modification.js';
 export type RequestProcessor<TMeans> =
   /**
    * @param means - Initial request processing means.
+   * @param signal - Request processing abort signal. Becomes a {@link RequestContext.Agent.signal signal} of initial
+   * request processing context. A signal that is never aborted is used when omitted.
+   * @param whenFinished - A promise-like instance settled when request processing finishes. The
+   * {@link RequestContext.Agent.defer deferred callbacks} are executed after that, or when request processing fails.
+   * When omitted, the deferred callbacks are executed right after request processing completes, before the returned
+   * promise settles.
    *
    * @returns A promise resolved when request processing finishes. Resolves to `true` when request is responded,
    * or to `false` otherwise.
    */
-  (this: void, means: TMeans) => Promise<boolean>;
+  (
+    this: void,
+    means: TMeans,
+    signal?: AbortSignal,
+    whenFinished?: PromiseLike<unknown>,
+  ) => Promise<boolean>;
 
 export namespace RequestProcessor {
   /**
@@ -32,6 +47,13 @@ export namespace RequestProcessor {
      */
     readonly handler: RequestHandlerMethod<this, TMeans>;
 
+    /**
+     * Request processing tracer.
+     *
+     * Observes each {@link next request processing handler call} when present.
+     */
+    readonly tracer?: RequestTracer | undefined;
+
     /**
      * Calls the next request processing handler.
      *
@@ -63,13 +85,76 @@ export function requestProcessor<TMeans>(
   config: RequestProcessor.Config<TMeans>,
 ): RequestProcessor<TMeans> {
   const handler = config.handler.bind(config);
+  const callNext = nextHandlerCall(config);
+
+  return (means, signal = new AbortController().signal, whenFinished) => {
+    const deferrals = new RequestDeferrals();
+    const context = { ...means, signal } as RequestContext<TMeans>;
+
+    context.next = nextHandlerCaller(
+      callNext,
+      deferrals,
+      context,
+    ) as RequestContext<TMeans>['next'];
+    context.defer = deferrals.deferIn(context);
+
+    const result = callNext(handler, context);
+
+    if (!whenFinished) {
+      return result.finally(() => deferrals.finish());
+    }
+
+    const finish = (): void => void deferrals.finish();
+
+    whenFinished.then(finish, finish);
+    result.catch(finish);
+
+    return result;
+  };
+}
+
+/**
+ * @internal
+ */
+type NextHandlerCall<TBase> = <TExt extends object>(
+  handler: RequestHandler<TBase & TExt>,
+  context: RequestContext<TBase & TExt>,
+) => Promise<boolean>;
+
+/**
+ * @internal
+ */
+function nextHandlerCall<TBase>(config: RequestProcessor.Config<TBase>): NextHandlerCall<TBase> {
+  const { tracer } = config;
 
-  return means => {
-    const context = { ...means } as RequestContext<TMeans>;
+  if (!tracer) {
+    return (handler, context) => config.next(handler, context);
+  }
+
+  return async (handler, context) => {
+    const tracedHandler = requestHandlerOf(handler);
+    const entry: RequestTracer.Entry = {
+      handler: tracedHandler,
+      capability: requestCapabilityOf(tracedHandler),
+      context: context as RequestContext<unknown>,
+    };
+
+    tracer.enter?.(entry);
 
-    context.next = nextHandlerCaller(config, context) as RequestContext<TMeans>['next'];
+    const start = performance.now();
+    let responded: boolean;
+
+    try {
+      responded = await config.next(handler, context);
+    } catch (error) {
+      tracer.error?.({ ...entry, elapsed: performance.now() - start, error });
+
+      throw error;
+    }
 
-    return config.next(handler, context);
+    tracer.exit?.({ ...entry, elapsed: performance.now() - start, responded });
+
+    return responded;
   };
 }
 
@@ -77,7 +162,8 @@ export function requestProcessor<TMeans>(
  * @internal
  */
 function nextHandlerCaller<TBase, TMeans extends TBase, TExt extends object>(
-  config: RequestProcessor.Config<TBase>,
+  callNext: NextHandlerCall<TBase>,
+  deferrals: RequestDeferrals,
   means: TMeans,
 ): (
   handler: RequestHandler<TMeans & TExt>,
@@ -90,12 +176,54 @@ function nextHandlerCaller<TBase, TMeans extends TBase, TExt extends object>(
     let context: RequestContext<TMeans & TExt>;
 
     if (modification) {
-      context = { ...means, ...modification } as RequestContext<TMeans & TExt>;
-      context.next = nextHandlerCaller(config, context as TMeans & TExt);
+      const { signal = (means as Partial<RequestContext<TMeans>>).signal } =
+        modification as Partial<RequestContext<TMeans>>;
+
+      context = { ...means, ...modification, signal } as RequestContext<TMeans & TExt>;
+      context.next = nextHandlerCaller(callNext, deferrals, context as TMeans & TExt);
+      context.defer = deferrals.deferIn(context);
     } else {
       context = means as RequestContext<TMeans & TExt>;
     }
 
-    return config.next(handler, context);
+    return callNext(handler, context);
   };
 }
+
+/**
+ * @internal
+ */
+class RequestDeferrals {
+  readonly #deferred: (() => Promise<void>)[] = [];
+  #finished?: Promise<void>;
+
+  deferIn(context: RequestContext<unknown>): RequestContext.Agent<unknown>['defer'] {
+    return callback => {
+      const deferred = async (): Promise<void> => {
+        try {
+          await callback();
+        } catch (error) {
+          const { log = consoleLogger } = context as Partial<LoggerMeans>;
+
+          log.error('Deferred request callback failed', error);
+        }
+      };
+
+      if (this.#finished) {
+        void deferred();
+      } else {
+        this.#deferred.push(deferred);
+      }
+    };
+  }
+
+  finish(): Promise<void> {
+    return (this.#finished ??= this.#runDeferred());
+  }
+
+  async #runDeferred(): Promise<void> {
+    for (let deferred = this.#deferred.pop(); deferred; deferred = this.#deferred.pop()) {
+      await deferred();
+    }
+  }
+}
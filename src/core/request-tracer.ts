@@ -0,0 +1,96 @@
+import type { RequestCapability } from './request-capability.js';
+import type { RequestContext } from './request-context.js';
+import type { RequestHandler } from './request-handler.js';
+
+/**
+ * Request processing tracer.
+ *
+ * Observes each request processing handler call made by {@link requestProcessor request processor}. I.e. each
+ * {@link RequestContext.Agent.next delegation} to request handler.
+ *
+ * Can be set as {@link RequestProcessor.Config.tracer request processor tracer}, or as
+ * {@link HttpConfig.tracer HTTP processing tracer}.
+ *
+ * All methods are optional.
+ */
+export interface RequestTracer {
+  /**
+   * Called right before the handler call.
+   *
+   * @param entry - Handler call entry.
+   */
+  enter?(entry: RequestTracer.Entry): void;
+
+  /**
+   * Called when the handler completed successfully.
+   *
+   * @param exit - Successful handler call info.
+   */
+  exit?(exit: RequestTracer.Exit): void;
+
+  /**
+   * Called when the handler failed.
+   *
+   * @param failure - Failed handler call info.
+   */
+  error?(failure: RequestTracer.Failure): void;
+}
+
+export namespace RequestTracer {
+  /**
+   * Request processing handler call entry.
+   */
+  export interface Entry {
+    /**
+     * Called request processing handler.
+     */
+    readonly handler: RequestHandler<any>;
+
+    /**
+     * Request processing capability the handler is provided with.
+     *
+     * This is the capability that produced the handler's context. `undefined` if the handler is called by anything
+     * else.
+     */
+    readonly capability: RequestCapability<any, any> | undefined;
+
+    /**
+     * Request processing context passed to the handler.
+     */
+    readonly context: RequestContext<unknown>;
+  }
+
+  /**
+   * Successful request processing handler call info.
+   */
+  export interface Exit extends Entry {
+    /**
+     * The time in milliseconds elapsed since the handler call.
+     *
+     * Includes the time spent in nested handlers.
+     */
+    readonly elapsed: number;
+
+    /**
+     * Whether the request is responded.
+     */
+    readonly responded: boolean;
+  }
+
+  /**
+   * Failed request processing handler call info.
+   */
+  export interface Failure extends Entry {
+    /**
+     * The time in milliseconds elapsed since the handler call.
+     *
+     * Includes the time spent in nested handlers.
+     */
+    readonly elapsed: number;
+
+    /**
+     * Error thrown by the handler.
+     */
+    readonly error: unknown;
+  }
+}
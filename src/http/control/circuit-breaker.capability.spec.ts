@@ -0,0 +1,379 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import { consoleLogger, silentLogger } from '@proc7ts/logger';
+import { noop } from '@proc7ts/primitives';
+import { Logging } from '../../core/logging/logging.capability.js';
+import { RequestLogger } from '../../core/logging/request-logger.js';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { HttpError } from '../http-error.js';
+import { Rendering } from '../render/rendering.capability.js';
+import { CircuitBreaker } from './circuit-breaker.capability.js';
+
+describe('CircuitBreaker', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.listenBy(noop);
+  });
+
+  let log: RequestLogger;
+  let logged: [string, ...unknown[]][];
+  let now: number;
+  let failWith: unknown;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    logged = [];
+    log = {
+      ...silentLogger,
+      warn: (...args) => logged.push(['warn', ...args]),
+      info: (...args) => logged.push(['info', ...args]),
+    };
+    now = 0;
+    failWith = undefined;
+    breaker = CircuitBreaker.with({
+      name: 'Test circuit',
+      failureThreshold: 2,
+      cooldown: 5000,
+      now: () => now,
+    });
+    handleBy(breaker);
+  });
+
+  function handleBy(breaker: CircuitBreaker): void {
+    server.handleBy(
+      {
+        handleBy(handler) {
+          return Logging.logBy(log).for(handler);
+        },
+      },
+      breaker.and(Rendering).for(({ renderJson }) => {
+        if (failWith) {
+          throw failWith;
+        }
+        renderJson({ response: 'ok' });
+      }),
+    );
+  }
+
+  async function fail(times: number): Promise<void> {
+    failWith = new Error('Failed');
+    for (let i = 0; i < times; ++i) {
+      expect((await server.get('/test')).statusCode).toBe(500);
+    }
+    failWith = undefined;
+  }
+
+  it('processes requests while closed', async () => {
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(await response.body())).toEqual({ response: 'ok' });
+    expect(breaker.state).toBe('closed');
+  });
+  it('opens the circuit for 30 seconds after 5 failures by default', async () => {
+    breaker = CircuitBreaker.with({});
+    handleBy(breaker);
+
+    await fail(4);
+    expect(breaker.state).toBe('closed');
+
+    await fail(1);
+    expect(breaker.state).toBe('open');
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(503);
+    expect(response.headers['retry-after']).toBe('30');
+  });
+  it('counts consecutive failures only', async () => {
+    await fail(1);
+    expect((await server.get('/test')).statusCode).toBe(200);
+    await fail(1);
+
+    expect(breaker.state).toBe('closed');
+  });
+  it('opens the circuit after failure threshold reached', async () => {
+    await fail(2);
+
+    expect(breaker.state).toBe('open');
+    expect(logged).toEqual([['warn', 'Test circuit opened after 2 failures']]);
+
+    now = 1500;
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(503);
+    expect(response.headers['retry-after']).toBe('4');
+    expect(await response.body()).toContain('Circuit is open');
+  });
+  it('calls fallback handler while open', async () => {
+    breaker = breaker.with({
+      failureThreshold: 1,
+      now: () => now,
+      fallback: ({ response }) => {
+        response.end('Fallback');
+      },
+    });
+    handleBy(breaker);
+
+    await fail(1);
+
+    expect(await (await server.get('/test')).body()).toBe('Fallback');
+    expect(logged).toEqual([['warn', 'CircuitBreaker opened after 1 failures']]);
+  });
+  it('closes the circuit after successful trial', async () => {
+    await fail(2);
+
+    now = 5000;
+
+    expect((await server.get('/test')).statusCode).toBe(200);
+    expect(breaker.state).toBe('closed');
+    expect(logged).toEqual([
+      ['warn', 'Test circuit opened after 2 failures'],
+      ['info', 'Test circuit half-open'],
+      ['info', 'Test circuit closed'],
+    ]);
+  });
+  it('opens the circuit again after failed trial', async () => {
+    await fail(2);
+
+    now = 5000;
+    await fail(1);
+
+    expect(breaker.state).toBe('open');
+    expect(logged).toEqual([
+      ['warn', 'Test circuit opened after 2 failures'],
+      ['info', 'Test circuit half-open'],
+      ['warn', 'Test circuit opened after 3 failures'],
+    ]);
+
+    now = 9999;
+    expect((await server.get('/test')).statusCode).toBe(503);
+
+    now = 10000;
+    expect((await server.get('/test')).statusCode).toBe(200);
+  });
+  it('short-circuits requests while trial is in progress', async () => {
+    let release!: () => void;
+    const whenReleased = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    let started!: () => void;
+    const whenStarted = new Promise<void>(resolve => {
+      started = resolve;
+    });
+
+    server.handleBy(
+      {
+        handleBy(handler) {
+          return Logging.logBy(log).for(handler);
+        },
+      },
+      breaker.and(Rendering).for(async ({ requestAddresses, renderJson }) => {
+        if (failWith) {
+          throw failWith;
+        }
+        if (requestAddresses.url.searchParams.has('block')) {
+          started();
+          await whenReleased;
+        }
+        renderJson({ response: 'ok' });
+      }),
+    );
+
+    await fail(2);
+
+    now = 5000;
+
+    const whenTrial = server.get('/test?block');
+
+    await whenStarted;
+    expect(breaker.state).toBe('half-open');
+    expect((await server.get('/test')).statusCode).toBe(503);
+
+    release();
+    expect((await whenTrial).statusCode).toBe(200);
+    expect(breaker.state).toBe('closed');
+  });
+  it('changes half-open circuit state by trial outcome only', async () => {
+    const gates = new Map(['succeeded', 'failed', 'trial'].map(name => [name, new Gate()]));
+
+    server.handleBy(
+      {
+        handleBy(handler) {
+          return Logging.logBy(log).for(handler);
+        },
+      },
+      breaker.and(Rendering).for(async ({ requestAddresses: { url }, renderJson }) => {
+        if (failWith) {
+          throw failWith;
+        }
+
+        await gates.get(url.searchParams.get('wait')!)?.pass();
+        if (url.searchParams.has('fail')) {
+          throw new Error('Failed');
+        }
+        renderJson({ response: 'ok' });
+      }),
+    );
+
+    const whenSucceeded = server.get('/test?wait=succeeded');
+    const whenFailed = server.get('/test?wait=failed&fail');
+
+    await gates.get('succeeded')!.whenStarted;
+    await gates.get('failed')!.whenStarted;
+    await fail(2);
+
+    now = 5000;
+
+    const whenTrial = server.get('/test?wait=trial&fail');
+
+    await gates.get('trial')!.whenStarted;
+    expect(breaker.state).toBe('half-open');
+
+    gates.get('succeeded')!.release();
+    expect((await whenSucceeded).statusCode).toBe(200);
+    expect(breaker.state).toBe('half-open');
+
+    gates.get('failed')!.release();
+    expect((await whenFailed).statusCode).toBe(500);
+    expect(breaker.state).toBe('half-open');
+
+    gates.get('trial')!.release();
+    expect((await whenTrial).statusCode).toBe(500);
+    expect(breaker.state).toBe('open');
+    expect(logged).toEqual([
+      ['warn', 'Test circuit opened after 2 failures'],
+      ['info', 'Test circuit half-open'],
+      ['warn', 'Test circuit opened after 3 failures'],
+    ]);
+  });
+  it('starts new trial when pending one exceeds cooldown', async () => {
+    const stale = new Gate();
+
+    server.handleBy(
+      {
+        handleBy(handler) {
+          return Logging.logBy(log).for(handler);
+        },
+      },
+      breaker.and(Rendering).for(async ({ requestAddresses: { url }, renderJson }) => {
+        if (failWith) {
+          throw failWith;
+        }
+        if (url.searchParams.has('stale')) {
+          await stale.pass();
+          throw new Error('Failed');
+        }
+        renderJson({ response: 'ok' });
+      }),
+    );
+
+    await fail(2);
+
+    now = 5000;
+
+    const whenStale = server.get('/test?stale');
+
+    await stale.whenStarted;
+
+    now = 9999;
+    expect((await server.get('/test')).statusCode).toBe(503);
+    expect(breaker.state).toBe('half-open');
+
+    now = 10000;
+    expect((await server.get('/test')).statusCode).toBe(200);
+    expect(breaker.state).toBe('closed');
+
+    stale.release();
+    expect((await whenStale).statusCode).toBe(500);
+    expect(breaker.state).toBe('closed');
+    expect(logged).toEqual([
+      ['warn', 'Test circuit opened after 2 failures'],
+      ['info', 'Test circuit half-open'],
+      ['info', 'Test circuit closed'],
+    ]);
+  });
+  it('does not count client errors as failures', async () => {
+    failWith = new HttpError(404);
+
+    expect((await server.get('/test')).statusCode).toBe(404);
+    expect((await server.get('/test')).statusCode).toBe(404);
+    expect(breaker.state).toBe('closed');
+  });
+  it('counts failures by custom predicate', async () => {
+    breaker = CircuitBreaker.with({
+      failureThreshold: 1,
+      isFailure: error => error instanceof HttpError && error.statusCode === 404,
+    });
+    handleBy(breaker);
+
+    await fail(1);
+    expect(breaker.state).toBe('closed');
+
+    failWith = new HttpError(404);
+    expect((await server.get('/test')).statusCode).toBe(404);
+    expect(breaker.state).toBe('open');
+  });
+  it('logs state transitions by console when logger is absent', async () => {
+    const logWarnSpy = jest.spyOn(consoleLogger, 'warn').mockImplementation(noop);
+    const logErrorSpy = jest.spyOn(consoleLogger, 'error').mockImplementation(noop);
+
+    try {
+      breaker = CircuitBreaker.with({ failureThreshold: 1 });
+      server.handleBy(
+        breaker.for(() => {
+          throw new Error('Failed');
+        }),
+      );
+
+      expect((await server.get('/test')).statusCode).toBe(500);
+      expect(logWarnSpy).toHaveBeenCalledWith('CircuitBreaker opened after 1 failures');
+    } finally {
+      logWarnSpy.mockRestore();
+      logErrorSpy.mockRestore();
+    }
+  });
+
+  class Gate {
+    readonly whenStarted: Promise<void>;
+    readonly whenReleased: Promise<void>;
+    readonly #started: () => void;
+    readonly release: () => void;
+
+    constructor() {
+      let started!: () => void;
+      let release!: () => void;
+
+      this.whenStarted = new Promise(resolve => {
+        started = resolve;
+      });
+      this.whenReleased = new Promise(resolve => {
+        release = resolve;
+      });
+      this.#started = started;
+      this.release = release;
+    }
+
+    async pass(): Promise<void> {
+      this.#started();
+      await this.whenReleased;
+    }
+  }
+});
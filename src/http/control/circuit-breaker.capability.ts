@@ -0,0 +1,299 @@
+import { consoleLogger } from '@proc7ts/logger';
+import { LoggerMeans } from '../../core/logging/logger.means.js';
+import { RequestCapability } from '../../core/request-capability.js';
+import { RequestContext } from '../../core/request-context.js';
+import { RequestHandler } from '../../core/request-handler.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
+import { HttpError } from '../http-error.js';
+import type { HttpMeans } from '../http.means.js';
+
+/**
+ * Circuit breaker capability.
+ *
+ * Protects fragile downstream dependencies used by the handler. Counts consecutive handler failures, and opens the
+ * circuit once their number reaches the threshold. While the circuit is open, the handler is not called. Instead, the
+ * {@link CircuitBreaker.Options.fallback fallback} handler is called, or an {@link HttpError} with 503 (Service
+ * Unavailable) status code is raised and the `Retry-After` response header is set.
+ *
+ * After a cooldown period the circuit becomes half-open. Then the next request is processed by the handler as a trial.
+ * The circuit is closed when the trial succeeds, or opened again otherwise. Other requests are short-circuited until
+ * the trial completes. Only the outcome of the trial affects the half-open circuit. The outcomes of the requests
+ * started before the circuit opened are ignored. When the trial does not complete within the cooldown period, the next
+ * request starts a new trial, while the stale one is treated as an ordinary request.
+ *
+ * State transitions are logged by request logger from {@link LoggerMeans}, or by console logger when absent.
+ *
+ * Each capability instance maintains its own circuit shared by all handlers it is applied to. So, to protect different
+ * dependencies independently, {@link CircuitBreaker.with configure} a dedicated capability instance per dependency.
+ * There is no default instance for the same reason.
+ *
+ * @typeParam TInput - Input HTTP request processing means.
+ */
+export interface CircuitBreaker<
+  TInput extends HttpMeans.Any = HttpMeans.Any,
+> extends RequestCapability<TInput> {
+  /**
+   * Current circuit state.
+   */
+  readonly state: CircuitBreaker.State;
+
+  /**
+   * Configures new circuit breaker capability with the given options.
+   *
+   * The new capability maintains its own circuit independent of this one.
+   *
+   * @typeParam TMeans - HTTP request processing means.
+   * @param options - Circuit breaker options.
+   *
+   * @returns New circuit breaker capability.
+   */
+  with<TMeans extends TInput>(options: CircuitBreaker.Options<TMeans>): CircuitBreaker<TMeans>;
+}
+
+export namespace CircuitBreaker {
+  /**
+   * Circuit breaker capability factory.
+   */
+  export interface Factory {
+    /**
+     * Configures new circuit breaker capability with the given options.
+     *
+     * @typeParam TInput - Input HTTP request processing means.
+     * @param options - Circuit breaker options.
+     *
+     * @returns New circuit breaker capability.
+     */
+    with<TInput extends HttpMeans.Any = HttpMeans.Any>(
+      options: CircuitBreaker.Options<TInput>,
+    ): CircuitBreaker<TInput>;
+  }
+
+  /**
+   * Circuit state.
+   *
+   * - `closed` - requests are processed by the handler,
+   * - `open` - requests are short-circuited,
+   * - `half-open` - the next request is processed by the handler as a trial.
+   */
+  export type State = 'closed' | 'open' | 'half-open';
+
+  /**
+   * Circuit breaker options.
+   *
+   * @typeParam TMeans - HTTP request processing means.
+   */
+  export interface Options<TMeans extends HttpMeans.Any = HttpMeans.Any> {
+    /**
+     * Circuit name to use in log messages.
+     *
+     * @default `CircuitBreaker`.
+     */
+    readonly name?: string | undefined;
+
+    /**
+     * The number of consecutive failures that opens the circuit.
+     *
+     * @default 5.
+     */
+    readonly failureThreshold?: number | undefined;
+
+    /**
+     * The time in milliseconds the circuit remains open for before becoming half-open.
+     *
+     * @default 30 seconds.
+     */
+    readonly cooldown?: number | undefined;
+
+    /**
+     * Checks whether the error thrown by handler is a failure.
+     *
+     * The errors that are not failures are rethrown, but do not affect the circuit.
+     *
+     * By default, any error except {@link HttpError} with status code less than 500 is a failure.
+     *
+     * @param error - The error thrown by handler.
+     *
+     * @returns `true` if the error is a failure, or `false` otherwise.
+     */
+    isFailure?(this: void, error: unknown): boolean;
+
+    /**
+     * Request handler to call instead of the protected one while the circuit is open.
+     *
+     * When omitted, an {@link HttpError} with 503 (Service Unavailable) status code is raised.
+     */
+    readonly fallback?: RequestHandler<TMeans> | undefined;
+
+    /**
+     * Returns current time in milliseconds.
+     *
+     * Can be replaced e.g. for testing.
+     *
+     * @default `Date.now`.
+     */
+    now?(this: void): number;
+  }
+}
+
+/**
+ * @internal
+ */
+function CircuitBreaker$isFailure(error: unknown): boolean {
+  return !(error instanceof HttpError) || error.statusCode >= 500;
+}
+
+/**
+ * @internal
+ */
+class CircuitBreakerCapability<TInput extends HttpMeans.Any>
+  extends RequestCapability<TInput>
+  implements CircuitBreaker<TInput>
+{
+  readonly #options: CircuitBreaker.Options<TInput>;
+  #state: CircuitBreaker.State = 'closed';
+  #failures = 0;
+  #openedAt = 0;
+  #trial: object | undefined;
+  #trialStartedAt = 0;
+
+  constructor(options: CircuitBreaker.Options<TInput>) {
+    super();
+    this.#options = options;
+  }
+
+  get state(): CircuitBreaker.State {
+    return this.#state;
+  }
+
+  for<TMeans extends TInput>(handler: RequestHandler<TMeans>): RequestHandler<TMeans> {
+    return provideRequestCapability(this, handler, async context => {
+      const { cooldown = 30_000, now = Date.now } = this.#options;
+
+      if (this.#state === 'open' && now() >= this.#openedAt + cooldown) {
+        this.#transition(context, 'half-open');
+      }
+      if (
+        this.#state === 'open' ||
+        (this.#state === 'half-open' && this.#trial && now() < this.#trialStartedAt + cooldown)
+      ) {
+        return await this.#shortCircuit(context);
+      }
+
+      let trial: object | undefined;
+
+      if (this.#state === 'half-open') {
+        // Start new trial. Supersede the stale one, if any.
+        trial = {};
+        this.#trial = trial;
+        this.#trialStartedAt = now();
+      }
+
+      try {
+        const result = await context.next(handler);
+
+        this.#succeeded(context, this.#isTrial(trial));
+
+        return result;
+      } catch (error) {
+        const isTrial = this.#isTrial(trial);
+
+        if (!this.#failed(context, isTrial, error)) {
+          this.#succeeded(context, isTrial);
+        }
+
+        throw error;
+      } finally {
+        if (this.#isTrial(trial)) {
+          this.#trial = undefined;
+        }
+      }
+    });
+  }
+
+  #isTrial(trial: object | undefined): boolean {
+    return !!trial && trial === this.#trial;
+  }
+
+  #shortCircuit<TMeans extends TInput>(context: RequestContext<TMeans>): Promise<boolean> {
+    const { fallback, cooldown = 30_000, now = Date.now } = this.#options;
+
+    if (fallback) {
+      return context.next(fallback as RequestHandler<TMeans>);
+    }
+
+    const retryAfter = Math.max(Math.ceil((this.#openedAt + cooldown - now()) / 1000), 1);
+
+    context.response.setHeader('Retry-After', String(retryAfter));
+
+    return Promise.reject(new HttpError(503, { details: 'Circuit is open' }));
+  }
+
+  #succeeded<TMeans extends TInput>(context: RequestContext<TMeans>, trial: boolean): void {
+    if (trial) {
+      this.#failures = 0;
+      this.#transition(context, 'closed');
+    } else if (this.#state === 'closed') {
+      this.#failures = 0;
+    }
+  }
+
+  #failed<TMeans extends TInput>(
+    context: RequestContext<TMeans>,
+    trial: boolean,
+    error: unknown,
+  ): boolean {
+    const {
+      failureThreshold = 5,
+      isFailure = CircuitBreaker$isFailure,
+      now = Date.now,
+    } = this.#options;
+
+    if (!isFailure(error)) {
+      return false;
+    }
+
+    if (trial) {
+      ++this.#failures;
+    } else if (this.#state !== 'closed' || ++this.#failures < failureThreshold) {
+      return true;
+    }
+
+    this.#openedAt = now();
+    this.#transition(context, 'open');
+
+    return true;
+  }
+
+  #transition<TMeans extends TInput>(
+    context: RequestContext<TMeans>,
+    state: CircuitBreaker.State,
+  ): void {
+    const { name = 'CircuitBreaker' } = this.#options;
+    const { log = consoleLogger } = context as Partial<LoggerMeans>;
+
+    this.#state = state;
+    if (state === 'open') {
+      log.warn(`${name} opened after ${this.#failures} failures`);
+    } else {
+      log.info(`${name} ${state}`);
+    }
+  }
+
+  with<TMeans extends TInput>(options: CircuitBreaker.Options<TMeans>): CircuitBreaker<TMeans> {
+    return new CircuitBreakerCapability(options);
+  }
+}
+
+/**
+ * Circuit breaker capability factory.
+ *
+ * Each {@link CircuitBreaker.Factory.with configured} capability maintains its own circuit. It opens after 5
+ * consecutive failures for 30 seconds by default.
+ */
+export const CircuitBreaker: CircuitBreaker.Factory = {
+  with<TInput extends HttpMeans.Any>(
+    options: CircuitBreaker.Options<TInput>,
+  ): CircuitBreaker<TInput> {
+    return new CircuitBreakerCapability(options);
+  },
+};
@@ -0,0 +1,258 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import { silentLogger } from '@proc7ts/logger';
+import { noop } from '@proc7ts/primitives';
+import { Logging } from '../../core/logging/logging.capability.js';
+import type { RequestLogger } from '../../core/logging/request-logger.js';
+import { RequestHandler } from '../../core/request-handler.js';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { HttpMeans } from '../http.means.js';
+import { Rendering } from '../render/rendering.capability.js';
+import { ConcurrencyLimit } from './concurrency-limit.capability.js';
+
+describe('ConcurrencyLimit', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.listenBy(noop);
+  });
+
+  let limit: ConcurrencyLimit;
+  let release: () => void;
+  let whenReleased: Promise<void>;
+  let whenStarted: Promise<void>;
+  let started: () => void;
+  let log: RequestLogger & { error: jest.Mock<RequestLogger['error']> };
+
+  beforeEach(() => {
+    log = { ...silentLogger, error: jest.fn() };
+    limit = ConcurrencyLimit.with({ maxConcurrent: 1, maxQueued: 1, maxWait: 1000 });
+    whenReleased = new Promise(resolve => {
+      release = resolve;
+    });
+    whenStarted = new Promise(resolve => {
+      started = resolve;
+    });
+  });
+
+  function handleBy(limit: ConcurrencyLimit, handler?: RequestHandler<HttpMeans>): void {
+    server.handleBy(
+      {
+        handleBy(handler) {
+          return Logging.logBy(log).for(handler);
+        },
+      },
+      handler ??
+        limit.and(Rendering).for(async ({ requestAddresses, renderJson }) => {
+          if (requestAddresses.url.searchParams.has('block')) {
+            started();
+            await whenReleased;
+          }
+          renderJson({ response: 'ok' });
+        }),
+    );
+  }
+
+  it('processes requests within limit', async () => {
+    handleBy(limit);
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(await response.body())).toEqual({ response: 'ok' });
+    expect(limit.stats).toEqual({
+      active: 0,
+      queued: 0,
+      rejected: 0,
+      timedOut: 0,
+    });
+  });
+  it('reports statistics snapshot', async () => {
+    handleBy(limit);
+
+    const stats = limit.stats;
+    const whenBlocked = server.get('/test?block');
+
+    await whenStarted;
+    expect(stats.active).toBe(0);
+    expect(limit.stats.active).toBe(1);
+    expect(limit.stats).not.toBe(limit.stats);
+
+    release();
+    await whenBlocked;
+  });
+  it('responds with 503 (Service Unavailable) when queue is full', async () => {
+    limit = ConcurrencyLimit.with({ maxConcurrent: 1, retryAfter: 13 });
+    handleBy(limit);
+
+    const whenBlocked = server.get('/test?block');
+
+    await whenStarted;
+    expect(limit.stats.active).toBe(1);
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(503);
+    expect(response.headers['retry-after']).toBe('13');
+    expect(await response.body()).toContain('Too many concurrent requests');
+    expect(limit.stats).toMatchObject({ active: 1, queued: 0, rejected: 1, timedOut: 0 });
+
+    release();
+    expect((await whenBlocked).statusCode).toBe(200);
+    expect(limit.stats.active).toBe(0);
+  });
+  it('processes queued request once slot released', async () => {
+    handleBy(limit);
+
+    const whenBlocked = server.get('/test?block');
+
+    await whenStarted;
+
+    const whenQueued = server.get('/test');
+
+    await new Promise<void>(resolve => {
+      const check = (): void => {
+        if (limit.stats.queued) {
+          resolve();
+        } else {
+          setTimeout(check);
+        }
+      };
+
+      check();
+    });
+    expect(limit.stats).toMatchObject({ active: 1, queued: 1 });
+
+    release();
+
+    const response = await whenQueued;
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(await response.body())).toEqual({ response: 'ok' });
+    expect((await whenBlocked).statusCode).toBe(200);
+    expect(limit.stats).toMatchObject({ active: 0, queued: 0, rejected: 0, timedOut: 0 });
+  });
+  it('responds with 503 (Service Unavailable) when request waited too long', async () => {
+    limit = ConcurrencyLimit.with({ maxConcurrent: 1, maxQueued: 1, maxWait: 10 });
+    handleBy(limit);
+
+    const whenBlocked = server.get('/test?block');
+
+    await whenStarted;
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(503);
+    expect(response.headers['retry-after']).toBe('1');
+    expect(await response.body()).toContain('Request waited for processing too long');
+    expect(limit.stats).toMatchObject({ active: 1, queued: 0, rejected: 0, timedOut: 1 });
+
+    release();
+    await whenBlocked;
+  });
+  it('drops request aborted while queued', async () => {
+    const client = new AbortController();
+
+    handleBy(limit);
+
+    const whenBlocked = server.get('/test?block');
+
+    await whenStarted;
+
+    const whenAborted = server.get('/test', { signal: client.signal });
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(limit.stats.queued).toBe(1);
+
+    client.abort();
+    await expect(whenAborted).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(limit.stats).toMatchObject({ active: 1, queued: 0, rejected: 0, timedOut: 0 });
+    expect(log.error).not.toHaveBeenCalled();
+
+    release();
+    await whenBlocked;
+  });
+  it('does not enqueue already aborted request', async () => {
+    const client = new AbortController();
+
+    handleBy(limit, async ({ requestAddresses, signal, next }) => {
+      const limited = limit.and(Rendering).for(async ({ renderJson }) => {
+        started();
+        await whenReleased;
+        renderJson({ response: 'ok' });
+      });
+
+      if (requestAddresses.url.searchParams.has('abort')) {
+        const whenAborted = new Promise(resolve => signal.addEventListener('abort', resolve));
+
+        client.abort();
+        await whenAborted;
+      }
+
+      return await next(limited);
+    });
+
+    const whenBlocked = server.get('/test');
+
+    await whenStarted;
+    await expect(server.get('/test?abort', { signal: client.signal })).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(limit.stats).toMatchObject({ active: 1, queued: 0 });
+    expect(log.error).not.toHaveBeenCalled();
+
+    release();
+    await whenBlocked;
+  });
+  it('limits handler subtrees independently', async () => {
+    const other = limit.with({ maxConcurrent: 1 });
+
+    handleBy(limit, ({ requestAddresses, next }) => {
+      if (requestAddresses.url.pathname === '/other') {
+        return next(
+          other.and(Rendering).for(({ renderJson }) => {
+            renderJson({ response: 'other' });
+          }),
+        );
+      }
+
+      return next(
+        limit.and(Rendering).for(async ({ renderJson }) => {
+          started();
+          await whenReleased;
+          renderJson({ response: 'ok' });
+        }),
+      );
+    });
+
+    const whenBlocked = server.get('/test');
+
+    await whenStarted;
+
+    const response = await server.get('/other');
+
+    expect(JSON.parse(await response.body())).toEqual({ response: 'other' });
+    expect(limit.stats.active).toBe(1);
+    expect(other.stats.active).toBe(0);
+
+    release();
+    await whenBlocked;
+  });
+});
@@ -0,0 +1,252 @@
+import { RequestCapability } from '../../core/request-capability.js';
+import { RequestContext } from '../../core/request-context.js';
+import { RequestHandler } from '../../core/request-handler.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
+import { HttpError } from '../http-error.js';
+import type { HttpMeans } from '../http.means.js';
+
+/**
+ * Concurrency limiting (bulkhead) capability.
+ *
+ * Limits the number of requests processed by the handler simultaneously. Once the limit reached, the excess requests
+ * wait in queue for processing. Once the queue is full, or the request waited for too long, raises an
+ * {@link HttpError} with 503 (Service Unavailable) status code and sets the `Retry-After` response header. The error
+ * is processed (and logged) by error handler then.
+ *
+ * Aborted requests are dropped from the queue silently. I.e. their processing is not delegated to the handler, and no
+ * error raised.
+ *
+ * Each capability instance maintains its own limit shared by all handlers it is applied to. So, to limit different
+ * handler subtrees independently, {@link ConcurrencyLimit.with configure} a dedicated capability instance per subtree.
+ * There is no default instance for the same reason.
+ *
+ * @typeParam TInput - Input HTTP request processing means.
+ */
+export interface ConcurrencyLimit<
+  TInput extends HttpMeans.Any = HttpMeans.Any,
+> extends RequestCapability<TInput> {
+  /**
+   * Concurrency limit statistics.
+   *
+   * Each access returns a snapshot of current statistics.
+   */
+  readonly stats: ConcurrencyLimit.Stats;
+
+  /**
+   * Configures new concurrency limit capability with the given options.
+   *
+   * The new capability maintains its own limit independent of this one.
+   *
+   * @param options - Concurrency limit options.
+   *
+   * @returns New concurrency limit capability.
+   */
+  with(options: ConcurrencyLimit.Options): ConcurrencyLimit<TInput>;
+}
+
+export namespace ConcurrencyLimit {
+  /**
+   * Concurrency limiting capability factory.
+   */
+  export interface Factory {
+    /**
+     * Configures new concurrency limit capability with the given options.
+     *
+     * @typeParam TInput - Input HTTP request processing means.
+     * @param options - Concurrency limit options.
+     *
+     * @returns New concurrency limit capability.
+     */
+    with<TInput extends HttpMeans.Any = HttpMeans.Any>(
+      options: ConcurrencyLimit.Options,
+    ): ConcurrencyLimit<TInput>;
+  }
+
+  /**
+   * Concurrency limit options.
+   */
+  export interface Options {
+    /**
+     * Maximum number of requests processed simultaneously.
+     */
+    readonly maxConcurrent: number;
+
+    /**
+     * Maximum number of requests waiting in queue for processing.
+     *
+     * @default 0, i.e. excess requests rejected immediately.
+     */
+    readonly maxQueued?: number | undefined;
+
+    /**
+     * Maximum time in milliseconds the request may wait in queue for.
+     *
+     * @default 10 seconds.
+     */
+    readonly maxWait?: number | undefined;
+
+    /**
+     * The number of seconds to report in `Retry-After` header of rejected request.
+     *
+     * @default 1 second.
+     */
+    readonly retryAfter?: number | undefined;
+  }
+
+  /**
+   * Concurrency limit statistics.
+   */
+  export interface Stats {
+    /**
+     * The number of requests currently processed.
+     */
+    readonly active: number;
+
+    /**
+     * The number of requests currently waiting in queue.
+     */
+    readonly queued: number;
+
+    /**
+     * The total number of requests rejected because the queue was full.
+     */
+    readonly rejected: number;
+
+    /**
+     * The total number of requests rejected because they waited in queue for too long.
+     */
+    readonly timedOut: number;
+  }
+}
+
+/**
+ * @internal
+ */
+interface ConcurrencyLimit$Waiter {
+  readonly resolve: () => void;
+}
+
+/**
+ * @internal
+ */
+class ConcurrencyLimitCapability<TInput extends HttpMeans.Any>
+  extends RequestCapability<TInput>
+  implements ConcurrencyLimit<TInput>
+{
+  readonly #options: ConcurrencyLimit.Options;
+  readonly #queue = new Set<ConcurrencyLimit$Waiter>();
+  #active = 0;
+  #rejected = 0;
+  #timedOut = 0;
+
+  constructor(options: ConcurrencyLimit.Options) {
+    super();
+    this.#options = options;
+  }
+
+  get stats(): ConcurrencyLimit.Stats {
+    return {
+      active: this.#active,
+      queued: this.#queue.size,
+      rejected: this.#rejected,
+      timedOut: this.#timedOut,
+    };
+  }
+
+  for<TMeans extends TInput>(handler: RequestHandler<TMeans>): RequestHandler<TMeans> {
+    return provideRequestCapability(this, handler, async context => {
+      if (!(await this.#acquire(context))) {
+        // Drop aborted request.
+        return;
+      }
+
+      try {
+        return await context.next(handler);
+      } finally {
+        this.#release();
+      }
+    });
+  }
+
+  async #acquire({ response, signal }: RequestContext<HttpMeans.Any>): Promise<boolean> {
+    const { maxConcurrent, maxQueued = 0, maxWait = 10_000, retryAfter = 1 } = this.#options;
+
+    if (this.#active < maxConcurrent) {
+      ++this.#active;
+
+      return true;
+    }
+
+    const reject = (details: string): Promise<never> => {
+      response.setHeader('Retry-After', String(retryAfter));
+
+      return Promise.reject(new HttpError(503, { details }));
+    };
+
+    if (this.#queue.size >= maxQueued) {
+      ++this.#rejected;
+
+      return reject('Too many concurrent requests');
+    }
+
+    if (signal.aborted) {
+      return false;
+    }
+
+    const acquired = await new Promise<boolean>(resolve => {
+      const waiter: ConcurrencyLimit$Waiter = {
+        resolve: () => {
+          clearTimeout(timer);
+          signal.removeEventListener('abort', dequeue);
+          resolve(true);
+        },
+      };
+      const dequeue = (): void => {
+        this.#queue.delete(waiter);
+        clearTimeout(timer);
+        signal.removeEventListener('abort', dequeue);
+        resolve(false);
+      };
+      const timer = setTimeout(() => {
+        ++this.#timedOut;
+        dequeue();
+      }, maxWait);
+
+      signal.addEventListener('abort', dequeue);
+      this.#queue.add(waiter);
+    });
+
+    if (acquired || signal.aborted) {
+      return acquired;
+    }
+
+    return reject('Request waited for processing too long');
+  }
+
+  #release(): void {
+    const [next] = this.#queue;
+
+    if (next) {
+      // Pass the slot to the next waiter.
+      this.#queue.delete(next);
+      next.resolve();
+    } else {
+      --this.#active;
+    }
+  }
+
+  with(options: ConcurrencyLimit.Options): ConcurrencyLimit<TInput> {
+    return new ConcurrencyLimitCapability(options);
+  }
+}
+
+/**
+ * Concurrency limiting capability factory.
+ *
+ * Each {@link ConcurrencyLimit.Factory.with configured} capability maintains its own limit.
+ */
+export const ConcurrencyLimit: ConcurrencyLimit.Factory = {
+  with<TInput extends HttpMeans.Any>(options: ConcurrencyLimit.Options): ConcurrencyLimit<TInput> {
+    return new ConcurrencyLimitCapability(options);
+  },
+};
@@ -0,0 +1,4 @@
+export * from './circuit-breaker.capability.js';
+export * from './concurrency-limit.capability.js';
+export * from './timeout.capability.js';
+export * from './timeout.means.js';
@@ -0,0 +1,261 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { silentLogger } from '@proc7ts/logger';
+import { noop } from '@proc7ts/primitives';
+import { Logging } from '../../core/logging/logging.capability.js';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { Rendering } from '../render/rendering.capability.js';
+import { Timeout } from './timeout.capability.js';
+
+describe('Timeout', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.listenBy(noop);
+  });
+
+  it('does not interfere with handler responding in time', async () => {
+    server.handleBy(
+      Timeout.after(1000)
+        .and(Rendering)
+        .for(({ renderJson }) => {
+          renderJson({ response: 'ok' });
+        }),
+    );
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(await response.body())).toEqual({ response: 'ok' });
+  });
+  it('responds with 503 (Service Unavailable) on timeout', async () => {
+    let signal: AbortSignal | undefined;
+
+    server.handleBy(
+      {
+        handleBy(handler) {
+          return Logging.logBy(silentLogger).for(handler);
+        },
+      },
+      Timeout.after(10).for(context => {
+        signal = context.signal;
+
+        return new Promise(noop);
+      }),
+    );
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(503);
+    expect(await response.body()).toContain('Request processing timed out');
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toMatchObject({ statusCode: 503 });
+  });
+  it('responds with configured status code on timeout', async () => {
+    server.handleBy(
+      {
+        handleBy(handler) {
+          return Logging.logBy(silentLogger).for(handler);
+        },
+      },
+      Timeout.with({ timeout: 10, statusCode: 504, details: 'Too late' }).for(
+        () => new Promise(noop),
+      ),
+    );
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(504);
+    expect(await response.body()).toContain('Too late');
+  });
+  it('ignores response written after timeout', async () => {
+    let whenWritten!: Promise<void>;
+
+    server.handleBy(
+      {
+        handleBy(handler) {
+          return Logging.logBy(silentLogger).for(handler);
+        },
+      },
+      Timeout.after(10)
+        .and(Rendering)
+        .for(async ({ signal, response, renderJson }) => {
+          whenWritten = new Promise(resolve => {
+            signal.addEventListener('abort', () => {
+              setTimeout(() => {
+                response.setHeader('X-Late', 'true');
+                response.write('LATE');
+                renderJson({ response: 'late' });
+                resolve();
+              });
+            });
+          });
+
+          await whenWritten;
+        }),
+    );
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(503);
+    expect(response.headers['x-late']).toBeUndefined();
+    expect(await response.body()).toContain('ERROR 503');
+
+    await whenWritten;
+  });
+  it('accepts writes after timeout', async () => {
+    let whenWritten!: Promise<unknown[]>;
+
+    server.handleBy(
+      {
+        handleBy(handler) {
+          return Logging.logBy(silentLogger).for(handler);
+        },
+      },
+      Timeout.after(10).for(async ({ signal, response }) => {
+        whenWritten = new Promise(resolve => {
+          signal.addEventListener('abort', () => {
+            setTimeout(() => {
+              const written = response.write('LATE', () => {
+                response.end(() => resolve([written, response.constructor.name]));
+              });
+            });
+          });
+        });
+
+        await whenWritten;
+      }),
+    );
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(503);
+    expect(await whenWritten).toEqual([true, 'bound ServerResponse']);
+  });
+  it('destroys response when headers sent already', async () => {
+    server.handleBy(
+      {
+        handleBy(handler) {
+          return Logging.logBy(silentLogger).for(handler);
+        },
+      },
+      Timeout.after(10).for(({ response }) => {
+        response.writeHead(200);
+        response.write('PARTIAL');
+
+        return new Promise(noop);
+      }),
+    );
+
+    const response = await server.get('/test');
+
+    await expect(response.body()).rejects.toThrow();
+  });
+  it('does not time out after response sent', async () => {
+    const error = jest.fn();
+    let signal: AbortSignal | undefined;
+    let whenDone!: () => void;
+    const done = new Promise<void>(resolve => {
+      whenDone = resolve;
+    });
+
+    server.handleBy(
+      {
+        handleBy(handler) {
+          return Logging.logBy({ ...silentLogger, error }).for(handler);
+        },
+      },
+      Timeout.after(10).for(async context => {
+        signal = context.signal;
+        context.response.end('ok');
+        await new Promise(resolve => setTimeout(resolve, 50));
+        whenDone();
+      }),
+    );
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(200);
+    expect(await response.body()).toBe('ok');
+
+    await done;
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(signal?.aborted).toBe(false);
+    expect(error).not.toHaveBeenCalled();
+  });
+  it('restarts the timer when nested', async () => {
+    server.handleBy(
+      Timeout.after(10)
+        .and(Timeout.after(1000))
+        .and(Rendering)
+        .for(async ({ renderJson, requestTimeout }) => {
+          await new Promise(resolve => setTimeout(resolve, 50));
+          renderJson({ remaining: requestTimeout.deadline > Date.now() });
+        }),
+    );
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(await response.body())).toEqual({ remaining: true });
+  });
+  it('restores enclosing deadline after nested handlers complete', async () => {
+    let outerDeadline = 0;
+    let innerDeadline = 0;
+    let restoredDeadline = 0;
+
+    server.handleBy(
+      {
+        handleBy(handler) {
+          return Logging.logBy(silentLogger).for(handler);
+        },
+      },
+      Timeout.after(30).for(async ({ next, requestTimeout }) => {
+        outerDeadline = requestTimeout.deadline;
+        await next(
+          Timeout.after(1000).for(async ({ requestTimeout }) => {
+            innerDeadline = requestTimeout.deadline;
+            await new Promise(resolve => setTimeout(resolve, 50));
+          }),
+        );
+        restoredDeadline = requestTimeout.deadline;
+
+        return new Promise(noop);
+      }),
+    );
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(503);
+    expect(innerDeadline).toBeGreaterThan(outerDeadline);
+    expect(restoredDeadline).toBe(outerDeadline);
+  });
+  it('times out by nested timeout', async () => {
+    server.handleBy(
+      {
+        handleBy(handler) {
+          return Logging.logBy(silentLogger).for(handler);
+        },
+      },
+      Timeout.after(1000).for(async ({ next }) => {
+        await next(
+          Timeout.after(10).for(
+            async ({ signal }) =>
+              await new Promise(resolve => signal.addEventListener('abort', resolve)),
+          ),
+        );
+      }),
+    );
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(503);
+  });
+});
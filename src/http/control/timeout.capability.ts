@@ -0,0 +1,262 @@
+import { noop } from '@proc7ts/primitives';
+import { requestAbortController } from '../../core/request-abort.js';
+import { RequestCapability } from '../../core/request-capability.js';
+import { RequestContext } from '../../core/request-context.js';
+import { RequestHandler } from '../../core/request-handler.js';
+import { requestExtension } from '../../core/request-modification.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
+import { HttpError } from '../http-error.js';
+import type { HttpMeans } from '../http.means.js';
+import type { TimeoutMeans } from './timeout.means.js';
+
+/**
+ * Request processing timeout capability.
+ *
+ * Bounds the time the handler may process the request for. Once timed out, aborts the
+ * {@link RequestContext.Agent.signal request processing signal} and raises an {@link HttpError} with 503 (Service
+ * Unavailable) status code by default. The error is processed by error handler then. Does not time out once the
+ * response is sent, even though the handler may keep running.
+ *
+ * Anything the handler writes to the response after the timeout is ignored. Writes still succeed, so that piped
+ * streams do not stall.
+ *
+ * Nested timeout capability does not start a new timer, but {@link TimeoutMeans.Control.reset restarts} the
+ * enclosing one instead. This can be used to override the timeout for a subtree of handlers. The enclosing deadline is
+ * restored once the subtree handlers complete.
+ *
+ * Provides {@link TimeoutMeans request processing timeout means} for handlers.
+ *
+ * @typeParam TInput - Input HTTP request processing means.
+ */
+export interface Timeout<TInput extends HttpMeans.Any = HttpMeans.Any> extends RequestCapability<
+  TInput,
+  TimeoutMeans
+> {
+  /**
+   * Configures timeout capability to time out after the given number of milliseconds.
+   *
+   * @param timeout - Request processing timeout in milliseconds.
+   *
+   * @returns New timeout capability.
+   */
+  after(timeout: number): Timeout<TInput>;
+
+  /**
+   * Configures timeout capability with the given options.
+   *
+   * @param options - Request processing timeout options.
+   *
+   * @returns New timeout capability.
+   */
+  with(options: Timeout.Options): Timeout<TInput>;
+}
+
+export namespace Timeout {
+  /**
+   * Request processing timeout options.
+   */
+  export interface Options {
+    /**
+     * Request processing timeout in milliseconds.
+     */
+    readonly timeout: number;
+
+    /**
+     * HTTP status code of the error to raise on timeout.
+     *
+     * @default 503 (Service Unavailable).
+     */
+    readonly statusCode?: 503 | 504 | undefined;
+
+    /**
+     * Error details to report on timeout.
+     *
+     * @default `Request processing timed out`.
+     */
+    readonly details?: string | undefined;
+  }
+}
+
+/**
+ * @internal
+ */
+const TIMEOUT_GUARDED_METHODS: Readonly<
+  Record<PropertyKey, (this: void, ...args: unknown[]) => unknown>
+> = {
+  write: (...args: unknown[]): boolean => {
+    callLater(args);
+
+    // Pretend the chunk is written, so that piped source does not wait for `drain` event.
+    return true;
+  },
+  end: (...args: unknown[]): void => callLater(args),
+  writeHead: noop,
+  setHeader: noop,
+  appendHeader: noop,
+  removeHeader: noop,
+  flushHeaders: noop,
+  writeContinue: noop,
+  writeProcessing: noop,
+  writeEarlyHints: noop,
+};
+
+/**
+ * @internal
+ */
+function callLater(args: readonly unknown[]): void {
+  const callback = args[args.length - 1];
+
+  if (typeof callback === 'function') {
+    process.nextTick(callback as () => void);
+  }
+}
+
+/**
+ * @internal
+ */
+class TimeoutTimer implements TimeoutMeans.Control {
+  readonly #onTimeout: (options: Timeout.Options) => void;
+  #options!: Timeout.Options;
+  #deadline = 0;
+  #timer: ReturnType<typeof setTimeout> | undefined;
+  #stopped = false;
+
+  constructor(onTimeout: (options: Timeout.Options) => void) {
+    this.#onTimeout = onTimeout;
+  }
+
+  get deadline(): number {
+    return this.#deadline;
+  }
+
+  reset(options: Timeout.Options): void {
+    this.#start(options, Date.now() + options.timeout);
+  }
+
+  override(options: Timeout.Options): () => void {
+    const prevOptions = this.#options;
+    const prevDeadline = this.#deadline;
+
+    this.reset(options);
+
+    return () => this.#start(prevOptions, prevDeadline);
+  }
+
+  stop(): void {
+    this.#stopped = true;
+    clearTimeout(this.#timer);
+  }
+
+  #start(options: Timeout.Options, deadline: number): void {
+    if (this.#stopped) {
+      return;
+    }
+
+    clearTimeout(this.#timer);
+    this.#options = options;
+    this.#deadline = deadline;
+    this.#timer = setTimeout(
+      () => {
+        this.stop();
+        this.#onTimeout(options);
+      },
+      Math.max(deadline - Date.now(), 0),
+    );
+  }
+}
+
+/**
+ * @internal
+ */
+class TimeoutCapability<TInput extends HttpMeans.Any>
+  extends RequestCapability<TInput, TimeoutMeans>
+  implements Timeout<TInput>
+{
+  readonly #options: Timeout.Options;
+
+  constructor(options: Timeout.Options) {
+    super();
+    this.#options = options;
+  }
+
+  for<TMeans extends TInput>(
+    handler: RequestHandler<TMeans & TimeoutMeans>,
+  ): RequestHandler<TMeans> {
+    return provideRequestCapability(this, handler, async context => {
+      const { requestTimeout } = context as Partial<TimeoutMeans>;
+
+      if (requestTimeout instanceof TimeoutTimer) {
+        const restore = requestTimeout.override(this.#options);
+
+        try {
+          return await context.next(handler as RequestHandler<TMeans>);
+        } finally {
+          restore();
+        }
+      }
+
+      return await this.#start(context, handler);
+    });
+  }
+
+  #start<TMeans extends TInput>(
+    { response, signal, next }: RequestContext<TMeans>,
+    handler: RequestHandler<TMeans & TimeoutMeans>,
+  ): Promise<boolean> {
+    const abort = requestAbortController(signal);
+    let timedOut = false;
+
+    return new Promise<boolean>((resolve, reject) => {
+      const requestTimeout = new TimeoutTimer(
+        ({ statusCode = 503, details = 'Request processing timed out' }) => {
+          if (response.writableEnded) {
+            // Responded already.
+            return;
+          }
+
+          const error = new HttpError(statusCode, { details });
+
+          timedOut = true;
+          abort.abort(error);
+          reject(error);
+        },
+      );
+      const guardedResponse = new Proxy(response, {
+        get(target, key) {
+          if (timedOut && Object.hasOwn(TIMEOUT_GUARDED_METHODS, key)) {
+            return TIMEOUT_GUARDED_METHODS[key];
+          }
+
+          const value: unknown = Reflect.get(target, key, target);
+
+          return typeof value === 'function' ? value.bind(target) : value;
+        },
+      });
+
+      const modification = { response: guardedResponse, requestTimeout, signal: abort.signal };
+
+      requestTimeout.reset(this.#options);
+
+      next(handler, requestExtension<TMeans, TimeoutMeans>(modification))
+        .then(resolve, reject)
+        .finally(() => requestTimeout.stop())
+        .catch(noop);
+    });
+  }
+
+  after(timeout: number): Timeout<TInput> {
+    return this.with({ ...this.#options, timeout });
+  }
+
+  with(options: Timeout.Options): Timeout<TInput> {
+    return new TimeoutCapability(options);
+  }
+}
+
+/**
+ * Request processing timeout capability.
+ *
+ * Times out after 30 seconds with 503 (Service Unavailable) status code by default. Can be
+ * {@link Timeout.with configured} to use another timeout.
+ */
+export const Timeout: Timeout = /*#__PURE__*/ new TimeoutCapability({ timeout: 30_000 });
@@ -0,0 +1,32 @@
+import type { Timeout } from './timeout.capability.js';
+
+/**
+ * Request processing timeout means.
+ *
+ * Provided by {@link Timeout} capability.
+ */
+export interface TimeoutMeans {
+  /**
+   * Request processing timeout control.
+   */
+  readonly requestTimeout: TimeoutMeans.Control;
+}
+
+export namespace TimeoutMeans {
+  /**
+   * Request processing timeout control.
+   */
+  export interface Control {
+    /**
+     * The time in milliseconds since the epoch when request processing times out.
+     */
+    readonly deadline: number;
+
+    /**
+     * Restarts request processing timer.
+     *
+     * @param options - New timeout options.
+     */
+    reset(options: Timeout.Options): void;
+  }
+}
@@ -9,7 +9,7 @@ import { addResponseHeader } from '../util/add-response-header.js';
  *
  * @typeParam TMeans - Supported HTTP request processing means.
  */
-export interface DispatchMimeTypes<TMeans extends HttpMeans = HttpMeans> {
+export interface DispatchMimeTypes<TMeans extends HttpMeans.Any = HttpMeans.Any> {
   /**
    * Produces HTML.
    */
@@ -53,7 +53,7 @@ export interface DispatchMimeTypes<TMeans extends HttpMeans = HttpMeans> {
  *
  * @returns New HTTP request processing handler.
  */
-export function dispatchByAccepted<TMeans extends HttpMeans>(
+export function dispatchByAccepted<TMeans extends HttpMeans.Any>(
   mimeTypes: DispatchMimeTypes<TMeans>,
   fallback: RequestHandler<TMeans> = () => Promise.reject(new HttpError(406)),
 ): RequestHandler<TMeans> {
@@ -9,7 +9,7 @@ import { addResponseHeader } from '../util/add-response-header.js';
  *
  * @typeParam TMeans - Supported HTTP request processing means.
  */
-export interface DispatchLanguages<TMeans extends HttpMeans = HttpMeans> {
+export interface DispatchLanguages<TMeans extends HttpMeans.Any = HttpMeans.Any> {
   /**
    * English response.
    */
@@ -43,7 +43,7 @@ export interface DispatchLanguages<TMeans extends HttpMeans = HttpMeans> {
  * [content negotiation]: https://developer.mozilla.org/en-US/docs/Web/HTTP/Content_negotiation
  * [Accept-Language]: https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Accept-Language
  */
-export function dispatchByLanguage<TMeans extends HttpMeans>(
+export function dispatchByLanguage<TMeans extends HttpMeans.Any>(
   languages: DispatchLanguages<TMeans>,
 ): RequestHandler<TMeans> {
   const negotiator = httpLanguageNegotiator(languages);
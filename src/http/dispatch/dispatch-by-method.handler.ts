@@ -6,7 +6,7 @@ import type { HttpMeans } from '../http.means.js';
  *
  * @typeParam TMeans - Supported HTTP request processing means.
  */
-export interface DispatchMethods<TMeans extends HttpMeans = HttpMeans> {
+export interface DispatchMethods<TMeans extends HttpMeans.Any = HttpMeans.Any> {
   /**
    * Request processing handler for HTTP DELETE.
    */
@@ -58,7 +58,7 @@ export interface DispatchMethods<TMeans extends HttpMeans = HttpMeans> {
  *
  * @returns New HTTP request processing handler.
  */
-export function dispatchByMethod<TMeans extends HttpMeans>(
+export function dispatchByMethod<TMeans extends HttpMeans.Any>(
   methods: DispatchMethods<TMeans>,
 ): RequestHandler<TMeans> {
   return async ({ request: { method }, next }) => {
@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { dispatchByError, errorCase } from '../../core/dispatch-by-error.js';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { HttpError } from '../http-error.js';
+import { httpErrorCase } from './http-error-case.js';
+
+describe('httpErrorCase', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+    server.handleBy(
+      {
+        logError: false,
+        errorHandler: dispatchByError([
+          httpErrorCase(404, ({ response }) => {
+            response.statusCode = 404;
+            response.end('Not found');
+          }),
+          httpErrorCase([400, 499], ({ error, response }) => {
+            response.statusCode = error.statusCode;
+            response.end(`Client error ${error.statusCode}`);
+          }),
+          errorCase(Error, ({ error, response }) => {
+            response.statusCode = 500;
+            response.end(`Server error: ${error.message}`);
+          }),
+        ]),
+      },
+      ({ requestAddresses: { url } }) => {
+        const status = url.searchParams.get('status');
+
+        throw status ? new HttpError(Number(status)) : new Error('test');
+      },
+    );
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('matches HTTP error by status code', async () => {
+    const response = await server.get('/test?status=404');
+
+    expect(response.statusCode).toBe(404);
+    expect(await response.body()).toBe('Not found');
+  });
+  it('matches HTTP error by status code range', async () => {
+    const response = await server.get('/test?status=403');
+
+    expect(response.statusCode).toBe(403);
+    expect(await response.body()).toBe('Client error 403');
+  });
+  it('does not match HTTP error with status code out of range', async () => {
+    const response = await server.get('/test?status=503');
+
+    expect(response.statusCode).toBe(500);
+    expect(await response.body()).toBe('Server error: 503');
+  });
+  it('does not match other errors', async () => {
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(500);
+    expect(await response.body()).toBe('Server error: test');
+  });
+});
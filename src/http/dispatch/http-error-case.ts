@@ -0,0 +1,22 @@
+import { DispatchErrorCase, errorCase } from '../../core/dispatch-by-error.js';
+import type { ErrorMeans } from '../../core/error.means.js';
+import type { RequestHandler } from '../../core/request-handler.js';
+import { HttpError } from '../http-error.js';
+
+/**
+ * Builds error dispatch case for HTTP errors with the given status codes.
+ *
+ * @typeParam TMeans - Supported request processing means.
+ * @param status - Either HTTP status code, or inclusive range of HTTP status codes as `[from, to]` tuple.
+ * @param handler - HTTP error processing handler.
+ *
+ * @returns Error dispatch case for {@link dispatchByError}.
+ */
+export function httpErrorCase<TMeans>(
+  status: number | readonly [from: number, to: number],
+  handler: RequestHandler<TMeans & ErrorMeans<HttpError>>,
+): DispatchErrorCase<TMeans, HttpError> {
+  const [from, to] = typeof status === 'number' ? [status, status] : status;
+
+  return errorCase(HttpError, ({ statusCode }) => statusCode >= from && statusCode <= to, handler);
+}
@@ -1,3 +1,4 @@
 export * from './dispatch-by-accepted.handler.js';
 export * from './dispatch-by-language.handler.js';
 export * from './dispatch-by-method.handler.js';
+export * from './http-error-case.js';
@@ -0,0 +1,40 @@
+import type { HttpMeans } from './http.means.js';
+
+/**
+ * HTTP request processing error reporter.
+ *
+ * Receives request processing errors and sends them e.g. to error tracking service.
+ *
+ * Can be specified as {@link HttpConfig.errorReporter} option.
+ */
+export interface ErrorReporter {
+  /**
+   * Reports request processing error.
+   *
+   * Should not throw.
+   *
+   * @param error - Reported error.
+   * @param context - Error report context.
+   */
+  report(error: unknown, context: ErrorReporter.Context): void;
+}
+
+export namespace ErrorReporter {
+  /**
+   * Error report context.
+   */
+  export interface Context {
+    /**
+     * HTTP request the error occurred while processing.
+     */
+    readonly request: HttpMeans.Request;
+
+    /**
+     * Whether the error is handled.
+     *
+     * `true` for the error passed to {@link HttpConfig.errorHandler error handler}, or `false` for the one escaped
+     * request processing. E.g. thrown by error handler itself.
+     */
+    readonly handled: boolean;
+  }
+}
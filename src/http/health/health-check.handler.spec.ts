@@ -0,0 +1,201 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from '@jest/globals';
+import { noop } from '@proc7ts/primitives';
+import { IncomingMessage, request } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { readAll } from '../../impl/read-all.js';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { TestHttp2Server } from '../../testing/test-http2-server.js';
+import { httpListener } from '../http-listener.js';
+import { HttpApp } from '../server/http-app.js';
+import { healthCheck, HealthCheck } from './health-check.handler.js';
+
+describe('healthCheck', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.listenBy(noop);
+  });
+
+  async function check(
+    options?: HealthCheck.Options,
+  ): Promise<{ statusCode: number | undefined; body: HealthCheck.Status }> {
+    server.handleBy(healthCheck(options));
+
+    const response = await server.get('/health');
+
+    expect(response.headers['content-type']).toBe('application/json; charset=utf-8');
+    expect(response.headers['cache-control']).toBe('no-store');
+
+    return { statusCode: response.statusCode, body: JSON.parse(await response.body()) };
+  }
+
+  it('passes without checks', async () => {
+    expect(await check()).toEqual({
+      statusCode: 200,
+      body: { status: 'pass', probe: 'readiness', draining: false, checks: {} },
+    });
+  });
+  it('passes when all checks passed', async () => {
+    expect(
+      await check({
+        checks: {
+          sync: noop,
+          async: () => Promise.resolve(),
+          spec: { check: noop },
+        },
+      }),
+    ).toEqual({
+      statusCode: 200,
+      body: {
+        status: 'pass',
+        probe: 'readiness',
+        draining: false,
+        checks: {
+          sync: { status: 'pass', duration: expect.any(Number) },
+          async: { status: 'pass', duration: expect.any(Number) },
+          spec: { status: 'pass', duration: expect.any(Number) },
+        },
+      },
+    });
+  });
+  it('fails when some check failed', async () => {
+    expect(
+      await check({
+        checks: {
+          ok: noop,
+          thrown: () => {
+            throw new Error('Database is down');
+          },
+          rejected: () => Promise.reject('Cache is down'),
+        },
+      }),
+    ).toEqual({
+      statusCode: 503,
+      body: {
+        status: 'fail',
+        probe: 'readiness',
+        draining: false,
+        checks: {
+          ok: { status: 'pass', duration: expect.any(Number) },
+          thrown: { status: 'fail', duration: expect.any(Number), error: 'Database is down' },
+          rejected: { status: 'fail', duration: expect.any(Number), error: 'Cache is down' },
+        },
+      },
+    });
+  });
+  it('fails when check timed out', async () => {
+    let signal: AbortSignal | undefined;
+
+    expect(
+      await check({
+        checks: {
+          slow: {
+            check: abortSignal => {
+              signal = abortSignal;
+
+              return new Promise(noop);
+            },
+            timeout: 10,
+          },
+          slower: () => new Promise(noop),
+        },
+        timeout: 20,
+      }),
+    ).toEqual({
+      statusCode: 503,
+      body: {
+        status: 'fail',
+        probe: 'readiness',
+        draining: false,
+        checks: {
+          slow: { status: 'fail', duration: expect.any(Number), error: 'Timed out after 10 ms' },
+          slower: { status: 'fail', duration: expect.any(Number), error: 'Timed out after 20 ms' },
+        },
+      },
+    });
+    expect(signal?.aborted).toBe(true);
+  });
+  it('fails readiness probe while draining', async () => {
+    expect(await check({ checks: { ok: noop }, drain: { draining: true } })).toEqual({
+      statusCode: 503,
+      body: {
+        status: 'fail',
+        probe: 'readiness',
+        draining: true,
+        checks: { ok: { status: 'pass', duration: expect.any(Number) } },
+      },
+    });
+  });
+  it('fails readiness probe while server is draining', async () => {
+    const app = await new HttpApp(
+      { listen: { port: 0, host: '127.0.0.1' }, drainDelay: 50 },
+      httpListener(healthCheck()),
+    ).listen();
+    const { port } = app.address as AddressInfo;
+
+    const whenClosed = app.close();
+    const response = await new Promise<IncomingMessage>((resolve, reject) => {
+      request({ host: '127.0.0.1', port, path: '/health', agent: false }, resolve)
+        .on('error', reject)
+        .end();
+    });
+
+    expect(response.statusCode).toBe(503);
+    expect(JSON.parse(await readAll(response))).toEqual({
+      status: 'fail',
+      probe: 'readiness',
+      draining: true,
+      checks: {},
+    });
+
+    await whenClosed;
+  });
+  it('checks health over HTTP/2', async () => {
+    const server2 = await TestHttp2Server.start();
+
+    try {
+      server2.handleBy(healthCheck({ checks: { ok: noop } }));
+
+      const response = await server2.get('/health');
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(await response.body())).toEqual({
+        status: 'pass',
+        probe: 'readiness',
+        draining: false,
+        checks: { ok: { status: 'pass', duration: expect.any(Number) } },
+      });
+    } finally {
+      await server2.stop();
+    }
+  });
+
+  describe('liveness probe', () => {
+    it('runs liveness checks only', async () => {
+      expect(
+        await check({
+          probe: 'liveness',
+          checks: {
+            alive: { check: noop, liveness: true },
+            ready: () => Promise.reject(new Error('Not ready')),
+          },
+          drain: { draining: true },
+        }),
+      ).toEqual({
+        statusCode: 200,
+        body: {
+          status: 'pass',
+          probe: 'liveness',
+          checks: { alive: { status: 'pass', duration: expect.any(Number) } },
+        },
+      });
+    });
+  });
+});
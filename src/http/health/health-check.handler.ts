@@ -0,0 +1,212 @@
+import type { RequestContext } from '../../core/request-context.js';
+import type { RequestHandler } from '../../core/request-handler.js';
+import { httpDrainOf } from '../../impl/http-drain-registry.js';
+import type { HttpMeans } from '../http.means.js';
+import type { RenderMeans } from '../render/render.means.js';
+import { Rendering } from '../render/rendering.capability.js';
+
+/**
+ * Named health check ran by {@link healthCheck} handler.
+ */
+export interface HealthCheck {
+  /**
+   * Performs the check.
+   *
+   * @param signal - Abort signal aborted when the check timed out.
+   *
+   * @returns Either nothing, or a promise resolved when the check passed. The check fails when thrown or rejected.
+   */
+  check(this: void, signal: AbortSignal): void | PromiseLike<unknown>;
+
+  /**
+   * The time to wait for the check to complete, in milliseconds.
+   *
+   * @default {@link HealthCheck.Options.timeout Default timeout} of the health check handler.
+   */
+  readonly timeout?: number | undefined;
+
+  /**
+   * Whether this check is a part of liveness probe.
+   *
+   * Every check is a part of readiness probe, while only the ones marked with this flag are part of liveness one.
+   *
+   * @default `false`.
+   */
+  readonly liveness?: boolean | undefined;
+}
+
+export namespace HealthCheck {
+  /**
+   * Health probe kind.
+   *
+   * - `liveness` - reports whether the service is alive. Runs only checks marked as {@link HealthCheck.liveness
+   *   liveness} ones.
+   * - `readiness` - reports whether the service is ready to accept requests. Runs all checks, and fails while the
+   *   service is {@link HealthCheck.Options.drain draining}.
+   */
+  export type Probe = 'liveness' | 'readiness';
+
+  /**
+   * Health check handler options.
+   */
+  export interface Options {
+    /**
+     * Health probe kind.
+     *
+     * @default `readiness`.
+     */
+    readonly probe?: Probe | undefined;
+
+    /**
+     * Named health checks.
+     *
+     * Each check is either a {@link HealthCheck} instance, or its {@link HealthCheck.check check function}.
+     */
+    readonly checks?: { readonly [name: string]: HealthCheck | HealthCheck['check'] } | undefined;
+
+    /**
+     * Default time to wait for each check to complete, in milliseconds.
+     *
+     * @default 5 seconds.
+     */
+    readonly timeout?: number | undefined;
+
+    /**
+     * Graceful shutdown state.
+     *
+     * Readiness probe fails while draining. E.g. an {@link HttpApp} or {@link HttpDrain} instance.
+     *
+     * @default {@link HttpDrain} of the server the request received by, if {@link httpDrain tracked}. Such drain is
+     * created for each server of {@link HttpApp}.
+     */
+    readonly drain?: { readonly draining: boolean } | undefined;
+  }
+
+  /**
+   * Health status rendered by {@link healthCheck} handler.
+   */
+  export interface Status {
+    /**
+     * Either `pass` when all checks passed, or `fail` otherwise.
+     */
+    readonly status: 'pass' | 'fail';
+
+    /**
+     * Health probe kind.
+     */
+    readonly probe: Probe;
+
+    /**
+     * Whether the service is draining.
+     *
+     * Present for readiness probe only.
+     */
+    readonly draining?: boolean | undefined;
+
+    /**
+     * Results of the checks by their names.
+     */
+    readonly checks: { readonly [name: string]: CheckStatus };
+  }
+
+  /**
+   * Health check result.
+   */
+  export interface CheckStatus {
+    /**
+     * Either `pass` when check passed, or `fail` otherwise.
+     */
+    readonly status: 'pass' | 'fail';
+
+    /**
+     * The time spent by the check, in milliseconds.
+     */
+    readonly duration: number;
+
+    /**
+     * Failure reason.
+     */
+    readonly error?: string | undefined;
+  }
+}
+
+/**
+ * Creates health check handler.
+ *
+ * Runs health checks in parallel and renders aggregated {@link HealthCheck.Status health status} as JSON. The response
+ * status code is 200 (OK) when all checks passed, or 503 (Service Unavailable) otherwise.
+ *
+ * The handler responds to any request. So, it can be mounted anywhere in the handler tree, e.g. by router.
+ *
+ * @param options - Health check handler options.
+ *
+ * @returns New HTTP request handler.
+ */
+export function healthCheck(options: HealthCheck.Options = {}): RequestHandler<HttpMeans.Any> {
+  const { probe = 'readiness', checks = {}, timeout: defaultTimeout = 5_000, drain } = options;
+  const probeChecks = Object.entries(checks)
+    .map(([name, check]): [string, HealthCheck] => [
+      name,
+      typeof check === 'function' ? { check } : check,
+    ])
+    .filter(([, { liveness }]) => probe === 'readiness' || liveness);
+
+  return Rendering.for(
+    async ({ request, response, renderJson }: RequestContext<HttpMeans.Any & RenderMeans>) => {
+      const draining =
+        probe === 'readiness' ? !!(drain ?? httpDrainOf(request))?.draining : undefined;
+      const results = await Promise.all(
+        probeChecks.map(
+          async ([name, check]) => [name, await runHealthCheck(defaultTimeout, check)] as const,
+        ),
+      );
+      const passed = !draining && results.every(([, { status }]) => status === 'pass');
+      const status: HealthCheck.Status = {
+        status: passed ? 'pass' : 'fail',
+        probe,
+        ...(draining != null && { draining }),
+        checks: Object.fromEntries(results),
+      };
+
+      response.statusCode = passed ? 200 : 503;
+      response.setHeader('Cache-Control', 'no-store');
+      renderJson(status);
+    },
+  );
+}
+
+/**
+ * @internal
+ */
+async function runHealthCheck(
+  defaultTimeout: number,
+  { check, timeout = defaultTimeout }: HealthCheck,
+): Promise<HealthCheck.CheckStatus> {
+  const start = Date.now();
+  const abort = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    await Promise.race([
+      Promise.resolve(abort.signal).then(check),
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+          const error = new Error(`Timed out after ${timeout} ms`);
+
+          abort.abort(error);
+          reject(error);
+        }, timeout);
+      }),
+    ]);
+
+    return { status: 'pass', duration: Date.now() - start };
+  } catch (error) {
+    return {
+      status: 'fail',
+      duration: Date.now() - start,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
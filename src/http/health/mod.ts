@@ -0,0 +1 @@
+export * from './health-check.handler.js';
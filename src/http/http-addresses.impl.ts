@@ -0,0 +1,20 @@
+import type { HttpForwardRep } from 'http-header-value/headers.js';
+import { HttpAddressRep } from 'http-header-value/node.js';
+import type { IncomingMessage } from 'node:http';
+import type { IncomingHttpHeaders } from 'node:http2';
+import type { HttpMeans } from './http.means.js';
+
+/**
+ * Collects proxy forwarding defaults from HTTP request.
+ *
+ * Takes HTTP/2 request host and protocol from `:authority` and `:scheme` pseudo-headers.
+ *
+ * @internal
+ */
+export function httpAddressDefaults(request: HttpMeans.Request): HttpForwardRep.Defaults {
+  const defaults = HttpAddressRep.defaults(request as IncomingMessage);
+  const { ':authority': host = defaults.host, ':scheme': proto = defaults.proto } =
+    request.headers as IncomingHttpHeaders;
+
+  return { ...defaults, host, proto };
+}
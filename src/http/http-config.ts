@@ -1,5 +1,7 @@
 import { ErrorMeans } from '../core/error.means.js';
 import { RequestHandler } from '../core/request-handler.js';
+import type { RequestTracer } from '../core/request-tracer.js';
+import type { ErrorReporter } from './error-reporter.js';
 import type { HttpMeans } from './http.means.js';
 
 /**
@@ -7,11 +9,12 @@ import type { HttpMeans } from './http.means.js';
  *
  * @typeParam TMeans - A type of supported HTTP request processing means.
  */
-export interface HttpConfig<TMeans extends HttpMeans = HttpMeans> {
+export interface HttpConfig<TMeans extends HttpMeans.Any = HttpMeans> {
   /**
    * Default HTTP request handler.
    *
-   * This handler will be called after all other handlers when response is not generated.
+   * This handler will be called after all other handlers when response is not generated, unless the client
+   * disconnected already.
    *
    * When set to `false` the default response won't be generated.
    *
@@ -35,11 +38,54 @@ export interface HttpConfig<TMeans extends HttpMeans = HttpMeans> {
   /**
    * Whether to log HTTP processing error.
    *
-   * Unhandled errors will be logged with `console.error` in any case.
+   * Unhandled errors will be logged with `console.error` in any case, unless {@link onUnhandledError} hook specified.
    *
    * @default `true`, which means an error will be logged with {@link LoggerMeans logger means}, created if necessary.
    */
   readonly logError?: boolean | undefined;
+
+  /**
+   * HTTP request processing tracer.
+   *
+   * Observes each HTTP request processing handler call when present. This can be used e.g. to measure the time spent
+   * by each handler or capability.
+   */
+  readonly tracer?: RequestTracer | undefined;
+
+  /**
+   * HTTP request processing error reporter.
+   *
+   * Receives the errors passed to {@link errorHandler error handler}, except {@link HttpError HTTP errors} with status
+   * codes below 500, as well as unhandled ones.
+   *
+   * The errors thrown by reporter are logged with `console.error`. They do not affect error handling.
+   */
+  readonly errorReporter?: ErrorReporter | undefined;
+
+  /**
+   * Unhandled error hook.
+   *
+   * Called when request processing error escaped error handling. E.g. when {@link errorHandler error handler} thrown
+   * itself. Should not throw. Otherwise, both the unhandled error and the one thrown by the hook are logged with
+   * `console.error`.
+   *
+   * Regardless of this hook, a bare `500 Internal Server Error` response is sent afterwards, unless response headers
+   * sent already.
+   *
+   * @param error - Unhandled error.
+   * @param request - HTTP request the error occurred while processing.
+   * @param response - HTTP response to the request.
+   *
+   * @default Logs the error with `console.error`.
+   */
+  readonly onUnhandledError?:
+    | ((
+        this: void,
+        error: unknown,
+        request: TMeans['request'],
+        response: TMeans['response'],
+      ) => void)
+    | undefined;
 }
 
 export namespace HttpConfig {
@@ -49,8 +95,9 @@ export namespace HttpConfig {
    * @typeParam TExt - Request processing means extension type.
    * @typeParam TMeans - A type of supported HTTP request processing means.
    */
-  export interface Extended<TExt, TMeans extends HttpMeans = HttpMeans>
-    extends HttpConfig<TMeans & TExt> {
+  export interface Extended<TExt, TMeans extends HttpMeans.Any = HttpMeans> extends HttpConfig<
+    TMeans & TExt
+  > {
     /**
      * Creates actual HTTP request handler.
      *
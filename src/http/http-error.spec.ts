@@ -32,6 +32,20 @@ describe('HttpError', () => {
         'Test',
       ]);
     });
+    it('expands issues at default stage', () => {
+      expect(
+        dueLog({
+          line: [
+            new HttpError(422, {
+              issues: [
+                { path: '', message: 'Invalid' },
+                { path: 'name', message: 'Required' },
+              ],
+            }),
+          ],
+        }).line,
+      ).toEqual(['422', 'Invalid', 'name: Required']);
+    });
     it('expands reason at output stage', () => {
       const cause = new Error('test');
 
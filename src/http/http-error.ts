@@ -12,6 +12,7 @@ export class HttpError extends Error implements Loggable {
   readonly #statusCode: number;
   readonly #statusMessage?: string | undefined;
   readonly #details?: string | undefined;
+  readonly #issues: readonly HttpError.Issue[];
 
   /**
    * Constructs HTTP status error.
@@ -25,6 +26,7 @@ export class HttpError extends Error implements Loggable {
     this.#statusCode = statusCode;
     this.#statusMessage = options.statusMessage;
     this.#details = options.details;
+    this.#issues = options.issues ?? [];
   }
 
   /**
@@ -50,6 +52,15 @@ export class HttpError extends Error implements Loggable {
     return this.#details;
   }
 
+  /**
+   * Issues caused this error.
+   *
+   * E.g. request body validation issues. These will be listed on error page.
+   */
+  get issues(): readonly HttpError.Issue[] {
+    return this.#issues;
+  }
+
   /**
    * Performs additional message processing before it is logged.
    *
@@ -64,11 +75,14 @@ export class HttpError extends Error implements Loggable {
     }
 
     const report: unknown[] = [this.message];
-    const { details, cause } = this;
+    const { details, issues, cause } = this;
 
     if (details) {
       report.push(details);
     }
+    for (const { path, message } of issues) {
+      report.push(path ? `${path}: ${message}` : message);
+    }
     if (cause) {
       report.push(cause);
     }
@@ -110,5 +124,31 @@ export namespace HttpError {
      * This will be displayed on error page in addition to error code.
      */
     readonly details?: string | undefined;
+
+    /**
+     * Issues caused the error.
+     *
+     * These will be listed on error page in addition to error details.
+     */
+    readonly issues?: readonly Issue[] | undefined;
+  }
+
+  /**
+   * An issue caused {@link HttpError HTTP error}.
+   *
+   * E.g. request body validation issue.
+   */
+  export interface Issue {
+    /**
+     * A path to the value caused the issue. E.g. the path to request body property.
+     *
+     * Empty string for the value itself.
+     */
+    readonly path: string;
+
+    /**
+     * Issue message.
+     */
+    readonly message: string;
   }
 }
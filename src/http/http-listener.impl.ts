@@ -5,7 +5,9 @@ import type { HttpMeans } from './http.means.js';
 /**
  * @internal
  */
-export interface BaseHttpConfig<TMeans extends HttpMeans = HttpMeans> extends HttpConfig<TMeans> {
+export interface BaseHttpConfig<
+  TMeans extends HttpMeans.Any = HttpMeans,
+> extends HttpConfig<TMeans> {
   handleBy?: undefined;
 }
 
@@ -14,8 +16,8 @@ export interface BaseHttpConfig<TMeans extends HttpMeans = HttpMeans> extends Ht
  */
 export type AnyHttpConfig<
   TExt,
-  TRequest extends IncomingMessage = IncomingMessage,
-  TResponse extends ServerResponse = ServerResponse,
+  TRequest extends HttpMeans.Request = IncomingMessage,
+  TResponse extends HttpMeans.Response = ServerResponse,
 > =
   | BaseHttpConfig<HttpMeans<TRequest, TResponse>>
   | HttpConfig.Extended<TExt, HttpMeans<TRequest, TResponse>>;
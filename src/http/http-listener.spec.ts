@@ -10,13 +10,20 @@ import {
 } from '@jest/globals';
 import { consoleLogger } from '@proc7ts/logger';
 import { noop } from '@proc7ts/primitives';
+import { request } from 'node:http';
 import { ErrorMeans } from '../core/error.means.js';
 import { RequestContext } from '../core/request-context.js';
+import { InMemoryErrorReporter } from '../testing/in-memory-error-reporter.js';
 import { TestHttpServer } from '../testing/test-http-server.js';
+import { TestHttp2Server } from '../testing/test-http2-server.js';
+import { dispatchByAccepted } from './dispatch/dispatch-by-accepted.handler.js';
 import { HttpError } from './http-error.js';
 import { httpListener } from './http-listener.js';
 import { HttpMeans } from './http.means.js';
 import { Rendering } from './render/rendering.capability.js';
+import { HttpForwarding } from './request/http-forwarding.capability.js';
+import { JsonParsing } from './request/json-parsing.capability.js';
+import { RequestId } from './request/request-id.capability.js';
 
 describe('httpListener', () => {
   let server: TestHttpServer;
@@ -174,6 +181,19 @@ describe('httpListener', () => {
       error: { code: 403, message: 'Forbidden', details: 'No Go' },
     });
   });
+  it('destroys response when handler throws error after headers sent', async () => {
+    server.handleBy(({ response }) => {
+      response.writeHead(200);
+      response.write('PARTIAL');
+
+      throw new Error('test');
+    });
+
+    await expect(server.get('/test').then(async response => await response.body())).rejects.toThrow(
+      'socket hang up',
+    );
+    expect(logErrorSpy).toHaveBeenCalledWith(new Error('test'));
+  });
   it('invokes provided default handler when handler not responding', async () => {
     const defaultHandler = jest.fn(({ response }: RequestContext<HttpMeans>) => {
       response.end('DEFAULT');
@@ -325,6 +345,344 @@ describe('httpListener', () => {
     await whenErrorLogged;
     expect(logErrorSpy).toHaveBeenCalledWith('[GET /test]', 'Unhandled error', error);
   });
+  it('responds with bare `500` status on unhandled error', async () => {
+    const error = new Error('test');
+
+    server.handleBy(
+      {
+        errorHandler() {
+          throw error;
+        },
+      },
+      () => {
+        throw error;
+      },
+    );
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(500);
+    expect(await response.body()).toBe('');
+    expect(logErrorSpy).toHaveBeenCalledWith('[GET /test]', 'Unhandled error', error);
+  });
+  it('calls unhandled error hook', async () => {
+    const error = new Error('test');
+    const onUnhandledError = jest.fn();
+
+    server.handleBy(
+      {
+        errorHandler() {
+          throw error;
+        },
+        onUnhandledError,
+      },
+      () => {
+        throw error;
+      },
+    );
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(500);
+    expect(await response.body()).toBe('');
+    expect(onUnhandledError).toHaveBeenCalledWith(
+      error,
+      expect.objectContaining({ method: 'GET', url: '/test' }),
+      expect.objectContaining({ statusCode: 500 }),
+    );
+    expect(logErrorSpy).not.toHaveBeenCalledWith('[GET /test]', 'Unhandled error', error);
+  });
+  it('responds by unhandled error hook', async () => {
+    server.handleBy(
+      {
+        errorHandler() {
+          throw new Error('test');
+        },
+        onUnhandledError(_error, _request, response) {
+          response.statusCode = 503;
+          response.end('UNAVAILABLE');
+        },
+      },
+      () => {
+        throw new Error('test');
+      },
+    );
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(503);
+    expect(await response.body()).toBe('UNAVAILABLE');
+  });
+
+  it('logs unhandled error when unhandled error hook fails', async () => {
+    const error = new Error('test');
+    const hookError = new Error('hook');
+
+    server.handleBy(
+      {
+        errorHandler() {
+          throw error;
+        },
+        onUnhandledError() {
+          throw hookError;
+        },
+      },
+      () => {
+        throw error;
+      },
+    );
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(500);
+    expect(await response.body()).toBe('');
+    expect(logErrorSpy).toHaveBeenCalledWith('[GET /test]', 'Unhandled error', error);
+    expect(logErrorSpy).toHaveBeenCalledWith('[GET /test]', 'Failed to handle error', hookError);
+  });
+
+  describe('errorReporter', () => {
+    let errorReporter: InMemoryErrorReporter;
+
+    beforeEach(() => {
+      errorReporter = new InMemoryErrorReporter();
+    });
+
+    it('reports handled error', async () => {
+      const error = new Error('test');
+
+      server.handleBy({ errorReporter }, () => {
+        throw error;
+      });
+
+      const response = await server.get('/test');
+
+      expect(response.statusCode).toBe(500);
+      expect(errorReporter.reports).toEqual([
+        {
+          error,
+          context: {
+            request: expect.objectContaining({ method: 'GET', url: '/test' }),
+            handled: true,
+          },
+        },
+      ]);
+    });
+    it('reports server HTTP error', async () => {
+      const error = new HttpError(502);
+
+      server.handleBy({ errorReporter }, () => {
+        throw error;
+      });
+
+      const response = await server.get('/test');
+
+      expect(response.statusCode).toBe(502);
+      expect(errorReporter.reports).toEqual([
+        { error, context: expect.objectContaining({ handled: true }) },
+      ]);
+    });
+    it('does not report client HTTP error', async () => {
+      server.handleBy({ errorReporter }, noop);
+
+      const response = await server.get('/test');
+
+      expect(response.statusCode).toBe(404);
+      expect(errorReporter.reports).toHaveLength(0);
+    });
+    it('reports unhandled error', async () => {
+      const error = new Error('test');
+      const handlerError = new Error('handler');
+
+      server.handleBy(
+        {
+          errorHandler() {
+            throw handlerError;
+          },
+          errorReporter,
+          logError: false,
+        },
+        () => {
+          throw error;
+        },
+      );
+
+      const response = await server.get('/test');
+
+      expect(response.statusCode).toBe(500);
+      expect(errorReporter.reports).toEqual([
+        { error, context: expect.objectContaining({ handled: true }) },
+        { error: handlerError, context: expect.objectContaining({ handled: false }) },
+      ]);
+
+      errorReporter.clear();
+      expect(errorReporter.reports).toHaveLength(0);
+    });
+    it('handles error when reporter fails', async () => {
+      const reportError = new Error('report');
+      const report = jest.fn(() => {
+        throw reportError;
+      });
+
+      server.handleBy({ errorReporter: { report }, logError: false }, () => {
+        throw new Error('test');
+      });
+
+      const response = await server.get('/test');
+
+      expect(response.statusCode).toBe(500);
+      expect(await response.body()).toContain('Internal Server Error');
+      expect(report).toHaveBeenCalledTimes(1);
+      expect(logErrorSpy).toHaveBeenCalledWith(
+        '[GET /test]',
+        'Failed to report error',
+        reportError,
+      );
+    });
+    it('calls unhandled error hook when reporter fails', async () => {
+      const error = new Error('test');
+      const reportError = new Error('report');
+      const onUnhandledError = jest.fn();
+
+      server.handleBy(
+        {
+          errorReporter: {
+            report() {
+              throw reportError;
+            },
+          },
+          errorHandler() {
+            throw error;
+          },
+          onUnhandledError,
+          logError: false,
+        },
+        () => {
+          throw error;
+        },
+      );
+
+      const response = await server.get('/test');
+
+      expect(response.statusCode).toBe(500);
+      expect(onUnhandledError).toHaveBeenCalledWith(error, expect.anything(), expect.anything());
+      expect(logErrorSpy).toHaveBeenCalledWith(
+        '[GET /test]',
+        'Failed to report error',
+        reportError,
+      );
+    });
+  });
+
+  it('traces handler calls', async () => {
+    const handler = jest.fn(({ response }: RequestContext<HttpMeans>) => {
+      response.end('TEST');
+    });
+    const exit = jest.fn();
+
+    server.handleBy({ tracer: { exit } }, handler);
+
+    const response = await server.get('/test');
+
+    expect(await response.body()).toBe('TEST');
+    expect(exit).toHaveBeenCalledWith(
+      expect.objectContaining({ handler, elapsed: expect.any(Number), responded: true }),
+    );
+  });
+
+  describe('signal', () => {
+    it('is not aborted when response written', async () => {
+      let signal: AbortSignal | undefined;
+
+      server.handleBy(({ response, signal: requestSignal }) => {
+        signal = requestSignal;
+        response.end('TEST');
+      });
+
+      const response = await server.get('/test');
+
+      expect(await response.body()).toBe('TEST');
+      expect(signal?.aborted).toBe(false);
+    });
+    it('is aborted when client disconnects', async () => {
+      let onAbort!: (reason: unknown) => void;
+      const whenAborted = new Promise<unknown>(resolve => {
+        onAbort = resolve;
+      });
+      let onRequest!: () => void;
+      const whenRequested = new Promise<void>(resolve => {
+        onRequest = resolve;
+      });
+
+      server.handleBy({ defaultHandler: false, errorHandler: false }, ({ signal }) => {
+        signal.addEventListener('abort', () => onAbort(signal.reason));
+        onRequest();
+
+        return whenAborted;
+      });
+
+      const req = request(`http://${server.address.address}:${server.address.port}/test`);
+
+      req.on('error', noop);
+      req.end();
+
+      await whenRequested;
+      req.destroy();
+
+      expect(await whenAborted).toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('defer', () => {
+    it('executes deferred callbacks after response finished', async () => {
+      const calls: string[] = [];
+      let onDeferred!: () => void;
+      const whenDeferred = new Promise<void>(resolve => {
+        onDeferred = resolve;
+      });
+
+      server.handleBy(({ response, defer }) => {
+        defer(onDeferred);
+        defer(() => {
+          calls.push(`finished: ${response.writableFinished}`);
+        });
+        response.end('TEST');
+      });
+
+      const response = await server.get('/test');
+
+      expect(await response.body()).toBe('TEST');
+
+      await whenDeferred;
+      expect(calls).toEqual(['finished: true']);
+    });
+    it('executes deferred callbacks when client disconnects', async () => {
+      let onDeferred!: () => void;
+      const whenDeferred = new Promise<void>(resolve => {
+        onDeferred = resolve;
+      });
+      let onRequest!: () => void;
+      const whenRequested = new Promise<void>(resolve => {
+        onRequest = resolve;
+      });
+
+      server.handleBy({ defaultHandler: false, errorHandler: false }, ({ defer }) => {
+        defer(onDeferred);
+        onRequest();
+
+        return new Promise(noop);
+      });
+
+      const req = request(`http://${server.address.address}:${server.address.port}/test`);
+
+      req.on('error', noop);
+      req.end();
+
+      await whenRequested;
+      req.destroy();
+
+      expect(await whenDeferred).toBeUndefined();
+    });
+  });
 
   describe('requestAddresses', () => {
     it('contain request URL', async () => {
@@ -366,4 +724,116 @@ describe('httpListener', () => {
       expect(JSON.parse(await response.body())).toEqual({ ip: '127.0.0.1' });
     });
   });
+
+  describe('HTTP/2', () => {
+    let server: TestHttp2Server;
+
+    beforeAll(async () => {
+      server = await TestHttp2Server.start();
+    });
+    afterAll(async () => {
+      await server.stop();
+    });
+
+    afterEach(() => {
+      server.listenBy(noop);
+    });
+
+    it('invokes handler', async () => {
+      server.handleBy(({ request, response }) => {
+        response.setHeader('Content-Type', 'text/plain');
+        response.end(`${request.method} ${request.url} ${request.httpVersion}`);
+      });
+
+      const response = await server.post('/test', 'body');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('text/plain');
+      expect(await response.body()).toBe('POST /test 2.0');
+    });
+    it('responds with `404` status and JSON when handler not responding and JSON expected', async () => {
+      server.handleBy(noop);
+
+      const response = await server.get('/test', { headers: { accept: 'application/json' } });
+
+      expect(response.statusCode).toBe(404);
+      expect(JSON.parse(await response.body())).toEqual({
+        error: { code: 404, message: 'Not Found' },
+      });
+    });
+    it('logs error and responds with `500` status when handler throws error', async () => {
+      const error = new Error('test');
+
+      server.handleBy(() => {
+        throw error;
+      });
+
+      const response = await server.get('/test');
+
+      expect(response.statusCode).toBe(500);
+      expect(await response.body()).toContain('Internal Server Error');
+      expect(logErrorSpy).toHaveBeenCalledWith(error);
+    });
+    it('responds with empty body when there is no error handler', async () => {
+      server.handleBy({ errorHandler: false, logError: false }, () => {
+        throw new Error('test');
+      });
+
+      const response = await server.get('/test');
+
+      expect(response.statusCode).toBe(200);
+      expect(await response.body()).toBe('');
+    });
+    it('contains request URL built from `:authority` and `:scheme` pseudo-headers', async () => {
+      server.handleBy(({ requestAddresses, response }) => {
+        response.end(JSON.stringify({ url: requestAddresses.url.href, ip: requestAddresses.ip }));
+      });
+
+      const response = await server.get('/test?q=1');
+
+      expect(JSON.parse(await response.body())).toEqual({
+        url: `http://127.0.0.1:${server.address.port}/test?q=1`,
+        ip: '127.0.0.1',
+      });
+    });
+    it('contains trusted forwarded request URL', async () => {
+      server.handleBy(
+        HttpForwarding.with({ trusted: true }).for(({ requestAddresses, response }) => {
+          response.end(JSON.stringify({ url: requestAddresses.url.href, ip: requestAddresses.ip }));
+        }),
+      );
+
+      const response = await server.get('/test', {
+        headers: { forwarded: 'for=192.168.1.1;host=example.com;proto=https' },
+      });
+
+      expect(JSON.parse(await response.body())).toEqual({
+        url: 'https://example.com/test',
+        ip: '192.168.1.1',
+      });
+    });
+    it('processes request by HTTP capabilities', async () => {
+      server.handleBy(
+        RequestId.with({ generate: () => 'test-id' })
+          .and(Rendering)
+          .and(JsonParsing)
+          .for(
+            dispatchByAccepted({
+              'application/json': ({ requestId, requestBody, renderJson }) => {
+                renderJson({ requestId, requestBody });
+              },
+            }),
+          ),
+      );
+
+      const response = await server.post('/test', '{"hello":"world"}', {
+        headers: { accept: 'application/json', 'content-type': 'application/json' },
+      });
+
+      expect(JSON.parse(await response.body())).toEqual({
+        requestId: 'test-id',
+        requestBody: { hello: 'world' },
+      });
+    });
+  });
 });
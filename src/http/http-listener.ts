@@ -1,6 +1,5 @@
 import { consoleLogger } from '@proc7ts/logger';
 import { lazyValue, noop } from '@proc7ts/primitives';
-import { HttpAddressRep } from 'http-header-value/node.js';
 import type { IncomingMessage, ServerResponse } from 'node:http';
 import { dispatchError } from '../core/dispatch-error.js';
 import { ErrorMeans } from '../core/error.means.js';
@@ -11,7 +10,8 @@ import { RequestHandler } from '../core/request-handler.js';
 import { requestProcessor } from '../core/request-processor.js';
 import { HttpConfig } from './http-config.js';
 import { HttpError } from './http-error.js';
-import { AnyHttpConfig } from './http-listener.impl.js';
+import { httpAddressDefaults } from './http-addresses.impl.js';
+import { AnyHttpConfig, BaseHttpConfig } from './http-listener.impl.js';
 import { HttpMeans } from './http.means.js';
 import { renderHttpError } from './render/render-http-error.handler.js';
 
@@ -30,8 +30,8 @@ import { renderHttpError } from './render/render-http-error.handler.js';
  */
 export function httpListener<
   TExt,
-  TRequest extends IncomingMessage = IncomingMessage,
-  TResponse extends ServerResponse = ServerResponse,
+  TRequest extends HttpMeans.Request = IncomingMessage,
+  TResponse extends HttpMeans.Response = ServerResponse,
 >(
   config: HttpConfig.Extended<TExt, HttpMeans<TRequest, TResponse>>,
   handler: RequestHandler<HttpMeans<TRequest, TResponse> & TExt>,
@@ -49,7 +49,10 @@ export function httpListener<
  *
  * @see requestHandler
  */
-export function httpListener<TRequest extends IncomingMessage, TResponse extends ServerResponse>(
+export function httpListener<
+  TRequest extends HttpMeans.Request,
+  TResponse extends HttpMeans.Response,
+>(
   config: HttpConfig<HttpMeans<TRequest, TResponse>>,
   handler: RequestHandler<HttpMeans<TRequest, TResponse>>,
 ): (this: void, req: TRequest, res: TResponse) => void;
@@ -66,18 +69,20 @@ export function httpListener<TRequest extends IncomingMessage, TResponse extends
  *
  * @see requestHandler
  */
-export function httpListener<TRequest extends IncomingMessage, TResponse extends ServerResponse>(
+export function httpListener<
+  TRequest extends HttpMeans.Request,
+  TResponse extends HttpMeans.Response,
+>(
   handler: RequestHandler<HttpMeans<TRequest, TResponse>>,
 ): (this: void, req: TRequest, res: TResponse) => void;
 
 export function httpListener<
   TExt,
-  TRequest extends IncomingMessage,
-  TResponse extends ServerResponse,
+  TRequest extends HttpMeans.Request,
+  TResponse extends HttpMeans.Response,
 >(
   configOrHandler:
-    | AnyHttpConfig<TExt, TRequest, TResponse>
-    | RequestHandler<HttpMeans<TRequest, TResponse>>,
+    AnyHttpConfig<TExt, TRequest, TResponse> | RequestHandler<HttpMeans<TRequest, TResponse>>,
   optionalHandler?: RequestHandler<HttpMeans<TRequest, TResponse>>,
 ): (this: void, req: TRequest, res: TResponse) => void {
   let config: AnyHttpConfig<TExt, TRequest, TResponse>;
@@ -92,6 +97,7 @@ export function httpListener<
   }
 
   const fullHandler = fullHttpHandler(config, handler);
+  const onUnhandledError = unhandledHttpErrorHandler(config);
   const incomingHandler = incomingHttpHandler(
     config.handleBy
       ? config.handleBy(fullHandler)
@@ -99,6 +105,7 @@ export function httpListener<
   );
   const processor = requestProcessor<IncomingHttpMeans<TRequest, TResponse>>({
     handler: incomingHandler,
+    tracer: config.tracer,
     next(handler, context): Promise<boolean> {
       const { response } = context;
 
@@ -109,23 +116,40 @@ export function httpListener<
   });
 
   return (request: TRequest, response: TResponse): void => {
-    new Promise<boolean>((onResponse, onError) => {
-      processor({
-        request,
-        response,
-        onResponse,
-        onError,
-      }).then(onResponse, onError);
-    }).catch(error => {
-      consoleLogger.error(`[${request.method} ${request.url}]`, 'Unhandled error', error);
+    const abort = new AbortController();
+    const whenFinished = new Promise<void>(resolve => {
+      response.once('finish', resolve);
+      response.once('close', () => {
+        if (!response.writableFinished) {
+          // Client disconnected before response is sent.
+          abort.abort();
+        }
+        resolve();
+      });
     });
+
+    new Promise<boolean>((onResponse, onError) => {
+      processor(
+        {
+          request,
+          response,
+          onResponse,
+          onError,
+        },
+        abort.signal,
+        whenFinished,
+      ).then(onResponse, onError);
+    }).catch(error => onUnhandledError(error, request, response));
   };
 }
 
 /**
  * @internal
  */
-interface IncomingHttpMeans<TRequest extends IncomingMessage, TResponse extends ServerResponse> {
+interface IncomingHttpMeans<
+  TRequest extends HttpMeans.Request,
+  TResponse extends HttpMeans.Response,
+> {
   readonly request: TRequest;
   readonly response: TResponse;
   onResponse(this: void, value: boolean): void;
@@ -135,7 +159,10 @@ interface IncomingHttpMeans<TRequest extends IncomingMessage, TResponse extends
 /**
  * @internal
  */
-function incomingHttpHandler<TRequest extends IncomingMessage, TResponse extends ServerResponse>(
+function incomingHttpHandler<
+  TRequest extends HttpMeans.Request,
+  TResponse extends HttpMeans.Response,
+>(
   handler: RequestHandler<HttpMeans<TRequest, TResponse>>,
 ): RequestHandler<IncomingHttpMeans<TRequest, TResponse>> {
   return ({ request, response, next, onResponse, onError }) => {
@@ -143,7 +170,7 @@ function incomingHttpHandler<TRequest extends IncomingMessage, TResponse extends
     response.once('finish', onResponse);
     response.once('close', onResponse);
 
-    const end = response.end.bind(response);
+    const end = (response as ServerResponse).end.bind(response);
 
     // Finish request processing immediately after calling `response.end()`
     (response as ServerResponse).end = ((
@@ -155,7 +182,7 @@ function incomingHttpHandler<TRequest extends IncomingMessage, TResponse extends
       onResponse(true);
     }) as ServerResponse['end'];
 
-    const requestDefaults = lazyValue(() => HttpAddressRep.defaults(request));
+    const requestDefaults = lazyValue(() => httpAddressDefaults(request));
     const requestURL = lazyValue(() => {
       const { host, proto } = requestDefaults();
       const { url = '' } = request;
@@ -179,14 +206,19 @@ function incomingHttpHandler<TRequest extends IncomingMessage, TResponse extends
 /**
  * @internal
  */
-function fullHttpHandler<TExt, TRequest extends IncomingMessage, TResponse extends ServerResponse>(
+function fullHttpHandler<
+  TExt,
+  TRequest extends HttpMeans.Request,
+  TResponse extends HttpMeans.Response,
+>(
   config: AnyHttpConfig<TExt, TRequest, TResponse>,
   handler: RequestHandler<HttpMeans<TRequest, TResponse> & TExt>,
 ): RequestHandler<HttpMeans<TRequest, TResponse> & TExt> {
   const defaultHandler = defaultHttpHandler(config);
 
-  return dispatchError(httpErrorHandler(config), ({ next }) =>
-    next(handler).then(ok => ok || next(defaultHandler)),
+  return dispatchError(reportHttpError(config, httpErrorHandler(config)), ({ signal, next }) =>
+    // Do not respond to disconnected client.
+    next(handler).then(ok => ok || signal.aborted || next(defaultHandler)),
   );
 }
 
@@ -195,8 +227,8 @@ function fullHttpHandler<TExt, TRequest extends IncomingMessage, TResponse exten
  */
 function defaultHttpHandler<
   TExt,
-  TRequest extends IncomingMessage,
-  TResponse extends ServerResponse,
+  TRequest extends HttpMeans.Request,
+  TResponse extends HttpMeans.Response,
 >({
   defaultHandler = true,
 }: AnyHttpConfig<TExt, TRequest, TResponse>): RequestHandler<
@@ -214,8 +246,8 @@ function defaultHttpHandler<
  */
 function httpErrorHandler<
   TExt,
-  TRequest extends IncomingMessage,
-  TResponse extends ServerResponse,
+  TRequest extends HttpMeans.Request,
+  TResponse extends HttpMeans.Response,
 >({
   logError = true,
   defaultHandler = true,
@@ -247,13 +279,93 @@ function httpErrorHandler<
 /**
  * @internal
  */
-function logHttpError({ log, error }: RequestContext<HttpMeans & ErrorMeans & LoggerMeans>): void {
+function reportHttpError<
+  TExt,
+  TRequest extends HttpMeans.Request,
+  TResponse extends HttpMeans.Response,
+>(
+  { errorReporter }: AnyHttpConfig<TExt, TRequest, TResponse>,
+  onError: RequestHandler<HttpMeans<TRequest, TResponse> & TExt & ErrorMeans>,
+): RequestHandler<HttpMeans<TRequest, TResponse> & TExt & ErrorMeans> {
+  if (!errorReporter) {
+    return onError;
+  }
+
+  return context => {
+    const { error, request } = context;
+
+    if (!(error instanceof HttpError) || error.statusCode >= 500) {
+      try {
+        errorReporter.report(error, { request, handled: true });
+      } catch (reportError) {
+        logHttpErrorFailure(request, 'Failed to report error', reportError);
+      }
+    }
+
+    return context.next(onError);
+  };
+}
+
+/**
+ * @internal
+ */
+function unhandledHttpErrorHandler<
+  TExt,
+  TRequest extends HttpMeans.Request,
+  TResponse extends HttpMeans.Response,
+>(
+  config: AnyHttpConfig<TExt, TRequest, TResponse>,
+): (error: unknown, request: TRequest, response: TResponse) => void {
+  const { errorReporter, onUnhandledError = logUnhandledHttpError } = config as BaseHttpConfig<
+    HttpMeans<TRequest, TResponse>
+  >;
+
+  return (error, request, response) => {
+    try {
+      errorReporter?.report(error, { request, handled: false });
+    } catch (reportError) {
+      logHttpErrorFailure(request, 'Failed to report error', reportError);
+    }
+    try {
+      onUnhandledError(error, request, response);
+    } catch (hookError) {
+      logUnhandledHttpError(error, request);
+      logHttpErrorFailure(request, 'Failed to handle error', hookError);
+    }
+    if (!response.headersSent) {
+      response.statusCode = 500;
+      response.end();
+    }
+  };
+}
+
+/**
+ * @internal
+ */
+function logHttpErrorFailure(request: HttpMeans.Request, message: string, error: unknown): void {
+  consoleLogger.error(`[${request.method} ${request.url}]`, message, error);
+}
+
+/**
+ * @internal
+ */
+function logUnhandledHttpError(error: unknown, request: HttpMeans.Request): void {
+  consoleLogger.error(`[${request.method} ${request.url}]`, 'Unhandled error', error);
+}
+
+/**
+ * @internal
+ */
+function logHttpError({
+  log,
+  error,
+}: RequestContext<HttpMeans.Any & ErrorMeans & LoggerMeans>): void {
   log.error(error);
 }
 
 /**
  * @internal
  */
-function renderEmptyHttpResponse(context: RequestContext<HttpMeans & ErrorMeans>): void {
+function renderEmptyHttpResponse(context: RequestContext<HttpMeans.Any & ErrorMeans>): void {
   context.response.end();
 }
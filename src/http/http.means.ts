@@ -1,4 +1,5 @@
 import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Http2ServerRequest, Http2ServerResponse } from 'node:http2';
 
 /**
  * HTTP request processing means.
@@ -6,12 +7,16 @@ import type { IncomingMessage, ServerResponse } from 'node:http';
  * When passed to HTTP handler the latter responds by utilizing the passed in {@link response}, or delegates to the
  * {@link RequestContext.Agent.next next handler}.
  *
+ * Both HTTP/1.x and HTTP/2 [compatibility API] requests and responses are supported.
+ *
+ * [compatibility API]: https://nodejs.org/api/http2.html#compatibility-api
+ *
  * @typeParam TRequest - HTTP request type.
  * @typeParam TResponse - HTTP response type.
  */
 export interface HttpMeans<
-  TRequest extends IncomingMessage = IncomingMessage,
-  TResponse extends ServerResponse = ServerResponse,
+  TRequest extends HttpMeans.Request = IncomingMessage,
+  TResponse extends HttpMeans.Response = ServerResponse,
 > {
   /**
    * HTTP request.
@@ -30,6 +35,30 @@ export interface HttpMeans<
 }
 
 export namespace HttpMeans {
+  /**
+   * Supported HTTP request type.
+   *
+   * Either HTTP/1.x request, or HTTP/2 compatibility API one.
+   */
+  export type Request = IncomingMessage | Http2ServerRequest;
+
+  /**
+   * Supported HTTP response type.
+   *
+   * Either HTTP/1.x response, or HTTP/2 compatibility API one.
+   */
+  export type Response = ServerResponse | Http2ServerResponse;
+
+  /**
+   * HTTP/2 request processing means.
+   */
+  export type Http2 = HttpMeans<Http2ServerRequest, Http2ServerResponse>;
+
+  /**
+   * HTTP request processing means of any supported protocol version.
+   */
+  export type Any = HttpMeans<Request, Response>;
+
   /**
    * HTTP request addressing info.
    */
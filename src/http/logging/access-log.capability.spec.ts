@@ -0,0 +1,276 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import { consoleLogger, silentLogger } from '@proc7ts/logger';
+import { noop } from '@proc7ts/primitives';
+import { Logging } from '../../core/logging/logging.capability.js';
+import { RequestLogger } from '../../core/logging/request-logger.js';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { TestHttp2Server } from '../../testing/test-http2-server.js';
+import { HttpForwarding } from '../request/http-forwarding.capability.js';
+import { AccessLog } from './access-log.capability.js';
+
+describe('AccessLog', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.listenBy(noop);
+  });
+
+  let lines: string[];
+  let whenWritten: Promise<void>;
+  let written: () => void;
+  let now: number;
+  let stream: AccessLog.Options['stream'];
+  let accessLog: AccessLog;
+
+  beforeEach(() => {
+    lines = [];
+    whenWritten = new Promise(resolve => {
+      written = resolve;
+    });
+    stream = {
+      write(chunk: string) {
+        lines.push(chunk);
+        written();
+      },
+    };
+    now = Date.UTC(2020, 0, 2, 3, 4, 5);
+    accessLog = AccessLog.with({ format: 'common', stream, now: () => (now += 10) - 10 });
+  });
+
+  it('writes Common Log Format line', async () => {
+    server.handleBy(
+      accessLog.for(({ response }) => {
+        response.write('Hello, ');
+        response.end(Buffer.from('World!'));
+      }),
+    );
+
+    expect(await (await server.get('/test?q=1')).body()).toBe('Hello, World!');
+
+    await whenWritten;
+    expect(lines).toEqual([
+      '127.0.0.1 - - [02/Jan/2020:03:04:05 +0000] "GET /test?q=1 HTTP/1.1" 200 13\n',
+    ]);
+  });
+  it('writes Combined Log Format line', async () => {
+    server.handleBy(
+      accessLog
+        .with({
+          format: 'combined',
+          stream,
+          now: () => Date.UTC(2020, 11, 31, 23, 59, 59),
+        })
+        .for(({ response }) => {
+          response.statusCode = 201;
+          response.end();
+        }),
+    );
+
+    await (
+      await server.get('/test', {
+        headers: { referer: 'http://localhost/"quoted"', 'user-agent': 'Test\\Agent' },
+      })
+    ).body();
+
+    await whenWritten;
+    expect(lines).toEqual([
+      '127.0.0.1 - - [31/Dec/2020:23:59:59 +0000] "GET /test HTTP/1.1" 201 -' +
+        ' "http://localhost/\\"quoted\\"" "Test\\\\Agent"\n',
+    ]);
+  });
+  it('writes JSON line', async () => {
+    accessLog = accessLog.with({
+      format: 'json',
+      stream,
+      now: () => (now += 10) - 10,
+    });
+    server.handleBy(
+      accessLog.for(({ response }) => {
+        response.end('Привет', 'utf-8');
+      }),
+    );
+
+    await (await server.get('/test', { headers: { 'user-agent': 'Test' } })).body();
+    await whenWritten;
+
+    expect(lines.map(line => JSON.parse(line) as unknown)).toEqual([
+      {
+        time: Date.UTC(2020, 0, 2, 3, 4, 5),
+        ip: '127.0.0.1',
+        method: 'GET',
+        url: '/test',
+        httpVersion: '1.1',
+        status: 200,
+        bytes: 12,
+        duration: 10,
+        userAgent: 'Test',
+      },
+    ]);
+  });
+  it('writes custom format line', async () => {
+    server.handleBy(
+      accessLog
+        .with({
+          format: ({ method, url, status }) => `${method} ${url} ${status}`,
+          stream,
+        })
+        .for(({ response }) => {
+          response.end();
+        }),
+    );
+
+    await (await server.post('/test', 'body')).body();
+    await whenWritten;
+
+    expect(lines).toEqual(['POST /test 200\n']);
+  });
+  it('logs trusted client IP', async () => {
+    server.handleBy(
+      HttpForwarding.with({ trusted: true })
+        .and(accessLog)
+        .for(({ response }) => {
+          response.end();
+        }),
+    );
+
+    await (await server.get('/test', { headers: { forwarded: 'for=192.168.1.1' } })).body();
+
+    await whenWritten;
+    expect(lines[0]).toMatch(/^192\.168\.1\.1 - - /);
+  });
+  it('logs request without method and URL', async () => {
+    server.handleBy(({ request, next }) => {
+      delete request.method;
+      delete request.url;
+
+      return next(
+        accessLog.for(({ response }) => {
+          response.end();
+        }),
+      );
+    });
+
+    await (await server.get('/test')).body();
+
+    await whenWritten;
+    expect(lines[0]).toContain('"GET  HTTP/1.1"');
+  });
+  it('escapes method and URL', async () => {
+    server.handleBy(({ request, next }) => {
+      request.method = 'GET"';
+      request.url = '/test?q="\\\n\x7f';
+
+      return next(
+        accessLog.for(({ response }) => {
+          response.end();
+        }),
+      );
+    });
+
+    await (await server.get('/test')).body();
+
+    await whenWritten;
+    expect(lines[0]).toContain('"GET\\" /test?q=\\"\\\\\\x0a\\x7f HTTP/1.1"');
+  });
+  it('counts HTTP/2 response bytes once', async () => {
+    const server2 = await TestHttp2Server.start();
+
+    try {
+      server2.handleBy(
+        accessLog.for(({ response }) => {
+          response.write('Hello, ');
+          response.end('World!');
+        }),
+      );
+
+      expect(await (await server2.get('/test')).body()).toBe('Hello, World!');
+
+      await whenWritten;
+      expect(lines[0]).toContain('"GET /test HTTP/2.0" 200 13');
+    } finally {
+      await server2.stop();
+    }
+  });
+  it('logs by configured logger', async () => {
+    const logged: unknown[][] = [];
+    const log: RequestLogger = {
+      ...silentLogger,
+      info: (...args) => {
+        logged.push(args);
+        written();
+      },
+    };
+
+    server.handleBy(
+      accessLog.with({ log, format: 'json' }).for(({ response }) => {
+        response.end();
+      }),
+    );
+
+    await (await server.get('/test')).body();
+    await whenWritten;
+
+    expect(logged).toEqual([
+      [expect.objectContaining({ method: 'GET', url: '/test', status: 200 })],
+    ]);
+  });
+  it('logs by request logger by default', async () => {
+    const logged: unknown[][] = [];
+    const log: RequestLogger = {
+      ...silentLogger,
+      info: (...args) => {
+        logged.push(args);
+        written();
+      },
+    };
+
+    server.handleBy(
+      Logging.logBy(log)
+        .and(AccessLog)
+        .for(({ response }) => {
+          response.end();
+        }),
+    );
+
+    await (await server.get('/test')).body();
+    await whenWritten;
+
+    expect(logged).toEqual([
+      [expect.stringMatching(/^127\.0\.0\.1 - - \[.*\] "GET \/test HTTP\/1\.1" 200 - "-" "-"$/)],
+    ]);
+  });
+  it('logs by console when logger is absent', async () => {
+    const logInfoSpy = jest.spyOn(consoleLogger, 'info').mockImplementation(() => written());
+
+    try {
+      server.handleBy(
+        AccessLog.for(({ response }) => {
+          response.end();
+        }),
+      );
+
+      await (await server.get('/test')).body();
+      await whenWritten;
+
+      expect(logInfoSpy).toHaveBeenCalledWith(expect.stringContaining('"GET /test HTTP/1.1" 200'));
+    } finally {
+      logInfoSpy.mockRestore();
+    }
+  });
+});
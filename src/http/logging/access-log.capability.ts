@@ -0,0 +1,312 @@
+import { consoleLogger } from '@proc7ts/logger';
+import type { LoggerMeans } from '../../core/logging/logger.means.js';
+import type { RequestLogger } from '../../core/logging/request-logger.js';
+import { RequestCapability } from '../../core/request-capability.js';
+import type { RequestContext } from '../../core/request-context.js';
+import type { RequestHandler } from '../../core/request-handler.js';
+import { countResponseBytes } from '../../impl/count-response-bytes.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
+import type { HttpMeans } from '../http.means.js';
+
+/**
+ * Access log capability.
+ *
+ * Writes an access log entry per request once the response is finished (or the connection is closed).
+ *
+ * The entry contains the client IP taken from {@link HttpMeans.Addresses.ip request addresses}. So, it is the trusted
+ * client IP when {@link HttpForwarding} applied _before_ this capability.
+ *
+ * The entry is written to configured {@link AccessLog.Options.stream stream} or {@link AccessLog.Options.log logger}.
+ * By default, it is logged by request logger from {@link LoggerMeans}, or by console logger when absent.
+ *
+ * @typeParam TInput - Input HTTP request processing means.
+ */
+export interface AccessLog<
+  TInput extends HttpMeans.Any = HttpMeans.Any,
+> extends RequestCapability<TInput> {
+  /**
+   * Configures access log capability with the given options.
+   *
+   * @param options - Access log options.
+   *
+   * @returns New access log capability.
+   */
+  with(options: AccessLog.Options): AccessLog<TInput>;
+}
+
+export namespace AccessLog {
+  /**
+   * Access log entry format.
+   *
+   * Either one of:
+   *
+   * - `common` - [Common Log Format],
+   * - `combined` - [Combined Log Format], i.e. the common one with referrer and user agent,
+   * - `json` - JSON object containing all {@link Entry entry} properties,
+   *
+   * or a function formatting the entry as string.
+   *
+   * [Common Log Format]: https://httpd.apache.org/docs/current/logs.html#common
+   * [Combined Log Format]: https://httpd.apache.org/docs/current/logs.html#combined
+   */
+  export type Format = 'common' | 'combined' | 'json' | ((this: void, entry: Entry) => string);
+
+  /**
+   * Access log options.
+   */
+  export interface Options {
+    /**
+     * Access log entry format.
+     *
+     * @default `combined`.
+     */
+    readonly format?: Format | undefined;
+
+    /**
+     * A logger to log access log entries with.
+     *
+     * The entries are logged at `info` level. The `json` entry is logged as a plain object. Other entries are logged
+     * as strings.
+     *
+     * Ignored when {@link stream} specified.
+     */
+    readonly log?: RequestLogger | undefined;
+
+    /**
+     * A stream to write access log entries to.
+     *
+     * Each entry is written as a separate line.
+     */
+    readonly stream?: { write(chunk: string): unknown } | undefined;
+
+    /**
+     * Returns current time in milliseconds.
+     *
+     * Can be replaced e.g. for testing.
+     *
+     * @default `Date.now`.
+     */
+    now?(this: void): number;
+  }
+
+  /**
+   * Access log entry.
+   */
+  export interface Entry {
+    /**
+     * The time request processing started at, in milliseconds.
+     */
+    readonly time: number;
+
+    /**
+     * Client IP address.
+     */
+    readonly ip: string;
+
+    /**
+     * HTTP request method.
+     */
+    readonly method: string;
+
+    /**
+     * Requested URL as it is specified in request line.
+     */
+    readonly url: string;
+
+    /**
+     * HTTP protocol version. E.g. `1.1`.
+     */
+    readonly httpVersion: string;
+
+    /**
+     * Response status code.
+     */
+    readonly status: number;
+
+    /**
+     * The number of response body bytes sent.
+     */
+    readonly bytes: number;
+
+    /**
+     * Request processing duration in milliseconds.
+     */
+    readonly duration: number;
+
+    /**
+     * Referrer URL, if any.
+     */
+    readonly referrer?: string | undefined;
+
+    /**
+     * User agent, if known.
+     */
+    readonly userAgent?: string | undefined;
+  }
+}
+
+/**
+ * @internal
+ */
+class AccessLogCapability<TInput extends HttpMeans.Any>
+  extends RequestCapability<TInput>
+  implements AccessLog<TInput>
+{
+  readonly #options: AccessLog.Options;
+  readonly #id: string | undefined;
+
+  constructor(options: AccessLog.Options, id?: string) {
+    super();
+    this.#options = options;
+    this.#id = id;
+  }
+
+  override get id(): string | undefined {
+    return this.#id;
+  }
+
+  for<TMeans extends TInput>(handler: RequestHandler<TMeans>): RequestHandler<TMeans> {
+    return provideRequestCapability(this, handler, context => {
+      const { now = Date.now } = this.#options;
+      const time = now();
+      const { request, requestAddresses, response } = context;
+      const countBytes = countResponseBytes(response);
+
+      context.defer(() => {
+        const { method = 'GET', url = '', httpVersion, headers } = request;
+
+        this.#write(context, {
+          time,
+          ip: requestAddresses.ip,
+          method,
+          url,
+          httpVersion,
+          status: response.statusCode,
+          bytes: countBytes(),
+          duration: now() - time,
+          referrer: headers.referer,
+          userAgent: headers['user-agent'],
+        });
+      });
+
+      return context.next(handler);
+    });
+  }
+
+  #write<TMeans extends TInput>(context: RequestContext<TMeans>, entry: AccessLog.Entry): void {
+    const {
+      format = 'combined',
+      stream,
+      log = (context as Partial<LoggerMeans>).log ?? consoleLogger,
+    } = this.#options;
+
+    if (format === 'json') {
+      if (stream) {
+        stream.write(JSON.stringify(entry) + '\n');
+      } else {
+        log.info({ ...entry });
+      }
+
+      return;
+    }
+
+    const line =
+      format === 'common'
+        ? commonLogLine(entry)
+        : format === 'combined'
+          ? combinedLogLine(entry)
+          : format(entry);
+
+    if (stream) {
+      stream.write(line + '\n');
+    } else {
+      log.info(line);
+    }
+  }
+
+  with(options: AccessLog.Options): AccessLog<TInput> {
+    return new AccessLogCapability(options);
+  }
+}
+
+/**
+ * @internal
+ */
+function commonLogLine({
+  ip,
+  time,
+  method,
+  url,
+  httpVersion,
+  status,
+  bytes,
+}: AccessLog.Entry): string {
+  return `${ip} - - [${commonLogTime(time)}] "${commonLogEscape(method)} ${commonLogEscape(url)} HTTP/${httpVersion}" ${status} ${bytes || '-'}`;
+}
+
+/**
+ * @internal
+ */
+function combinedLogLine(entry: AccessLog.Entry): string {
+  const { referrer, userAgent } = entry;
+
+  return `${commonLogLine(entry)} "${commonLogValue(referrer)}" "${commonLogValue(userAgent)}"`;
+}
+
+/**
+ * @internal
+ */
+function commonLogValue(value: string | undefined): string {
+  return value ? commonLogEscape(value) : '-';
+}
+
+/**
+ * @internal
+ */
+function commonLogEscape(value: string): string {
+  // Escape quotes, backslashes, and control characters the same way Apache does.
+  return value.replace(/["\\]|[\x00-\x1f\x7f]/g, char =>
+    char === '"' || char === '\\'
+      ? '\\' + char
+      : '\\x' + char.charCodeAt(0).toString(16).padStart(2, '0'),
+  );
+}
+
+/**
+ * @internal
+ */
+const COMMON_LOG_MONTHS = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+];
+
+/**
+ * @internal
+ */
+function commonLogTime(time: number): string {
+  const date = new Date(time);
+  const pad = (value: number): string => String(value).padStart(2, '0');
+
+  return (
+    `${pad(date.getUTCDate())}/${COMMON_LOG_MONTHS[date.getUTCMonth()]}/${date.getUTCFullYear()}` +
+    `:${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`
+  );
+}
+
+/**
+ * Access log capability.
+ *
+ * Logs access log entries in {@link AccessLog.Format combined} format by request logger. Can be
+ * {@link AccessLog.with configured} to use another format or destination.
+ */
+export const AccessLog: AccessLog = /*#__PURE__*/ new AccessLogCapability({}, 'AccessLog');
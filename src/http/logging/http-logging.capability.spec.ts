@@ -0,0 +1,72 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { JsonLogger, jsonLogger } from '../../core/logging/json-logger.js';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { HttpError } from '../http-error.js';
+import { HttpLogging } from './http-logging.capability.js';
+
+describe('HttpLogging', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  let lines: string[];
+  let log: JsonLogger;
+
+  beforeEach(() => {
+    lines = [];
+    log = jsonLogger({ fields: { app: 'test' }, write: line => lines.push(line) });
+  });
+
+  function records(): Record<string, unknown>[] {
+    return lines.map(line => JSON.parse(line) as Record<string, unknown>);
+  }
+
+  it('binds request fields to request logger', async () => {
+    server.handleBy(
+      HttpLogging.logBy(log).for(({ log, response }) => {
+        log.info('Hello');
+        response.end('ok');
+      }),
+    );
+
+    await (await server.get('/test/path?query=1')).body();
+
+    expect(records()).toEqual([
+      expect.objectContaining({
+        level: 'info',
+        app: 'test',
+        method: 'GET',
+        path: '/test/path',
+        ip: expect.any(String),
+        msg: 'Hello',
+      }),
+    ]);
+  });
+  it('logs request processing error', async () => {
+    server.handleBy(
+      {
+        handleBy(handler) {
+          return HttpLogging.logBy(log).for(handler);
+        },
+      },
+      () => {
+        throw new HttpError(404, { details: 'Not Here' });
+      },
+    );
+
+    expect((await server.get('/test')).statusCode).toBe(404);
+    expect(records()).toEqual([
+      expect.objectContaining({
+        level: 'error',
+        method: 'GET',
+        path: '/test',
+        msg: '404 Not Here',
+      }),
+    ]);
+  });
+});
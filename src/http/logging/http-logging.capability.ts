@@ -0,0 +1,88 @@
+import { JsonLogger, jsonLogger } from '../../core/logging/json-logger.js';
+import type { LoggerMeans } from '../../core/logging/logger.means.js';
+import { RequestCapability } from '../../core/request-capability.js';
+import type { RequestContext } from '../../core/request-context.js';
+import type { RequestHandler } from '../../core/request-handler.js';
+import { requestExtension } from '../../core/request-modification.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
+import type { HttpMeans } from '../http.means.js';
+import type { RequestIdMeans } from '../request/request-id.means.js';
+
+/**
+ * HTTP request logging capability.
+ *
+ * Provides {@link LoggerMeans request logger means} for handlers. The request logger is a
+ * {@link JsonLogger.child child} of configured {@link JsonLogger structured logger} with the following request fields
+ * bound:
+ *
+ * - `method` - HTTP request method,
+ * - `path` - {@link HttpMeans.Addresses.url request URL} path,
+ * - `ip` - {@link HttpMeans.Addresses.ip remote address},
+ * - `requestId` - {@link RequestIdMeans.requestId request identifier}, if present.
+ *
+ * @typeParam TInput - Input HTTP request processing means.
+ */
+export interface HttpLogging<
+  TInput extends HttpMeans.Any = HttpMeans.Any,
+> extends RequestCapability<TInput, LoggerMeans<JsonLogger>> {
+  /**
+   * Configures HTTP request logging capability with the given logger.
+   *
+   * @param log - Structured logger to create request loggers by.
+   *
+   * @returns New HTTP request logging capability.
+   */
+  logBy(log: JsonLogger): HttpLogging<TInput>;
+}
+
+/**
+ * @internal
+ */
+class HttpLoggingCapability<TInput extends HttpMeans.Any>
+  extends RequestCapability<TInput, LoggerMeans<JsonLogger>>
+  implements HttpLogging<TInput>
+{
+  readonly #log: JsonLogger;
+
+  constructor(log: JsonLogger) {
+    super();
+    this.#log = log;
+  }
+
+  for<TMeans extends TInput>(
+    handler: RequestHandler<TMeans & LoggerMeans<JsonLogger>>,
+  ): RequestHandler<TMeans> {
+    return provideRequestCapability(this, handler, context =>
+      context.next(
+        handler,
+        requestExtension<TMeans, LoggerMeans<JsonLogger>>({
+          log: this.#log.child(httpLogFields(context)),
+        }),
+      ),
+    );
+  }
+
+  logBy(log: JsonLogger): HttpLogging<TInput> {
+    return new HttpLoggingCapability(log);
+  }
+}
+
+/**
+ * @internal
+ */
+function httpLogFields(context: RequestContext<HttpMeans.Any>): JsonLogger.Fields {
+  const {
+    request: { method },
+    requestAddresses: { url, ip },
+    requestId,
+  } = context as RequestContext<HttpMeans.Any & Partial<RequestIdMeans>>;
+
+  return { method, path: url.pathname, ip, requestId };
+}
+
+/**
+ * HTTP request logging capability.
+ *
+ * Logs in JSON format to `process.stdout`.
+ */
+export const HttpLogging: HttpLogging = /*#__PURE__*/ new HttpLoggingCapability(jsonLogger());
@@ -0,0 +1,2 @@
+export * from './access-log.capability.js';
+export * from './http-logging.capability.js';
@@ -0,0 +1,42 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from '@jest/globals';
+import { noop } from '@proc7ts/primitives';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { exposeMetrics } from './expose-metrics.handler.js';
+import { defaultMetricsRegistry, MetricsRegistry } from './metrics-registry.js';
+
+describe('exposeMetrics', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.listenBy(noop);
+  });
+
+  it('renders metrics in Prometheus text format', async () => {
+    const registry = new MetricsRegistry();
+
+    registry.counter('test_total').inc();
+    server.handleBy(exposeMetrics(registry));
+
+    const response = await server.get('/metrics');
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('text/plain; version=0.0.4; charset=utf-8');
+    expect(response.headers['cache-control']).toBe('no-store');
+    expect(await response.body()).toBe('# TYPE test_total counter\ntest_total 1\n');
+  });
+  it('renders default registry by default', async () => {
+    defaultMetricsRegistry.gauge('test_default_gauge').set({}, 13);
+    server.handleBy(exposeMetrics());
+
+    const response = await server.get('/metrics');
+
+    expect(await response.body()).toContain('test_default_gauge 13\n');
+  });
+});
@@ -0,0 +1,24 @@
+import type { RequestHandler } from '../../core/request-handler.js';
+import type { HttpMeans } from '../http.means.js';
+import { defaultMetricsRegistry, MetricsRegistry } from './metrics-registry.js';
+
+/**
+ * Creates metrics exposition handler.
+ *
+ * Renders all metrics from the given registry in Prometheus text exposition format. The handler responds to any
+ * request. So, it can be mounted anywhere in the handler tree, e.g. by router.
+ *
+ * @param registry - Metrics registry to expose. {@link defaultMetricsRegistry Default one} when omitted.
+ *
+ * @returns New HTTP request handler.
+ */
+export function exposeMetrics(
+  registry: MetricsRegistry = defaultMetricsRegistry,
+): RequestHandler<HttpMeans.Any> {
+  return ({ response }) => {
+    response.statusCode = 200;
+    response.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    response.setHeader('Cache-Control', 'no-store');
+    response.end(registry.render());
+  };
+}
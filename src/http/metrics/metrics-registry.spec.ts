@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { MetricsRegistry } from './metrics-registry.js';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('renders nothing without metrics', () => {
+    expect(registry.render()).toBe('');
+  });
+  it('returns already registered metric', () => {
+    expect(registry.counter('test_total')).toBe(registry.counter('test_total'));
+    expect(registry.gauge('test_gauge')).toBe(registry.gauge('test_gauge'));
+    expect(registry.histogram('test_histogram')).toBe(registry.histogram('test_histogram'));
+  });
+  it('rejects metric with the same name and another type', () => {
+    registry.counter('test');
+
+    expect(() => registry.gauge('test')).toThrow(
+      new TypeError('Metric "test" is a counter, not a gauge'),
+    );
+  });
+  it('rejects invalid metric name', () => {
+    expect(() => registry.counter('test-total')).toThrow(
+      new TypeError('Invalid metric name: "test-total"'),
+    );
+  });
+
+  describe('counter', () => {
+    it('renders series', () => {
+      const counter = registry.counter('test_total', { help: 'Test\\counter\nhelp' });
+
+      counter.inc();
+      counter.inc({ method: 'GET', status: 200 });
+      counter.inc({ status: 200, method: 'GET' }, 2);
+      counter.inc({ path: 'a\\"b"\nc' });
+
+      expect(registry.render()).toBe(
+        '# HELP test_total Test\\\\counter\\nhelp\n' +
+          '# TYPE test_total counter\n' +
+          'test_total 1\n' +
+          'test_total{method="GET",status="200"} 3\n' +
+          'test_total{path="a\\\\\\"b\\"\\nc"} 1\n',
+      );
+    });
+    it('can not be decreased', () => {
+      expect(() => registry.counter('test_total').inc({}, -1)).toThrow(
+        new RangeError('Counter "test_total" can not be decreased'),
+      );
+    });
+  });
+
+  describe('gauge', () => {
+    it('renders series', () => {
+      const gauge = registry.gauge('test_gauge');
+
+      gauge.inc();
+      gauge.inc(undefined, 3);
+      gauge.dec();
+      gauge.dec({ kind: 'other' }, 2);
+      gauge.set({ kind: 'infinite' }, Infinity);
+      gauge.set({ kind: 'negative' }, -Infinity);
+      gauge.set({ kind: 'unknown' }, NaN);
+
+      expect(registry.render()).toBe(
+        '# TYPE test_gauge gauge\n' +
+          'test_gauge 3\n' +
+          'test_gauge{kind="other"} -2\n' +
+          'test_gauge{kind="infinite"} +Inf\n' +
+          'test_gauge{kind="negative"} -Inf\n' +
+          'test_gauge{kind="unknown"} NaN\n',
+      );
+    });
+  });
+
+  describe('histogram', () => {
+    it('renders series', () => {
+      const histogram = registry.histogram('test_seconds', { help: 'Test', buckets: [1, 0.5] });
+
+      histogram.observe({ method: 'GET' }, 0.2);
+      histogram.observe({ method: 'GET' }, 0.7);
+      histogram.observe({ method: 'GET' }, 2);
+
+      expect(registry.render()).toBe(
+        '# HELP test_seconds Test\n' +
+          '# TYPE test_seconds histogram\n' +
+          'test_seconds_bucket{method="GET",le="0.5"} 1\n' +
+          'test_seconds_bucket{method="GET",le="1"} 2\n' +
+          'test_seconds_bucket{method="GET",le="+Inf"} 3\n' +
+          'test_seconds_sum{method="GET"} 2.9\n' +
+          'test_seconds_count{method="GET"} 3\n',
+      );
+    });
+    it('uses default buckets', () => {
+      registry.histogram('test_seconds').observe({}, 0.003);
+
+      const text = registry.render();
+
+      expect(text).toContain('test_seconds_bucket{le="0.005"} 1\n');
+      expect(text).toContain('test_seconds_bucket{le="10"} 1\n');
+      expect(text.match(/_bucket/g)).toHaveLength(12);
+    });
+  });
+});
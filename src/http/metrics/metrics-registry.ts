@@ -0,0 +1,410 @@
+/**
+ * Metrics registry.
+ *
+ * Registers counters, gauges and histograms, and renders their values in Prometheus [text exposition format].
+ *
+ * Each metric may have several series distinguished by their labels. A series is created on first update.
+ *
+ * [text exposition format]: https://prometheus.io/docs/instrumenting/exposition_formats/#text-based-format
+ */
+export class MetricsRegistry {
+  readonly #metrics = new Map<string, RegisteredMetric>();
+
+  /**
+   * Registers a counter, or returns already registered one.
+   *
+   * @param name - Counter name. E.g. `orders_total`.
+   * @param options - Counter options. Ignored when the counter registered already.
+   *
+   * @returns Counter with the given name.
+   *
+   * @throws TypeError  If the name is invalid, or another metric with the same name registered already.
+   */
+  counter(name: string, options?: MetricsRegistry.Options): MetricsRegistry.Counter {
+    return this.#register(name, 'counter', () => new CounterMetric(name, options));
+  }
+
+  /**
+   * Registers a gauge, or returns already registered one.
+   *
+   * @param name - Gauge name. E.g. `queue_size`.
+   * @param options - Gauge options. Ignored when the gauge registered already.
+   *
+   * @returns Gauge with the given name.
+   *
+   * @throws TypeError  If the name is invalid, or another metric with the same name registered already.
+   */
+  gauge(name: string, options?: MetricsRegistry.Options): MetricsRegistry.Gauge {
+    return this.#register(name, 'gauge', () => new GaugeMetric(name, options));
+  }
+
+  /**
+   * Registers a histogram, or returns already registered one.
+   *
+   * @param name - Histogram name. E.g. `job_duration_seconds`.
+   * @param options - Histogram options. Ignored when the histogram registered already.
+   *
+   * @returns Histogram with the given name.
+   *
+   * @throws TypeError  If the name is invalid, or another metric with the same name registered already.
+   */
+  histogram(name: string, options?: MetricsRegistry.HistogramOptions): MetricsRegistry.Histogram {
+    return this.#register(name, 'histogram', () => new HistogramMetric(name, options));
+  }
+
+  #register<TMetric extends RegisteredMetric>(
+    name: string,
+    type: TMetric['type'],
+    create: () => TMetric,
+  ): TMetric {
+    const existing = this.#metrics.get(name);
+
+    if (existing) {
+      if (existing.type !== type) {
+        throw new TypeError(`Metric "${name}" is a ${existing.type}, not a ${type}`);
+      }
+
+      return existing as TMetric;
+    }
+    if (!METRIC_NAME_PATTERN.test(name)) {
+      throw new TypeError(`Invalid metric name: "${name}"`);
+    }
+
+    const metric = create();
+
+    this.#metrics.set(name, metric);
+
+    return metric;
+  }
+
+  /**
+   * Renders all registered metrics in Prometheus text exposition format.
+   *
+   * @returns Text containing all metrics.
+   */
+  render(): string {
+    let text = '';
+
+    for (const metric of this.#metrics.values()) {
+      text += metric.render();
+    }
+
+    return text;
+  }
+}
+
+export namespace MetricsRegistry {
+  /**
+   * Metric labels.
+   *
+   * A map of label names to their values.
+   */
+  export type Labels = { readonly [name: string]: string | number };
+
+  /**
+   * Metric options.
+   */
+  export interface Options {
+    /**
+     * Metric description.
+     */
+    readonly help?: string | undefined;
+  }
+
+  /**
+   * Histogram options.
+   */
+  export interface HistogramOptions extends Options {
+    /**
+     * Upper bounds of histogram buckets.
+     *
+     * @default Prometheus default buckets: `[0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]`.
+     */
+    readonly buckets?: readonly number[] | undefined;
+  }
+
+  /**
+   * Counter metric.
+   *
+   * Its value can only increase.
+   */
+  export interface Counter {
+    /**
+     * Increases counter value.
+     *
+     * @param labels - Labels of the series to increase.
+     * @param value - The value to add. Must not be negative.
+     */
+    inc(labels?: Labels, value?: number): void;
+  }
+
+  /**
+   * Gauge metric.
+   *
+   * Its value can go up and down.
+   */
+  export interface Gauge {
+    /**
+     * Increases gauge value.
+     *
+     * @param labels - Labels of the series to increase.
+     * @param value - The value to add. `1` by default.
+     */
+    inc(labels?: Labels, value?: number): void;
+
+    /**
+     * Decreases gauge value.
+     *
+     * @param labels - Labels of the series to decrease.
+     * @param value - The value to subtract. `1` by default.
+     */
+    dec(labels?: Labels, value?: number): void;
+
+    /**
+     * Sets gauge value.
+     *
+     * @param labels - Labels of the series to set the value of.
+     * @param value - New value.
+     */
+    set(labels: Labels, value: number): void;
+  }
+
+  /**
+   * Histogram metric.
+   *
+   * Counts observed values in configurable buckets.
+   */
+  export interface Histogram {
+    /**
+     * Observes a value.
+     *
+     * @param labels - Labels of the series to observe the value by.
+     * @param value - Observed value.
+     */
+    observe(labels: Labels, value: number): void;
+  }
+}
+
+/**
+ * Default metrics registry.
+ *
+ * Used by {@link Metrics} capability and {@link exposeMetrics} handler unless another one specified.
+ */
+export const defaultMetricsRegistry: MetricsRegistry = /*#__PURE__*/ new MetricsRegistry();
+
+/**
+ * @internal
+ */
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+/**
+ * @internal
+ */
+const DEFAULT_BUCKETS: readonly number[] = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/**
+ * @internal
+ */
+interface RegisteredMetric {
+  readonly type: 'counter' | 'gauge' | 'histogram';
+  render(): string;
+}
+
+/**
+ * @internal
+ */
+abstract class Metric<TSeries> implements RegisteredMetric {
+  abstract readonly type: RegisteredMetric['type'];
+
+  readonly #name: string;
+  readonly #help: string | undefined;
+  readonly #series = new Map<string, { labels: MetricsRegistry.Labels; value: TSeries }>();
+
+  constructor(name: string, { help }: MetricsRegistry.Options = {}) {
+    this.#name = name;
+    this.#help = help;
+  }
+
+  get name(): string {
+    return this.#name;
+  }
+
+  protected abstract newSeries(): TSeries;
+
+  protected series(labels: MetricsRegistry.Labels = {}): { value: TSeries } {
+    const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : 1)));
+    let series = this.#series.get(key);
+
+    if (!series) {
+      series = { labels, value: this.newSeries() };
+      this.#series.set(key, series);
+    }
+
+    return series;
+  }
+
+  render(): string {
+    let text = '';
+
+    if (this.#help != null) {
+      text += `# HELP ${this.#name} ${this.#help.replace(/[\\\n]/g, escapeMetricChar)}\n`;
+    }
+    text += `# TYPE ${this.#name} ${this.type}\n`;
+
+    for (const { labels, value } of this.#series.values()) {
+      text += this.renderSeries(labels, value);
+    }
+
+    return text;
+  }
+
+  protected abstract renderSeries(labels: MetricsRegistry.Labels, value: TSeries): string;
+}
+
+/**
+ * @internal
+ */
+class CounterMetric extends Metric<number> implements MetricsRegistry.Counter {
+  override readonly type = 'counter';
+
+  inc(labels?: MetricsRegistry.Labels, value = 1): void {
+    if (value < 0) {
+      throw new RangeError(`Counter "${this.name}" can not be decreased`);
+    }
+
+    this.series(labels).value += value;
+  }
+
+  protected override newSeries(): number {
+    return 0;
+  }
+
+  protected override renderSeries(labels: MetricsRegistry.Labels, value: number): string {
+    return metricLine(this.name, labels, value);
+  }
+}
+
+/**
+ * @internal
+ */
+class GaugeMetric extends Metric<number> implements MetricsRegistry.Gauge {
+  override readonly type = 'gauge';
+
+  inc(labels?: MetricsRegistry.Labels, value = 1): void {
+    this.series(labels).value += value;
+  }
+
+  dec(labels?: MetricsRegistry.Labels, value = 1): void {
+    this.series(labels).value -= value;
+  }
+
+  set(labels: MetricsRegistry.Labels, value: number): void {
+    this.series(labels).value = value;
+  }
+
+  protected override newSeries(): number {
+    return 0;
+  }
+
+  protected override renderSeries(labels: MetricsRegistry.Labels, value: number): string {
+    return metricLine(this.name, labels, value);
+  }
+}
+
+/**
+ * @internal
+ */
+interface HistogramSeries {
+  readonly counts: number[];
+  count: number;
+  sum: number;
+}
+
+/**
+ * @internal
+ */
+class HistogramMetric extends Metric<HistogramSeries> implements MetricsRegistry.Histogram {
+  override readonly type = 'histogram';
+  readonly #buckets: readonly number[];
+
+  constructor(name: string, options: MetricsRegistry.HistogramOptions = {}) {
+    super(name, options);
+
+    const { buckets = DEFAULT_BUCKETS } = options;
+
+    this.#buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricsRegistry.Labels, value: number): void {
+    const series = this.series(labels).value;
+
+    this.#buckets.forEach((bucket, index) => {
+      if (value <= bucket) {
+        series.counts[index]++;
+      }
+    });
+    series.count++;
+    series.sum += value;
+  }
+
+  protected override newSeries(): HistogramSeries {
+    return { counts: this.#buckets.map(() => 0), count: 0, sum: 0 };
+  }
+
+  protected override renderSeries(
+    labels: MetricsRegistry.Labels,
+    { counts, count, sum }: HistogramSeries,
+  ): string {
+    let text = '';
+
+    this.#buckets.forEach((bucket, index) => {
+      text += metricLine(
+        `${this.name}_bucket`,
+        { ...labels, le: metricValue(bucket) },
+        counts[index],
+      );
+    });
+    text += metricLine(`${this.name}_bucket`, { ...labels, le: '+Inf' }, count);
+    text += metricLine(`${this.name}_sum`, labels, sum);
+    text += metricLine(`${this.name}_count`, labels, count);
+
+    return text;
+  }
+}
+
+/**
+ * @internal
+ */
+function metricLine(name: string, labels: MetricsRegistry.Labels, value: number): string {
+  const entries = Object.entries(labels);
+  const labelsText = entries.length
+    ? `{${entries
+        .map(
+          ([label, labelValue]) =>
+            `${label}="${String(labelValue).replace(/[\\"\n]/g, escapeMetricChar)}"`,
+        )
+        .join(',')}}`
+    : '';
+
+  return `${name}${labelsText} ${metricValue(value)}\n`;
+}
+
+/**
+ * @internal
+ */
+function metricValue(value: number): string {
+  return Number.isFinite(value) || Number.isNaN(value)
+    ? String(value)
+    : value > 0
+      ? '+Inf'
+      : '-Inf';
+}
+
+/**
+ * @internal
+ */
+function escapeMetricChar(char: string): string {
+  return char === '\n' ? '\\n' : `\\${char}`;
+}
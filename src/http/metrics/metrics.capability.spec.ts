@@ -0,0 +1,193 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { noop } from '@proc7ts/primitives';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { defaultMetricsRegistry, MetricsRegistry } from './metrics-registry.js';
+import { Metrics } from './metrics.capability.js';
+
+describe('Metrics', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.listenBy(noop);
+  });
+
+  let registry: MetricsRegistry;
+  let now: number;
+  let metrics: Metrics;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+    now = 0;
+    metrics = Metrics.with({
+      registry,
+      buckets: [0.1, 1],
+      sizeBuckets: [10, 100],
+      now: () => (now += 50) - 50,
+    });
+  });
+
+  async function get(path = '/test'): Promise<string> {
+    const response = await server.get(path);
+    const body = await response.body();
+
+    // Let deferred callbacks to complete.
+    await new Promise(resolve => setImmediate(resolve));
+
+    return body;
+  }
+
+  it('records HTTP metrics', async () => {
+    server.handleBy(
+      metrics.for(({ response }) => {
+        response.statusCode = 201;
+        response.write('Hello, ');
+        response.end('World!');
+      }),
+    );
+
+    expect(await get()).toBe('Hello, World!');
+    expect(registry.render()).toBe(
+      '# HELP http_requests_total Total number of HTTP requests\n' +
+        '# TYPE http_requests_total counter\n' +
+        'http_requests_total{method="GET",route="",status="201"} 1\n' +
+        '# HELP http_request_duration_seconds HTTP request processing duration in seconds\n' +
+        '# TYPE http_request_duration_seconds histogram\n' +
+        'http_request_duration_seconds_bucket{method="GET",route="",status="201",le="0.1"} 1\n' +
+        'http_request_duration_seconds_bucket{method="GET",route="",status="201",le="1"} 1\n' +
+        'http_request_duration_seconds_bucket{method="GET",route="",status="201",le="+Inf"} 1\n' +
+        'http_request_duration_seconds_sum{method="GET",route="",status="201"} 0.05\n' +
+        'http_request_duration_seconds_count{method="GET",route="",status="201"} 1\n' +
+        '# HELP http_response_size_bytes HTTP response body size in bytes\n' +
+        '# TYPE http_response_size_bytes histogram\n' +
+        'http_response_size_bytes_bucket{method="GET",route="",status="201",le="10"} 0\n' +
+        'http_response_size_bytes_bucket{method="GET",route="",status="201",le="100"} 1\n' +
+        'http_response_size_bytes_bucket{method="GET",route="",status="201",le="+Inf"} 1\n' +
+        'http_response_size_bytes_sum{method="GET",route="",status="201"} 13\n' +
+        'http_response_size_bytes_count{method="GET",route="",status="201"} 1\n' +
+        '# HELP http_requests_in_flight Number of HTTP requests being processed\n' +
+        '# TYPE http_requests_in_flight gauge\n' +
+        'http_requests_in_flight{method="GET",route=""} 0\n',
+    );
+  });
+  it('counts in-flight requests', async () => {
+    let inFlight = '';
+
+    server.handleBy(
+      metrics.for(({ response }) => {
+        inFlight = registry.render();
+        response.end();
+      }),
+    );
+
+    await get();
+
+    expect(inFlight).toContain('http_requests_in_flight{method="GET",route=""} 1\n');
+    expect(registry.render()).toContain('http_requests_in_flight{method="GET",route=""} 0\n');
+  });
+  it('labels metrics by route', async () => {
+    server.handleBy(
+      metrics
+        .with({ registry, route: ({ requestAddresses }) => requestAddresses.url.pathname })
+        .for(({ response }) => {
+          response.end();
+        }),
+    );
+
+    await get('/users');
+
+    expect(registry.render()).toContain(
+      'http_requests_total{method="GET",route="/users",status="200"} 1\n',
+    );
+  });
+  it('replaces route label by nested capability', async () => {
+    server.handleBy(
+      metrics.with({ registry, route: 'outer' }).for(
+        metrics.for(
+          metrics.with({ registry, route: 'inner' }).for(({ response }) => {
+            response.end();
+          }),
+        ),
+      ),
+    );
+
+    await get();
+
+    const text = registry.render();
+
+    expect(text).toContain('http_requests_total{method="GET",route="inner",status="200"} 1\n');
+    expect(text).not.toContain('route="outer",status');
+    expect(text).toContain('http_requests_in_flight{method="GET",route="outer"} 0\n');
+  });
+  it('records to each registry by nested capabilities', async () => {
+    const innerRegistry = new MetricsRegistry();
+
+    server.handleBy(
+      metrics.with({ registry, route: 'outer' }).for(
+        metrics.with({ registry: innerRegistry, route: 'inner' }).for(({ response }) => {
+          response.end();
+        }),
+      ),
+    );
+
+    await get();
+
+    const text = registry.render();
+    const innerText = innerRegistry.render();
+
+    expect(text).toContain('http_requests_total{method="GET",route="outer",status="200"} 1\n');
+    expect(text).not.toContain('route="inner"');
+    expect(innerText).toContain('http_requests_total{method="GET",route="inner",status="200"} 1\n');
+    expect(innerText).toContain('http_requests_in_flight{method="GET",route="inner"} 0\n');
+    expect(innerText).not.toContain('route="outer"');
+  });
+  it('records request without method', async () => {
+    server.handleBy(({ request, next }) => {
+      delete request.method;
+
+      return next(
+        metrics.for(({ response }) => {
+          response.end();
+        }),
+      );
+    });
+
+    await get();
+
+    expect(registry.render()).toContain(
+      'http_requests_total{method="GET",route="",status="200"} 1\n',
+    );
+  });
+  it('provides metrics registry', async () => {
+    server.handleBy(
+      metrics.for(({ metrics, response }) => {
+        metrics.counter('test_total', { help: 'Test counter' }).inc({ kind: 'test' });
+        response.end();
+      }),
+    );
+
+    await get();
+
+    expect(registry.render()).toContain('test_total{kind="test"} 1\n');
+  });
+  it('records to default registry by default', async () => {
+    server.handleBy(
+      Metrics.for(({ metrics, response }) => {
+        expect(metrics).toBe(defaultMetricsRegistry);
+        response.end();
+      }),
+    );
+
+    await get();
+
+    expect(defaultMetricsRegistry.render()).toMatch(
+      /^http_requests_total\{method="GET",route="",status="200"\} \d+$/m,
+    );
+  });
+});
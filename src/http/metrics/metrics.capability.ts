@@ -0,0 +1,213 @@
+import { RequestCapability } from '../../core/request-capability.js';
+import type { RequestContext } from '../../core/request-context.js';
+import type { RequestHandler } from '../../core/request-handler.js';
+import { requestExtension } from '../../core/request-modification.js';
+import { countResponseBytes } from '../../impl/count-response-bytes.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
+import type { HttpMeans } from '../http.means.js';
+import { defaultMetricsRegistry, MetricsRegistry } from './metrics-registry.js';
+import type { MetricsMeans } from './metrics.means.js';
+
+/**
+ * HTTP metrics capability.
+ *
+ * Records the following metrics to {@link MetricsRegistry metrics registry} once the response is finished (or the
+ * connection is closed):
+ *
+ * - `http_requests_total` - counter of processed requests,
+ * - `http_request_duration_seconds` - histogram of request processing durations,
+ * - `http_response_size_bytes` - histogram of response body sizes,
+ * - `http_requests_in_flight` - gauge of requests being processed.
+ *
+ * The metrics are labeled by request `method`, and by {@link Metrics.Options.route route} label. All but the last one
+ * are also labeled by response `status` code.
+ *
+ * Nested metrics capability with the same registry does not record metrics again, but replaces the route label when
+ * {@link Metrics.Options.route specified}. This can be used to label the metrics per handler. Nested metrics capability
+ * with another registry records metrics to that registry independently.
+ *
+ * Provides {@link MetricsMeans metrics means} for handlers.
+ *
+ * @typeParam TInput - Input HTTP request processing means.
+ */
+export interface Metrics<TInput extends HttpMeans.Any = HttpMeans.Any> extends RequestCapability<
+  TInput,
+  MetricsMeans
+> {
+  /**
+   * Configures metrics capability.
+   *
+   * @param options - Metrics options.
+   *
+   * @returns New metrics capability.
+   */
+  with(options: Metrics.Options<TInput>): Metrics<TInput>;
+}
+
+export namespace Metrics {
+  /**
+   * HTTP metrics options.
+   *
+   * @typeParam TInput - Input HTTP request processing means.
+   */
+  export interface Options<TInput extends HttpMeans.Any = HttpMeans.Any> {
+    /**
+     * Metrics registry to record metrics to.
+     *
+     * @default {@link defaultMetricsRegistry Default metrics registry}.
+     */
+    readonly registry?: MetricsRegistry | undefined;
+
+    /**
+     * Route label value, or a function building it by request processing context.
+     *
+     * Should not depend on request parameters, as each label value starts a new metric series. E.g. `/users/:id` rather
+     * than `/users/123`.
+     *
+     * @default Empty string for the outermost capability with the same registry. Nested one does not replace the route
+     * label by default.
+     */
+    readonly route?: string | ((this: void, context: RequestContext<TInput>) => string) | undefined;
+
+    /**
+     * Upper bounds of request duration histogram buckets, in seconds.
+     *
+     * Applied when the histogram registered first time only.
+     *
+     * @default Prometheus default buckets.
+     */
+    readonly buckets?: readonly number[] | undefined;
+
+    /**
+     * Upper bounds of response size histogram buckets, in bytes.
+     *
+     * Applied when the histogram registered first time only.
+     *
+     * @default `[100, 1000, 10000, 100000, 1000000]`.
+     */
+    readonly sizeBuckets?: readonly number[] | undefined;
+
+    /**
+     * Returns current time in milliseconds.
+     *
+     * Can be replaced e.g. for testing.
+     *
+     * @default `performance.now`.
+     */
+    now?(this: void): number;
+  }
+}
+
+/**
+ * @internal
+ */
+interface MetricsRecord {
+  route: string;
+}
+
+/**
+ * @internal
+ */
+const MetricsRecord$byRequest = /*#__PURE__*/ new WeakMap<
+  HttpMeans.Request,
+  Map<MetricsRegistry, MetricsRecord>
+>();
+
+/**
+ * @internal
+ */
+class MetricsCapability<TInput extends HttpMeans.Any>
+  extends RequestCapability<TInput, MetricsMeans>
+  implements Metrics<TInput>
+{
+  readonly #options: Metrics.Options<TInput>;
+  readonly #id: string | undefined;
+
+  constructor(options: Metrics.Options<TInput>, id?: string) {
+    super();
+    this.#options = options;
+    this.#id = id;
+  }
+
+  override get id(): string | undefined {
+    return this.#id;
+  }
+
+  for<TMeans extends TInput>(
+    handler: RequestHandler<TMeans & MetricsMeans>,
+  ): RequestHandler<TMeans> {
+    const {
+      registry = defaultMetricsRegistry,
+      route,
+      buckets,
+      sizeBuckets = [100, 1000, 10000, 100000, 1000000],
+      now = () => performance.now(),
+    } = this.#options;
+    const requests = registry.counter('http_requests_total', {
+      help: 'Total number of HTTP requests',
+    });
+    const durations = registry.histogram('http_request_duration_seconds', {
+      help: 'HTTP request processing duration in seconds',
+      buckets,
+    });
+    const sizes = registry.histogram('http_response_size_bytes', {
+      help: 'HTTP response body size in bytes',
+      buckets: sizeBuckets,
+    });
+    const inFlight = registry.gauge('http_requests_in_flight', {
+      help: 'Number of HTTP requests being processed',
+    });
+
+    return provideRequestCapability(this, handler, context => {
+      const { request, response } = context;
+      const routeLabel =
+        typeof route === 'function' ? route(context as RequestContext<TInput>) : route;
+      let records = MetricsRecord$byRequest.get(request);
+
+      if (!records) {
+        records = new Map();
+        MetricsRecord$byRequest.set(request, records);
+      }
+
+      const existing = records.get(registry);
+
+      if (existing) {
+        if (routeLabel != null) {
+          existing.route = routeLabel;
+        }
+      } else {
+        const start = now();
+        const record: MetricsRecord = { route: routeLabel ?? '' };
+        const { method = 'GET' } = request;
+        const inFlightLabels = { method, route: record.route };
+        const countBytes = countResponseBytes(response);
+
+        records.set(registry, record);
+        inFlight.inc(inFlightLabels);
+
+        context.defer(() => {
+          const labels = { method, route: record.route, status: response.statusCode };
+
+          inFlight.dec(inFlightLabels);
+          requests.inc(labels);
+          durations.observe(labels, (now() - start) / 1000);
+          sizes.observe(labels, countBytes());
+        });
+      }
+
+      return context.next(handler, requestExtension<TMeans, MetricsMeans>({ metrics: registry }));
+    });
+  }
+
+  with(options: Metrics.Options<TInput>): Metrics<TInput> {
+    return new MetricsCapability(options);
+  }
+}
+
+/**
+ * HTTP metrics capability.
+ *
+ * Records HTTP metrics to {@link defaultMetricsRegistry default metrics registry}. Can be
+ * {@link Metrics.with configured} to use another registry or to label the metrics by route.
+ */
+export const Metrics: Metrics = /*#__PURE__*/ new MetricsCapability({}, 'Metrics');
@@ -0,0 +1,15 @@
+import type { MetricsRegistry } from './metrics-registry.js';
+
+/**
+ * Metrics means.
+ *
+ * Provided by {@link Metrics} capability.
+ */
+export interface MetricsMeans {
+  /**
+   * Metrics registry to register custom metrics in.
+   *
+   * The same one HTTP metrics are recorded to.
+   */
+  readonly metrics: MetricsRegistry;
+}
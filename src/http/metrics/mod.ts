@@ -0,0 +1,4 @@
+export * from './expose-metrics.handler.js';
+export * from './metrics-registry.js';
+export * from './metrics.capability.js';
+export * from './metrics.means.js';
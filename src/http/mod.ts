@@ -1,9 +1,18 @@
+export * from './control/mod.js';
 export * from './dispatch/mod.js';
+export * from './error-reporter.js';
+export * from './health/mod.js';
 export * from './http-config.js';
 export * from './http-error.js';
 export * from './http-listener.js';
 export * from './http.means.js';
+export * from './logging/mod.js';
+export * from './metrics/mod.js';
 export * from './middleware.js';
 export * from './render/mod.js';
 export * from './request/mod.js';
+export * from './server/mod.js';
+export * from './services/mod.js';
+export * from './tracing/mod.js';
 export * from './util/mod.js';
+export * from './validation/mod.js';
@@ -6,19 +6,26 @@ import { RequestHandler } from '../../core/request-handler.js';
 import { dispatchByAccepted } from '../dispatch/dispatch-by-accepted.handler.js';
 import { HttpError } from '../http-error.js';
 import { HttpMeans } from '../http.means.js';
+import { RequestIdMeans } from '../request/request-id.means.js';
 import { RenderMeans } from './render.means.js';
 import { Rendering } from './rendering.capability.js';
 
 /**
  * @internal
  */
-function errorDetails({ error, response }: RequestContext<HttpMeans & ErrorMeans>): {
+function errorDetails(context: RequestContext<HttpMeans.Any & ErrorMeans>): {
   code: number;
   message?: string;
   details?: string;
+  issues?: readonly HttpError.Issue[];
+  requestId?: string;
 } {
+  const { error, response, requestId } = context as RequestContext<
+    HttpMeans & ErrorMeans & Partial<RequestIdMeans>
+  >;
   let message: string | undefined;
   let details: string | undefined;
+  let issues: readonly HttpError.Issue[] | undefined;
 
   if (error instanceof HttpError) {
     response.statusCode = error.statusCode;
@@ -32,21 +39,28 @@ function errorDetails({ error, response }: RequestContext<HttpMeans & ErrorMeans
       message = STATUS_CODES[error.statusCode];
     }
     details = error.details;
+    if (error.issues.length) {
+      issues = error.issues;
+    }
   } else {
     response.statusCode = 500;
     message = 'Internal Server Error';
   }
 
-  return { code: response.statusCode, message, details };
+  return { code: response.statusCode, message, details, issues, requestId };
 }
 
 /**
  * @internal
  */
-function renderHtmlError(context: RequestContext<HttpMeans & RenderMeans & ErrorMeans>): void {
+function renderHtmlError(context: RequestContext<HttpMeans.Any & RenderMeans & ErrorMeans>): void {
   const details = errorDetails(context);
   const message = details.message ? ' ' + escapeXML(details.message) : '';
   const detailsText = details.details ? escapeXML(details.details) : '';
+  const issuesText = details.issues ? htmlErrorIssues(details.issues) : '';
+  const requestIdText = details.requestId
+    ? `\n<p>Request ID: <code>${escapeXML(details.requestId)}</code></p>`
+    : '';
 
   context.renderHtml(
     `<!DOCTYPE html>
@@ -57,7 +71,7 @@ function renderHtmlError(context: RequestContext<HttpMeans & RenderMeans & Error
 <body>
 <h1><strong>ERROR ${details.code}</strong>${message}</h1>
 <hr/>
-${detailsText}
+${detailsText}${issuesText}${requestIdText}
 </body>
 </html>
 `,
@@ -67,19 +81,28 @@ ${detailsText}
 /**
  * @internal
  */
-function renderJsonError(context: RequestContext<HttpMeans & RenderMeans & ErrorMeans>): void {
+function htmlErrorIssues(issues: readonly HttpError.Issue[]): string {
+  const items = issues.map(({ path, message }) => {
+    const pathText = path ? `<code>${escapeXML(path)}</code>: ` : '';
+
+    return `<li>${pathText}${escapeXML(message)}</li>\n`;
+  });
+
+  return `\n<ul>\n${items.join('')}</ul>`;
+}
+
+/**
+ * @internal
+ */
+function renderJsonError(context: RequestContext<HttpMeans.Any & RenderMeans & ErrorMeans>): void {
   context.renderJson({ error: errorDetails(context) });
 }
 
 /**
- * HTTP request processing error handler that renders HTML page with error info.
- *
- * Threats {@link HttpError HTTP status error} as HTTP status code to set for error page.
- *
- * Renders either JSON or HTML error page.
+ * @internal
  */
-export const renderHttpError: RequestHandler<HttpMeans & ErrorMeans> = /*#__PURE__*/ Rendering.for(
-  /*#__PURE__*/ dispatchByAccepted<HttpMeans & ErrorMeans & RenderMeans>(
+const renderErrorPage: RequestHandler<HttpMeans.Any & ErrorMeans> = /*#__PURE__*/ Rendering.for(
+  /*#__PURE__*/ dispatchByAccepted<HttpMeans.Any & ErrorMeans & RenderMeans>(
     {
       'application/json': renderJsonError,
       'text/json': renderJsonError,
@@ -89,3 +112,25 @@ export const renderHttpError: RequestHandler<HttpMeans & ErrorMeans> = /*#__PURE
     renderHtmlError,
   ),
 );
+
+/**
+ * HTTP request processing error handler that renders HTML page with error info.
+ *
+ * Threats {@link HttpError HTTP status error} as HTTP status code to set for error page.
+ *
+ * Renders either JSON or HTML error page. The page contains {@link RequestIdMeans.requestId request identifier} when
+ * present.
+ *
+ * Destroys the response instead if its headers have been sent already, as it is impossible to render error page then.
+ */
+export const renderHttpError: RequestHandler<HttpMeans.Any & ErrorMeans> = context => {
+  const { response } = context;
+
+  if (response.headersSent) {
+    response.destroy();
+
+    return;
+  }
+
+  return context.next(renderErrorPage);
+};
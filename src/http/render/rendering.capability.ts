@@ -1,17 +1,22 @@
 import { RequestCapability } from '../../core/request-capability.js';
 import { RequestHandler } from '../../core/request-handler.js';
 import { requestExtension } from '../../core/request-modification.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
 import type { HttpMeans } from '../http.means.js';
 import type { RenderMeans } from './render.means.js';
 
 /**
  * @internal
  */
-class RenderingCapability extends RequestCapability<HttpMeans, RenderMeans> {
-  for<TMeans extends HttpMeans>(
+class RenderingCapability extends RequestCapability<HttpMeans.Any, RenderMeans> {
+  override get id(): string {
+    return 'Rendering';
+  }
+
+  for<TMeans extends HttpMeans.Any>(
     handler: RequestHandler<TMeans & RenderMeans>,
   ): RequestHandler<TMeans> {
-    return ({ request: { method }, response, next }) => {
+    return provideRequestCapability(this, handler, ({ request: { method }, response, next }) => {
       const renderBody = (body: string | Buffer, encoding: BufferEncoding = 'utf-8'): void => {
         const length = Buffer.isBuffer(body) ? body.byteLength : Buffer.byteLength(body, encoding);
 
@@ -39,7 +44,7 @@ class RenderingCapability extends RequestCapability<HttpMeans, RenderMeans> {
           },
         }),
       );
-    };
+    });
   }
 }
 
@@ -48,5 +53,5 @@ class RenderingCapability extends RequestCapability<HttpMeans, RenderMeans> {
  *
  * Provides {@link RenderMeans HTTP response body render means} for handlers.
  */
-export const Rendering: RequestCapability<HttpMeans, RenderMeans> =
+export const Rendering: RequestCapability<HttpMeans.Any, RenderMeans> =
   /*#__PURE__*/ new RenderingCapability();
@@ -0,0 +1,54 @@
+import type { X509Certificate } from 'node:crypto';
+
+/**
+ * Client certificate means.
+ *
+ * Provided by {@link MtlsAuth} capability.
+ */
+export interface ClientCertificateMeans {
+  /**
+   * Authenticated client certificate.
+   */
+  readonly clientCertificate: ClientCertificateMeans.Certificate;
+}
+
+export namespace ClientCertificateMeans {
+  /**
+   * Client certificate info.
+   */
+  export interface Certificate {
+    /**
+     * Certificate subject distinguished name.
+     *
+     * Contains relative distinguished names separated by newlines. E.g. `O=Example\nCN=service`.
+     */
+    readonly subject: string;
+
+    /**
+     * Subject common name (`CN`), if any.
+     */
+    readonly commonName: string | undefined;
+
+    /**
+     * Subject alternative names.
+     *
+     * Each name is prefixed with its type. E.g. `DNS:service.internal` or `URI:spiffe://cluster/service`.
+     */
+    readonly altNames: readonly string[];
+
+    /**
+     * SHA-256 fingerprint of the certificate.
+     */
+    readonly fingerprint256: string;
+
+    /**
+     * Whether the certificate is forwarded by trusted proxy rather than presented by TLS peer.
+     */
+    readonly forwarded: boolean;
+
+    /**
+     * Parsed X.509 certificate.
+     */
+    readonly x509: X509Certificate;
+  }
+}
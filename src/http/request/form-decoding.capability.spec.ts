@@ -67,6 +67,32 @@ describe('FormDecoding', () => {
       ['param2', 'value2'],
     ]);
   });
+  it('transforms already decoded form', async () => {
+    server.handleBy(
+      FormDecoding.withBody(params => {
+        params.delete('param1');
+
+        return params;
+      }).for(
+        Rendering.and(FormDecoding.withBody(params => Array.from(params.entries()))).for(
+          ({ requestBody, renderJson }) => {
+            renderJson(requestBody);
+          },
+        ),
+      ),
+    );
+
+    const response = await server.post('/test', 'param1=value1&param2=value2', {
+      headers: {
+        'content-type': 'application/x-www-form-urlencoded',
+      },
+    });
+
+    expect(JSON.parse(await response.body())).toEqual([
+      ['param1', 'value1'],
+      ['param2', 'value2'],
+    ]);
+  });
   it('processes submitted form with text/plain content type', async () => {
     const response = await server.post('/test', 'param1=value1&param2=value2', {
       headers: {
@@ -7,6 +7,7 @@ import { RequestHandler } from '../../core/request-handler.js';
 import { requestExtension } from '../../core/request-modification.js';
 import { RequestValueTransformer } from '../../core/request-value-transformer.js';
 import { readAll } from '../../impl/read-all.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
 import { HttpError } from '../http-error.js';
 import { HttpMeans } from '../http.means.js';
 
@@ -18,6 +19,11 @@ const URL_ENCODED_MIMES: Record<string, number> = {
   'application/x-www-form-urlencoded': 1,
 };
 
+/**
+ * @internal
+ */
+const FormDecoding$body = /*#__PURE__*/ new WeakMap<HttpMeans.Request, URLSearchParams>();
+
 /**
  * URL-encoded form decoding capability.
  *
@@ -27,11 +33,15 @@ const URL_ENCODED_MIMES: Record<string, number> = {
  * Responds with 415 (Unsupported Media Type) status code if request has content type specified, and it is not
  * `application/x-www-form-urlencoded` or `text/plain`.
  *
+ * Request body is decoded only once. Nested form decoding capability applies its transformer to already decoded form.
+ *
  * @typeParam TInput - Input HTTP request processing means.
  * @typeParam TBody - Request body type.
  */
-export interface FormDecoding<TInput extends HttpMeans = HttpMeans, TBody = URLSearchParams>
-  extends RequestCapability<TInput, RequestBodyMeans<TBody>> {
+export interface FormDecoding<
+  TInput extends HttpMeans.Any = HttpMeans.Any,
+  TBody = URLSearchParams,
+> extends RequestCapability<TInput, RequestBodyMeans<TBody>> {
   /**
    * Configures form decoding capability to transform submitted form.
    *
@@ -49,7 +59,7 @@ export interface FormDecoding<TInput extends HttpMeans = HttpMeans, TBody = URLS
 /**
  * @internal
  */
-class FormDecodingCapability<TInput extends HttpMeans, TBody>
+class FormDecodingCapability<TInput extends HttpMeans.Any, TBody>
   extends RequestCapability<TInput, RequestBodyMeans<TBody>>
   implements FormDecoding<TInput, TBody>
 {
@@ -60,10 +70,14 @@ class FormDecodingCapability<TInput extends HttpMeans, TBody>
     this.#transform = transform;
   }
 
+  override get id(): string {
+    return 'FormDecoding';
+  }
+
   for<TMeans extends TInput>(
     handler: RequestHandler<TMeans & RequestBodyMeans<TBody>>,
   ): RequestHandler<TMeans> {
-    return async context => {
+    const parse: RequestHandler<TMeans> = async context => {
       const { request } = context;
       const { 'content-type': contentType = 'text/plain' } = request.headers;
 
@@ -75,13 +89,30 @@ class FormDecodingCapability<TInput extends HttpMeans, TBody>
 
       const params = new URLSearchParams(await readAll(request));
 
+      FormDecoding$body.set(request, params);
+
       return context.next(
         handler,
         requestExtension<TMeans, RequestBodyMeans<TBody>>({
-          requestBody: await this.#transform(params, context as RequestContext<TInput>),
+          requestBody: await this.#transform(
+            new URLSearchParams(params),
+            context as RequestContext<TInput>,
+          ),
         }),
       );
     };
+    const reuse: RequestHandler<TMeans> = async context =>
+      await context.next(
+        handler,
+        requestExtension<TMeans, RequestBodyMeans<TBody>>({
+          requestBody: await this.#transform(
+            new URLSearchParams(FormDecoding$body.get(context.request)),
+            context as RequestContext<TInput>,
+          ),
+        }),
+      );
+
+    return provideRequestCapability(this, handler, parse, reuse);
   }
 
   withBody<TMeans extends TInput, TTransformed>(
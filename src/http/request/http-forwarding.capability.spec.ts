@@ -43,4 +43,21 @@ describe('HttpForwarding', () => {
       href: 'https://test.com:8443/test/nested?param=value',
     });
   });
+  it('replaces root request URL when path is unknown', async () => {
+    server.handleBy(({ request, next }) => {
+      delete request.url;
+
+      return next(
+        HttpForwarding.with({ trusted: true })
+          .and(Rendering)
+          .for(({ renderJson, requestAddresses }) => {
+            renderJson({ href: requestAddresses.url.href });
+          }),
+      );
+    });
+
+    const response = await server.get('/test', { headers: { forwarded: 'host=test.com' } });
+
+    expect(JSON.parse(await response.body())).toEqual({ href: 'http://test.com/' });
+  });
 });
@@ -1,9 +1,10 @@
 import { lazyValue } from '@proc7ts/primitives';
-import type { HttpForwardTrust } from 'http-header-value/headers.js';
-import { HttpAddressRep } from 'http-header-value/node.js';
+import { HttpForwardRep, HttpForwardTrust } from 'http-header-value/headers.js';
 import { RequestCapability } from '../../core/request-capability.js';
 import { RequestHandler } from '../../core/request-handler.js';
 import { requestUpdate } from '../../core/request-modification.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
+import { httpAddressDefaults } from '../http-addresses.impl.js';
 import { HttpMeans } from '../http.means.js';
 
 /**
@@ -14,7 +15,7 @@ import { HttpMeans } from '../http.means.js';
  *
  * The proxy forwarding information is not trusted by default.
  */
-export interface HttpForwarding extends RequestCapability<HttpMeans> {
+export interface HttpForwarding extends RequestCapability<HttpMeans.Any> {
   /**
    * Configures trust policy to proxy forwarding records.
    *
@@ -28,7 +29,7 @@ export interface HttpForwarding extends RequestCapability<HttpMeans> {
 /**
  * @internal
  */
-class HttpForwardingCapability extends RequestCapability<HttpMeans> implements HttpForwarding {
+class HttpForwardingCapability extends RequestCapability<HttpMeans.Any> implements HttpForwarding {
   readonly #trust: HttpForwardTrust;
 
   constructor(trust: HttpForwardTrust) {
@@ -36,24 +37,33 @@ class HttpForwardingCapability extends RequestCapability<HttpMeans> implements H
     this.#trust = trust;
   }
 
-  for<TMeans extends HttpMeans>(handler: RequestHandler<TMeans & object>): RequestHandler<TMeans> {
-    return ({ request, next }) => {
-      const addresses = lazyValue(() => HttpAddressRep.by(request, this.#trust));
+  for<TMeans extends HttpMeans.Any>(
+    handler: RequestHandler<TMeans & object>,
+  ): RequestHandler<TMeans> {
+    return provideRequestCapability(this, handler, ({ request, next }) => {
+      const forward = lazyValue(() =>
+        HttpForwardRep.by(request.headers, httpAddressDefaults(request), this.#trust),
+      );
+      const url = lazyValue(() => {
+        const { host, proto } = forward();
+
+        return new URL(request.url ?? '', `${proto}://${host}`);
+      });
 
       return next(
         handler,
-        requestUpdate<HttpMeans>({
+        requestUpdate<HttpMeans.Any>({
           requestAddresses: {
             get url() {
-              return addresses().url;
+              return url();
             },
             get ip() {
-              return addresses().ip;
+              return forward().for;
             },
           },
         }),
       );
-    };
+    });
   }
 
   with(trust: HttpForwardTrust): HttpForwarding {
@@ -66,6 +66,42 @@ describe('JsonParsing', () => {
 
     expect(JSON.parse(await response.body())).toEqual({ json: { text: 'hello' } });
   });
+  it('parses JSON body once', async () => {
+    server.handleBy(
+      JsonParsing.for(
+        Rendering.and(JsonParsing).for(({ requestBody, renderJson }) => {
+          renderJson({ request: requestBody });
+        }),
+      ),
+    );
+
+    const response = await server.post('/test', `{ "text": "hello" }`, {
+      headers: {
+        'content-type': 'application/json',
+      },
+    });
+
+    expect(JSON.parse(await response.body())).toEqual({ request: { text: 'hello' } });
+  });
+  it('transforms already parsed JSON body', async () => {
+    server.handleBy(
+      JsonParsing.withBody(json => ({ outer: json })).for(
+        Rendering.and(JsonParsing.withBody(json => ({ inner: json }))).for(
+          ({ requestBody, renderJson }) => {
+            renderJson(requestBody);
+          },
+        ),
+      ),
+    );
+
+    const response = await server.post('/test', `{ "text": "hello" }`, {
+      headers: {
+        'content-type': 'application/json',
+      },
+    });
+
+    expect(JSON.parse(await response.body())).toEqual({ inner: { text: 'hello' } });
+  });
   it('processes JSON body with text/json content type', async () => {
     const response = await server.post('/test', `{ "text": "hello" }`, {
       headers: {
@@ -6,6 +6,7 @@ import { RequestHandler } from '../../core/request-handler.js';
 import { requestExtension } from '../../core/request-modification.js';
 import { RequestValueTransformer } from '../../core/request-value-transformer.js';
 import { readAll } from '../../impl/read-all.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
 import { HttpError } from '../http-error.js';
 import { HttpMeans } from '../http.means.js';
 import { FormDecoding } from './form-decoding.capability.js';
@@ -19,6 +20,11 @@ const JSON_MIMES: Readonly<Record<string, number>> = {
   'text/json': 1,
 };
 
+/**
+ * @internal
+ */
+const JsonParsing$body = /*#__PURE__*/ new WeakMap<HttpMeans.Request, unknown>();
+
 /**
  * JSON request body parsing capability.
  *
@@ -29,11 +35,15 @@ const JSON_MIMES: Readonly<Record<string, number>> = {
  *
  * Responds with 400 (Bad Request) status code if failed to parse JSON.
  *
+ * Request body is parsed only once. Nested JSON parsing capability applies its transformer to already parsed JSON.
+ *
  * @typeParam TInput - Input HTTP request processing means.
  * @typeParam TBody - Request body type.
  */
-export interface JsonParsing<TInput extends HttpMeans = HttpMeans, TBody = any>
-  extends RequestCapability<TInput, RequestBodyMeans<TBody>> {
+export interface JsonParsing<
+  TInput extends HttpMeans.Any = HttpMeans.Any,
+  TBody = any,
+> extends RequestCapability<TInput, RequestBodyMeans<TBody>> {
   /**
    * Configures JSON parsing capability to transform submitted data.
    *
@@ -51,7 +61,7 @@ export interface JsonParsing<TInput extends HttpMeans = HttpMeans, TBody = any>
 /**
  * @internal
  */
-class JsonParsingCapability<TInput extends HttpMeans, TBody>
+class JsonParsingCapability<TInput extends HttpMeans.Any, TBody>
   extends RequestCapability<TInput, RequestBodyMeans<TBody>>
   implements JsonParsing<TInput, TBody>
 {
@@ -62,10 +72,14 @@ class JsonParsingCapability<TInput extends HttpMeans, TBody>
     this.#transform = transform;
   }
 
+  override get id(): string {
+    return 'JsonParsing';
+  }
+
   for<TMeans extends TInput>(
     handler: RequestHandler<TMeans & RequestBodyMeans<TBody>>,
   ): RequestHandler<TMeans> {
-    return async context => {
+    const parse: RequestHandler<TMeans> = async context => {
       const { request, next } = context;
       const { 'content-type': contentType = 'text/plain' } = request.headers;
 
@@ -82,6 +96,8 @@ class JsonParsingCapability<TInput extends HttpMeans, TBody>
         return Promise.reject(new HttpError(400, { details: 'Malformed JSON', cause }));
       }
 
+      JsonParsing$body.set(request, json);
+
       return next(
         handler,
         requestExtension<TMeans, RequestBodyMeans<TBody>>({
@@ -89,6 +105,18 @@ class JsonParsingCapability<TInput extends HttpMeans, TBody>
         }),
       );
     };
+    const reuse: RequestHandler<TMeans> = async context =>
+      await context.next(
+        handler,
+        requestExtension<TMeans, RequestBodyMeans<TBody>>({
+          requestBody: await this.#transform(
+            JsonParsing$body.get(context.request),
+            context as RequestContext<TInput>,
+          ),
+        }),
+      );
+
+    return provideRequestCapability(this, handler, parse, reuse);
   }
 
   withBody<TMeans extends TInput, TTransformed>(
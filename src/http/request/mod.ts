@@ -1,3 +1,9 @@
+export * from './client-certificate.means.js';
 export * from './form-decoding.capability.js';
 export * from './http-forwarding.capability.js';
 export * from './json-parsing.capability.js';
+export * from './mtls-auth.capability.js';
+export * from './query-parsing.capability.js';
+export * from './query.means.js';
+export * from './request-id.capability.js';
+export * from './request-id.means.js';
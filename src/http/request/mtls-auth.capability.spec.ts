@@ -0,0 +1,284 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import { consoleLogger } from '@proc7ts/logger';
+import { noop } from '@proc7ts/primitives';
+import type { IncomingMessage, RequestListener } from 'node:http';
+import { createServer, request, Server } from 'node:https';
+import type { AddressInfo } from 'node:net';
+import { promisify } from 'node:util';
+import { readAll } from '../../impl/read-all.js';
+import {
+  TEST_ANONYMOUS_CLIENT_CERT,
+  TEST_CA_CERT,
+  TEST_CLIENT_CERT,
+  TEST_CLIENT_KEY,
+  TEST_OTHER_CLIENT_CERT,
+  TEST_OTHER_CLIENT_KEY,
+  TEST_ROGUE_CLIENT_CERT,
+  TEST_ROGUE_CLIENT_KEY,
+  TEST_SERVER_CERT,
+  TEST_SERVER_KEY,
+} from '../../spec/test-certificates.js';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { httpListener } from '../http-listener.js';
+import { Rendering } from '../render/rendering.capability.js';
+import { MtlsAuth } from './mtls-auth.capability.js';
+
+describe('MtlsAuth', () => {
+  let logErrorSpy: jest.Mock<(...args: unknown[]) => void>;
+
+  beforeEach(() => {
+    logErrorSpy = jest.spyOn(consoleLogger, 'error').mockImplementation(noop) as typeof logErrorSpy;
+  });
+  afterEach(() => {
+    logErrorSpy.mockRestore();
+  });
+
+  function handlerOf(auth: MtlsAuth): RequestListener {
+    return httpListener(
+      auth.and(Rendering).for(({ clientCertificate, renderJson }) => {
+        const { commonName, altNames, forwarded, fingerprint256, x509 } = clientCertificate;
+
+        expect(fingerprint256).toBe(x509.fingerprint256);
+
+        renderJson({ commonName, altNames, forwarded });
+      }),
+    );
+  }
+
+  describe('over TLS', () => {
+    let server: Server;
+    let listener: RequestListener;
+
+    beforeAll(async () => {
+      server = createServer(
+        {
+          key: TEST_SERVER_KEY,
+          cert: TEST_SERVER_CERT,
+          ca: TEST_CA_CERT,
+          requestCert: true,
+          rejectUnauthorized: false,
+        },
+        (request, response) => listener(request, response),
+      );
+      await new Promise<void>(resolve => server.listen({ port: 0, host: '127.0.0.1' }, resolve));
+    });
+    afterAll(async () => {
+      await promisify(server.close.bind(server))();
+    });
+
+    beforeEach(() => {
+      listener = noop;
+    });
+
+    async function get(
+      key?: string,
+      cert?: string,
+    ): Promise<{ statusCode: number | undefined; body: unknown }> {
+      const { port } = server.address() as AddressInfo;
+      const response = await new Promise<IncomingMessage>((resolve, reject) => {
+        request(
+          {
+            host: '127.0.0.1',
+            port,
+            path: '/test',
+            ca: TEST_CA_CERT,
+            key,
+            cert,
+            agent: false,
+            headers: { accept: 'application/json' },
+          },
+          resolve,
+        )
+          .on('error', reject)
+          .end();
+      });
+
+      return { statusCode: response.statusCode, body: JSON.parse(await readAll(response)) };
+    }
+
+    it('provides client certificate', async () => {
+      listener = handlerOf(MtlsAuth);
+
+      expect(await get(TEST_CLIENT_KEY, TEST_CLIENT_CERT)).toEqual({
+        statusCode: 200,
+        body: {
+          commonName: 'service-a',
+          altNames: ['DNS:service-a.internal', 'URI:spiffe://test/service-a'],
+          forwarded: false,
+        },
+      });
+    });
+    it('rejects request without client certificate', async () => {
+      listener = handlerOf(MtlsAuth);
+
+      expect(await get()).toEqual({
+        statusCode: 401,
+        body: {
+          error: { code: 401, message: 'Unauthorized', details: 'Client certificate required' },
+        },
+      });
+    });
+    it('rejects untrusted client certificate', async () => {
+      listener = handlerOf(MtlsAuth);
+
+      expect(await get(TEST_ROGUE_CLIENT_KEY, TEST_ROGUE_CLIENT_CERT)).toEqual({
+        statusCode: 401,
+        body: {
+          error: { code: 401, message: 'Unauthorized', details: 'Untrusted client certificate' },
+        },
+      });
+    });
+    it('rejects client certificate with subject not in allowlist', async () => {
+      listener = handlerOf(MtlsAuth.with({ subjects: ['service-a'] }));
+
+      expect(await get(TEST_OTHER_CLIENT_KEY, TEST_OTHER_CLIENT_CERT)).toEqual({
+        statusCode: 403,
+        body: {
+          error: { code: 403, message: 'Forbidden', details: 'Client certificate is not allowed' },
+        },
+      });
+    });
+    it('allows client certificate with alternative name in allowlist', async () => {
+      listener = handlerOf(
+        MtlsAuth.with({ subjects: ['service-a'], altNames: ['DNS:service-b.internal'] }),
+      );
+
+      expect(await get(TEST_OTHER_CLIENT_KEY, TEST_OTHER_CLIENT_CERT)).toEqual({
+        statusCode: 200,
+        body: { commonName: 'service-b', altNames: ['DNS:service-b.internal'], forwarded: false },
+      });
+    });
+  });
+
+  describe('behind proxy', () => {
+    let server: TestHttpServer;
+
+    beforeAll(async () => {
+      server = await TestHttpServer.start();
+    });
+    afterAll(async () => {
+      await server.stop();
+    });
+
+    afterEach(() => {
+      server.listenBy(noop);
+    });
+
+    async function get(
+      certificate?: string,
+    ): Promise<{ statusCode: number | undefined; body: unknown }> {
+      const response = await server.get('/test', {
+        headers: {
+          accept: 'application/json',
+          ...(certificate != null && { 'x-client-cert': certificate }),
+        },
+      });
+
+      return { statusCode: response.statusCode, body: JSON.parse(await response.body()) };
+    }
+
+    it('provides forwarded client certificate', async () => {
+      server.listenBy(
+        handlerOf(MtlsAuth.with({ header: 'X-Client-Cert', trust: { trusted: true } })),
+      );
+
+      expect(await get(encodeURIComponent(TEST_CLIENT_CERT))).toEqual({
+        statusCode: 200,
+        body: {
+          commonName: 'service-a',
+          altNames: ['DNS:service-a.internal', 'URI:spiffe://test/service-a'],
+          forwarded: true,
+        },
+      });
+    });
+    it('provides client certificate forwarded by trusted proxy address', async () => {
+      server.listenBy(
+        handlerOf(
+          MtlsAuth.with({
+            header: 'X-Client-Cert',
+            trust: {
+              trusted: { for: { '127.0.0.1': 2 /* HttpForwardTrustMask.TrustPrevious */ } },
+            },
+            altNames: ['URI:spiffe://test/service-c'],
+          }),
+        ),
+      );
+
+      expect(await get(encodeURIComponent(TEST_ANONYMOUS_CLIENT_CERT))).toEqual({
+        statusCode: 200,
+        body: { altNames: ['URI:spiffe://test/service-c'], forwarded: true },
+      });
+    });
+    it('provides forwarded client certificate without alternative names', async () => {
+      server.listenBy(
+        handlerOf(
+          MtlsAuth.with({
+            header: 'X-Client-Cert',
+            trust: { trusted: true },
+            subjects: ['service-a'],
+          }),
+        ),
+      );
+
+      expect(await get(encodeURIComponent(TEST_ROGUE_CLIENT_CERT))).toEqual({
+        statusCode: 200,
+        body: { commonName: 'service-a', altNames: [], forwarded: true },
+      });
+    });
+    it('ignores client certificate forwarded by untrusted proxy', async () => {
+      server.listenBy(
+        handlerOf(
+          MtlsAuth.with({
+            header: 'X-Client-Cert',
+            trust: { trusted: { for: { '10.0.0.1': 3 /* HttpForwardTrustMask.AlwaysTrust */ } } },
+          }),
+        ),
+      );
+
+      expect(await get(encodeURIComponent(TEST_CLIENT_CERT))).toEqual({
+        statusCode: 401,
+        body: {
+          error: { code: 401, message: 'Unauthorized', details: 'Client certificate required' },
+        },
+      });
+    });
+    it('does not trust proxy by default', async () => {
+      server.listenBy(handlerOf(MtlsAuth.with({ header: 'X-Client-Cert' })));
+
+      expect(await get(encodeURIComponent(TEST_CLIENT_CERT))).toMatchObject({ statusCode: 401 });
+    });
+    it('rejects request without forwarded client certificate', async () => {
+      server.listenBy(
+        handlerOf(MtlsAuth.with({ header: 'X-Client-Cert', trust: { trusted: true } })),
+      );
+
+      expect(await get()).toEqual({
+        statusCode: 401,
+        body: {
+          error: { code: 401, message: 'Unauthorized', details: 'Client certificate required' },
+        },
+      });
+    });
+    it('rejects invalid forwarded client certificate', async () => {
+      server.listenBy(
+        handlerOf(MtlsAuth.with({ header: 'X-Client-Cert', trust: { trusted: true } })),
+      );
+
+      expect(await get('invalid')).toEqual({
+        statusCode: 401,
+        body: {
+          error: { code: 401, message: 'Unauthorized', details: 'Invalid client certificate' },
+        },
+      });
+    });
+  });
+});
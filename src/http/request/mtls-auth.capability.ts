@@ -0,0 +1,222 @@
+import { hthvParse, hthvQuote } from 'http-header-value';
+import { HttpForwardTrust } from 'http-header-value/headers.js';
+import { X509Certificate } from 'node:crypto';
+import { TLSSocket } from 'node:tls';
+import { RequestCapability } from '../../core/request-capability.js';
+import type { RequestHandler } from '../../core/request-handler.js';
+import { requestExtension } from '../../core/request-modification.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
+import { httpAddressDefaults } from '../http-addresses.impl.js';
+import { HttpError } from '../http-error.js';
+import type { HttpMeans } from '../http.means.js';
+import type { ClientCertificateMeans } from './client-certificate.means.js';
+
+/**
+ * Mutual TLS authentication capability.
+ *
+ * Authenticates the client by its certificate. The certificate is either presented by TLS peer, or forwarded by
+ * trusted proxy in configured request {@link MtlsAuth.Options.header header}. The former requires the HTTPS server to
+ * request client certificates, i.e. to be created with `requestCert: true` option.
+ *
+ * Rejects the request with 401 (Unauthorized) error when there is no valid client certificate, or with 403 (Forbidden)
+ * error when the certificate is not in {@link MtlsAuth.Options allowlist}.
+ *
+ * Provides {@link ClientCertificateMeans client certificate means} for handlers.
+ *
+ * @typeParam TInput - Input HTTP request processing means.
+ */
+export interface MtlsAuth<TInput extends HttpMeans.Any = HttpMeans.Any> extends RequestCapability<
+  TInput,
+  ClientCertificateMeans
+> {
+  /**
+   * Configures mutual TLS authentication capability.
+   *
+   * @param options - Mutual TLS authentication options.
+   *
+   * @returns New mutual TLS authentication capability.
+   */
+  with(options: MtlsAuth.Options): MtlsAuth<TInput>;
+}
+
+export namespace MtlsAuth {
+  /**
+   * Mutual TLS authentication options.
+   *
+   * When both {@link subjects} and {@link altNames} allowlists are empty, any valid client certificate is allowed.
+   * Otherwise, the certificate is allowed if either its subject common name, or any of its subject alternative names
+   * present in corresponding allowlist.
+   */
+  export interface Options {
+    /**
+     * Allowed subject common names.
+     */
+    readonly subjects?: readonly string[] | undefined;
+
+    /**
+     * Allowed subject alternative names.
+     *
+     * Each name should be prefixed with its type. E.g. `DNS:service.internal` or `URI:spiffe://cluster/service`.
+     */
+    readonly altNames?: readonly string[] | undefined;
+
+    /**
+     * The name of HTTP header containing client certificate forwarded by trusted proxy.
+     *
+     * The header value expected to contain URL-encoded certificate in PEM format. E.g. the one provided by NGINX in
+     * `$ssl_client_escaped_cert` variable.
+     *
+     * The forwarded certificate is not accepted when omitted.
+     */
+    readonly header?: string | undefined;
+
+    /**
+     * A trust policy to the proxy forwarding client certificate.
+     *
+     * The same as the one of {@link HttpForwarding}. The certificate header is accepted only when the trust policy
+     * allows to trust the information provided by remote peer. I.e. when the local forwarding record containing remote
+     * address is trusted with {@link http-header-value/headers.js!HttpForwardTrustMask.TrustPrevious} flag.
+     *
+     * The proxy is not trusted by default.
+     */
+    readonly trust?: HttpForwardTrust | undefined;
+  }
+}
+
+/**
+ * @internal
+ */
+const HTTP_FORWARD_TRUST_PREVIOUS = 2; /* HttpForwardTrustMask.TrustPrevious */
+
+/**
+ * @internal
+ */
+class MtlsAuthCapability<TInput extends HttpMeans.Any>
+  extends RequestCapability<TInput, ClientCertificateMeans>
+  implements MtlsAuth<TInput>
+{
+  readonly #options: MtlsAuth.Options;
+  readonly #id: string | undefined;
+
+  constructor(options: MtlsAuth.Options, id?: string) {
+    super();
+    this.#options = options;
+    this.#id = id;
+  }
+
+  override get id(): string | undefined {
+    return this.#id;
+  }
+
+  for<TMeans extends TInput>(
+    handler: RequestHandler<TMeans & ClientCertificateMeans>,
+  ): RequestHandler<TMeans> {
+    return provideRequestCapability(this, handler, context => {
+      const clientCertificate = this.#certificate(context.request);
+
+      if (!isAllowedCertificate(clientCertificate, this.#options)) {
+        throw new HttpError(403, { details: 'Client certificate is not allowed' });
+      }
+
+      return context.next(
+        handler,
+        requestExtension<TMeans, ClientCertificateMeans>({ clientCertificate }),
+      );
+    });
+  }
+
+  #certificate(request: HttpMeans.Request): ClientCertificateMeans.Certificate {
+    const { header, trust } = this.#options;
+
+    if (header && isTrustedPeer(request, trust)) {
+      const value = request.headers[header.toLowerCase()];
+
+      if (typeof value !== 'string') {
+        throw new HttpError(401, { details: 'Client certificate required' });
+      }
+
+      let x509: X509Certificate;
+
+      try {
+        x509 = new X509Certificate(decodeURIComponent(value));
+      } catch (cause) {
+        throw new HttpError(401, { details: 'Invalid client certificate', cause });
+      }
+
+      return clientCertificate(x509, true);
+    }
+
+    const { socket } = request;
+    const x509 = socket instanceof TLSSocket ? socket.getPeerX509Certificate() : undefined;
+
+    if (!x509) {
+      throw new HttpError(401, { details: 'Client certificate required' });
+    }
+    if (!(socket as TLSSocket).authorized) {
+      throw new HttpError(401, { details: 'Untrusted client certificate' });
+    }
+
+    return clientCertificate(x509, false);
+  }
+
+  with(options: MtlsAuth.Options): MtlsAuth<TInput> {
+    return new MtlsAuthCapability(options);
+  }
+}
+
+/**
+ * @internal
+ */
+function isTrustedPeer(request: HttpMeans.Request, trust: HttpForwardTrust = {}): boolean {
+  const { for: ip, host, proto } = httpAddressDefaults(request);
+  const [peer] = hthvParse(
+    `for=${hthvQuote(ip)};host=${hthvQuote(host)};proto=${hthvQuote(proto)}`,
+  );
+
+  return !!(HttpForwardTrust.by(trust)(peer, 0) & HTTP_FORWARD_TRUST_PREVIOUS);
+}
+
+/**
+ * @internal
+ */
+function isAllowedCertificate(
+  { commonName, altNames }: ClientCertificateMeans.Certificate,
+  { subjects = [], altNames: allowedAltNames = [] }: MtlsAuth.Options,
+): boolean {
+  return (
+    (!subjects.length && !allowedAltNames.length) ||
+    (commonName != null && subjects.includes(commonName)) ||
+    altNames.some(altName => allowedAltNames.includes(altName))
+  );
+}
+
+/**
+ * @internal
+ */
+function clientCertificate(
+  x509: X509Certificate,
+  forwarded: boolean,
+): ClientCertificateMeans.Certificate {
+  const { subject, subjectAltName, fingerprint256 } = x509;
+  const commonName = subject
+    .split('\n')
+    .find(name => name.startsWith('CN='))
+    ?.slice(3);
+
+  return {
+    subject,
+    commonName,
+    altNames: subjectAltName ? subjectAltName.split(/, (?=[\w ]+:)/) : [],
+    fingerprint256,
+    forwarded,
+    x509,
+  };
+}
+
+/**
+ * Mutual TLS authentication capability.
+ *
+ * Allows any client certificate presented by TLS peer and signed by trusted CA. Can be
+ * {@link MtlsAuth.with configured} to restrict allowed certificates, or to accept the ones forwarded by trusted proxy.
+ */
+export const MtlsAuth: MtlsAuth = /*#__PURE__*/ new MtlsAuthCapability({}, 'MtlsAuth');
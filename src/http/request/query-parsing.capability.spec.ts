@@ -0,0 +1,139 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import { consoleLogger } from '@proc7ts/logger';
+import { noop } from '@proc7ts/primitives';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { Rendering } from '../render/rendering.capability.js';
+import {
+  arraySchema,
+  booleanSchema,
+  numberSchema,
+  objectSchema,
+  optionalSchema,
+  stringSchema,
+} from '../validation/schema-builders.js';
+import { validateQuery } from '../validation/validate-query.js';
+import { QueryParsing } from './query-parsing.capability.js';
+
+describe('QueryParsing', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  let logErrorSpy: jest.Mock<(...args: unknown[]) => void>;
+
+  beforeEach(() => {
+    logErrorSpy = jest.spyOn(consoleLogger, 'error').mockImplementation(noop) as typeof logErrorSpy;
+  });
+  afterEach(() => {
+    logErrorSpy.mockRestore();
+  });
+
+  beforeEach(() => {
+    server.handleBy(
+      Rendering.and(QueryParsing).for(({ requestQuery, renderJson }) => {
+        renderJson({ ids: requestQuery.getAll('id'), q: requestQuery.get('q') });
+      }),
+    );
+  });
+
+  it('represents query as URL search parameters', async () => {
+    const response = await server.get('/test?q=search&id=1&id=2');
+
+    expect(JSON.parse(await response.body())).toEqual({ ids: ['1', '2'], q: 'search' });
+  });
+  it('represents missing query as empty URL search parameters', async () => {
+    const response = await server.get('/test');
+
+    expect(JSON.parse(await response.body())).toEqual({ ids: [], q: null });
+  });
+  it('transforms query', async () => {
+    server.handleBy(
+      Rendering.and(QueryParsing.withQuery(params => ({ q: params.get('q') }))).for(
+        ({ requestQuery, renderJson }) => {
+          renderJson(requestQuery);
+        },
+      ),
+    );
+
+    const response = await server.get('/test?q=search');
+
+    expect(JSON.parse(await response.body())).toEqual({ q: 'search' });
+  });
+
+  describe('with validation', () => {
+    beforeEach(() => {
+      server.handleBy(
+        Rendering.and(
+          QueryParsing.withQuery(
+            validateQuery(
+              objectSchema({
+                id: arraySchema(numberSchema({ integer: true, coerce: true }), { coerce: true }),
+                q: optionalSchema(stringSchema()),
+                exact: optionalSchema(booleanSchema({ coerce: true })),
+              }),
+            ),
+          ),
+        ).for(({ requestQuery, renderJson }) => {
+          const ids: number[] = requestQuery.id;
+
+          renderJson({ ...requestQuery, ids });
+        }),
+      );
+    });
+
+    it('converts query parameters', async () => {
+      const response = await server.get('/test?id=1&id=2&q=search&exact=true');
+
+      expect(JSON.parse(await response.body())).toEqual({
+        id: [1, 2],
+        ids: [1, 2],
+        q: 'search',
+        exact: true,
+      });
+    });
+    it('converts single parameter to array', async () => {
+      const response = await server.get('/test?id=13');
+
+      expect(JSON.parse(await response.body())).toEqual({ id: [13], ids: [13] });
+    });
+    it('responds with 400 (Bad Request) when query is invalid', async () => {
+      const response = await server.get('/test?id=1&id=wrong&q=a&q=b&exact=yes', {
+        headers: { accept: 'application/json' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(await response.body())).toEqual({
+        error: {
+          code: 400,
+          message: 'Bad Request',
+          details: 'Invalid request query',
+          issues: [
+            { path: 'id[1]', message: 'Expected number' },
+            { path: 'q', message: 'Expected string' },
+            { path: 'exact', message: 'Expected boolean' },
+          ],
+        },
+      });
+    });
+    it('responds with 400 (Bad Request) when required parameter is missing', async () => {
+      const response = await server.get('/test');
+
+      expect(response.statusCode).toBe(400);
+      expect(await response.body()).toContain('<li><code>id</code>: Required</li>');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { asis } from '@proc7ts/primitives';
+import { URLSearchParams } from 'node:url';
+import { RequestCapability } from '../../core/request-capability.js';
+import { RequestContext } from '../../core/request-context.js';
+import { RequestHandler } from '../../core/request-handler.js';
+import { requestExtension } from '../../core/request-modification.js';
+import { RequestValueTransformer } from '../../core/request-value-transformer.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
+import { HttpMeans } from '../http.means.js';
+import { QueryMeans } from './query.means.js';
+
+/**
+ * URL query parsing capability.
+ *
+ * Represents query parameters of {@link HttpMeans.Addresses.url request URL} as a {@link QueryMeans.requestQuery
+ * request query} of type `URLSearchParams`, or optionally transforms it to another type.
+ *
+ * The query may be validated and converted by {@link validateQuery} transformer. The latter responds with 400 (Bad
+ * Request) status code if request query is invalid.
+ *
+ * @typeParam TInput - Input HTTP request processing means.
+ * @typeParam TQuery - Request query type.
+ */
+export interface QueryParsing<
+  TInput extends HttpMeans.Any = HttpMeans.Any,
+  TQuery = URLSearchParams,
+> extends RequestCapability<TInput, QueryMeans<TQuery>> {
+  /**
+   * Configures query parsing capability to transform request query.
+   *
+   * @typeParam TMeans - HTTP request processing means.
+   * @typeParam TTransformed - Transformed request query type.
+   * @param transformer - Transformer function.
+   *
+   * @returns New query parsing capability.
+   */
+  withQuery<TMeans extends TInput, TTransformed>(
+    transformer: RequestValueTransformer<TMeans, URLSearchParams, TTransformed>,
+  ): QueryParsing<TMeans, TTransformed>;
+}
+
+/**
+ * @internal
+ */
+class QueryParsingCapability<TInput extends HttpMeans.Any, TQuery>
+  extends RequestCapability<TInput, QueryMeans<TQuery>>
+  implements QueryParsing<TInput, TQuery>
+{
+  readonly #transform: RequestValueTransformer<TInput, URLSearchParams, TQuery>;
+  readonly #id: string | undefined;
+
+  constructor(transform: RequestValueTransformer<TInput, URLSearchParams, TQuery>, id?: string) {
+    super();
+    this.#transform = transform;
+    this.#id = id;
+  }
+
+  override get id(): string | undefined {
+    return this.#id;
+  }
+
+  for<TMeans extends TInput>(
+    handler: RequestHandler<TMeans & QueryMeans<TQuery>>,
+  ): RequestHandler<TMeans> {
+    return provideRequestCapability(this, handler, async context => {
+      const params = new URLSearchParams(context.requestAddresses.url.search);
+
+      return context.next(
+        handler,
+        requestExtension<TMeans, QueryMeans<TQuery>>({
+          requestQuery: await this.#transform(params, context as RequestContext<TInput>),
+        }),
+      );
+    });
+  }
+
+  withQuery<TMeans extends TInput, TTransformed>(
+    transformer: RequestValueTransformer<TMeans, URLSearchParams, TTransformed>,
+  ): QueryParsing<TMeans, TTransformed> {
+    return new QueryParsingCapability<TMeans, TTransformed>(transformer);
+  }
+}
+
+/**
+ * URL query parsing capability.
+ *
+ * Represents query parameters of request URL as a {@link QueryMeans.requestQuery request query} of type
+ * `URLSearchParams`.
+ */
+export const QueryParsing: QueryParsing = /*#__PURE__*/ new QueryParsingCapability(
+  asis,
+  'QueryParsing',
+);
@@ -0,0 +1,13 @@
+import { URLSearchParams } from 'node:url';
+
+/**
+ * HTTP request query processing means.
+ *
+ * @typeParam TQuery - A type of request query.
+ */
+export interface QueryMeans<TQuery = URLSearchParams> {
+  /**
+   * Request query.
+   */
+  readonly requestQuery: TQuery;
+}
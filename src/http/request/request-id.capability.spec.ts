@@ -0,0 +1,186 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from '@jest/globals';
+import { silentLogger } from '@proc7ts/logger';
+import { noop } from '@proc7ts/primitives';
+import { jsonLogger } from '../../core/logging/json-logger.js';
+import { Logging } from '../../core/logging/logging.capability.js';
+import { RequestLogger } from '../../core/logging/request-logger.js';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { HttpError } from '../http-error.js';
+import { HttpLogging } from '../logging/http-logging.capability.js';
+import { Rendering } from '../render/rendering.capability.js';
+import { RequestId } from './request-id.capability.js';
+
+describe('RequestId', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.listenBy(noop);
+  });
+
+  function handleBy(requestId: RequestId): void {
+    server.handleBy(
+      requestId.and(Rendering).for(({ requestId, renderJson }) => {
+        renderJson({ requestId });
+      }),
+    );
+  }
+
+  it('generates request identifier', async () => {
+    handleBy(RequestId);
+
+    const response = await server.get('/test', { headers: { 'x-request-id': 'incoming' } });
+    const { requestId } = JSON.parse(await response.body()) as { requestId: string };
+
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.headers['x-request-id']).toBe(requestId);
+  });
+  it('generates request identifier by custom generator', async () => {
+    handleBy(RequestId.with({ generate: () => 'generated' }));
+
+    const response = await server.get('/test');
+
+    expect(JSON.parse(await response.body())).toEqual({ requestId: 'generated' });
+    expect(response.headers['x-request-id']).toBe('generated');
+  });
+  it('uses trusted incoming request identifier', async () => {
+    handleBy(RequestId.with({ trusted: true, header: 'X-Correlation-Id' }));
+
+    const response = await server.get('/test', { headers: { 'x-correlation-id': 'incoming' } });
+
+    expect(JSON.parse(await response.body())).toEqual({ requestId: 'incoming' });
+    expect(response.headers['x-correlation-id']).toBe('incoming');
+  });
+  it('ignores invalid incoming request identifier', async () => {
+    handleBy(RequestId.with({ trusted: true, generate: () => 'generated' }));
+
+    const response = await server.get('/test', {
+      headers: { 'x-request-id': 'x'.repeat(201) },
+    });
+
+    expect(JSON.parse(await response.body())).toEqual({ requestId: 'generated' });
+  });
+  it('is applied once', async () => {
+    let counter = 0;
+
+    server.handleBy(
+      RequestId.with({ generate: () => `id-${++counter}` }).for(
+        RequestId.and(Rendering).for(({ requestId, renderJson }) => {
+          renderJson({ requestId });
+        }),
+      ),
+    );
+
+    expect(JSON.parse(await (await server.get('/test')).body())).toEqual({ requestId: 'id-1' });
+  });
+  it('is applied once per header', async () => {
+    let counter = 0;
+
+    server.handleBy(
+      RequestId.with({ generate: () => `id-${++counter}` }).for(
+        RequestId.with({ header: 'X-Correlation-Id', generate: () => `correlation-${++counter}` })
+          .and(Rendering)
+          .for(({ requestId, renderJson }) => {
+            renderJson({ requestId });
+          }),
+      ),
+    );
+
+    const response = await server.get('/test');
+
+    expect(JSON.parse(await response.body())).toEqual({ requestId: 'correlation-2' });
+    expect(response.headers['x-request-id']).toBe('id-1');
+    expect(response.headers['x-correlation-id']).toBe('correlation-2');
+  });
+  it('prefixes request logger', async () => {
+    const logged: unknown[][] = [];
+    const log: RequestLogger = { ...silentLogger, info: (...args) => logged.push(args) };
+
+    server.handleBy(
+      Logging.logBy(log)
+        .and(RequestId.with({ generate: () => 'test-id' }))
+        .for(({ log, response }) => {
+          log.info('Hello');
+          response.end();
+        }),
+    );
+
+    await (await server.get('/test')).body();
+
+    expect(logged).toEqual([['[test-id]', 'Hello']]);
+  });
+  it('binds request identifier to structured logger', async () => {
+    const lines: string[] = [];
+
+    server.handleBy(
+      HttpLogging.logBy(jsonLogger({ write: line => lines.push(line) }))
+        .and(RequestId.with({ generate: () => 'test-id' }))
+        .for(({ log, response }) => {
+          log.info('Hello');
+          response.end();
+        }),
+    );
+
+    await (await server.get('/test')).body();
+
+    expect(JSON.parse(lines[0])).toMatchObject({ requestId: 'test-id', msg: 'Hello' });
+  });
+  it('binds request identifier to HTTP request logger', async () => {
+    const lines: string[] = [];
+
+    server.handleBy(
+      RequestId.with({ generate: () => 'test-id' })
+        .and(HttpLogging.logBy(jsonLogger({ write: line => lines.push(line) })))
+        .for(({ log, response }) => {
+          log.info('Hello');
+          response.end();
+        }),
+    );
+
+    await (await server.get('/test')).body();
+
+    expect(JSON.parse(lines[0])).toMatchObject({ requestId: 'test-id', msg: 'Hello' });
+  });
+
+  describe('error page', () => {
+    function handleErrorsBy(requestId: RequestId): void {
+      server.handleBy(
+        {
+          handleBy(handler) {
+            return Logging.logBy(silentLogger).and(requestId).for(handler);
+          },
+        },
+        () => {
+          throw new HttpError(404, { details: 'Not <Here>' });
+        },
+      );
+    }
+
+    it('contains request identifier in JSON', async () => {
+      handleErrorsBy(RequestId.with({ generate: () => 'test-id' }));
+
+      const response = await server.get('/test', { headers: { accept: 'application/json' } });
+
+      expect(response.statusCode).toBe(404);
+      expect(JSON.parse(await response.body())).toEqual({
+        error: { code: 404, message: 'Not Found', details: 'Not <Here>', requestId: 'test-id' },
+      });
+    });
+    it('contains request identifier in HTML', async () => {
+      handleErrorsBy(RequestId.with({ trusted: true }));
+
+      const response = await server.get('/test', { headers: { 'x-request-id': '<test-id>' } });
+
+      expect(response.statusCode).toBe(404);
+      expect(await response.body()).toContain(
+        'Not &lt;Here&gt;\n<p>Request ID: <code>&lt;test-id&gt;</code></p>\n',
+      );
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { randomUUID } from 'node:crypto';
+import type { JsonLogger } from '../../core/logging/json-logger.js';
+import type { LoggerMeans } from '../../core/logging/logger.means.js';
+import type { RequestLogger } from '../../core/logging/request-logger.js';
+import { RequestCapability } from '../../core/request-capability.js';
+import type { RequestHandler } from '../../core/request-handler.js';
+import { requestExtension } from '../../core/request-modification.js';
+import { prefixRequestLogger } from '../../impl/prefix-request-logger.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
+import type { HttpMeans } from '../http.means.js';
+import type { RequestIdMeans } from './request-id.means.js';
+
+/**
+ * Request identification capability.
+ *
+ * Takes request identifier from incoming request header when trusted, or generates a new one otherwise. Sends the
+ * identifier back in the response header with the same name.
+ *
+ * If {@link LoggerMeans logger means} present in request context, then the logger is replaced with the one bound to
+ * request identifier. The {@link JsonLogger structured logger} gets a `requestId` field bound, while any other logger
+ * prefixes each log line with request identifier.
+ *
+ * The identifier is also reported on error pages. For that, this capability has to be applied to the whole request
+ * processing, e.g. by {@link HttpConfig.handleBy} option.
+ *
+ * Provides {@link RequestIdMeans request identification means} for handlers.
+ *
+ * Capabilities using the same {@link RequestId.Options.header header} are applied once. A nested capability using
+ * another header is applied too, and replaces request identifier.
+ *
+ * @typeParam TInput - Input HTTP request processing means.
+ */
+export interface RequestId<TInput extends HttpMeans.Any = HttpMeans.Any> extends RequestCapability<
+  TInput,
+  RequestIdMeans
+> {
+  /**
+   * Configures request identification capability.
+   *
+   * @param options - Request identification options.
+   *
+   * @returns New request identification capability.
+   */
+  with(options: RequestId.Options): RequestId<TInput>;
+}
+
+export namespace RequestId {
+  /**
+   * Request identification options.
+   */
+  export interface Options {
+    /**
+     * The name of HTTP header containing request identifier.
+     *
+     * @default `X-Request-Id`.
+     */
+    readonly header?: string | undefined;
+
+    /**
+     * Whether to trust incoming request identifier.
+     *
+     * Even trusted identifier is ignored unless it consists of up to 200 visible ASCII characters.
+     *
+     * @default `false`.
+     */
+    readonly trusted?: boolean | undefined;
+
+    /**
+     * Generates new request identifier.
+     *
+     * @default `crypto.randomUUID`.
+     */
+    generate?(this: void): string;
+  }
+}
+
+/**
+ * @internal
+ */
+const REQUEST_ID_PATTERN = /^[\x21-\x7e]{1,200}$/;
+
+/**
+ * @internal
+ */
+class RequestIdCapability<TInput extends HttpMeans.Any>
+  extends RequestCapability<TInput, RequestIdMeans>
+  implements RequestId<TInput>
+{
+  readonly #options: RequestId.Options;
+  readonly #id: string;
+
+  constructor(options: RequestId.Options) {
+    super();
+    this.#options = options;
+
+    const { header = 'X-Request-Id' } = options;
+
+    this.#id = `RequestId:${header.toLowerCase()}`;
+  }
+
+  override get id(): string {
+    return this.#id;
+  }
+
+  for<TMeans extends TInput>(
+    handler: RequestHandler<TMeans & RequestIdMeans>,
+  ): RequestHandler<TMeans> {
+    return provideRequestCapability(this, handler, context => {
+      const { header = 'X-Request-Id', trusted = false, generate = randomUUID } = this.#options;
+      const { request, response } = context;
+      const { log } = context as Partial<LoggerMeans>;
+      const incoming = trusted ? request.headers[header.toLowerCase()] : undefined;
+      const requestId =
+        typeof incoming === 'string' && REQUEST_ID_PATTERN.test(incoming) ? incoming : generate();
+
+      response.setHeader(header, requestId);
+
+      const modification: RequestIdMeans & Partial<LoggerMeans> = log
+        ? { requestId, log: requestIdLogger(log, requestId) }
+        : { requestId };
+
+      return context.next(handler, requestExtension<TMeans, RequestIdMeans>(modification));
+    });
+  }
+
+  with(options: RequestId.Options): RequestId<TInput> {
+    return new RequestIdCapability(options);
+  }
+}
+
+/**
+ * @internal
+ */
+function requestIdLogger(log: RequestLogger, requestId: string): RequestLogger {
+  const { child } = log as Partial<JsonLogger>;
+
+  return typeof child === 'function'
+    ? child.call(log, { requestId })
+    : prefixRequestLogger(log, `[${requestId}]`);
+}
+
+/**
+ * Request identification capability.
+ *
+ * Generates new request identifier for each request and sends it in `X-Request-Id` response header. Can be
+ * {@link RequestId.with configured} to trust incoming request identifier or to use another header.
+ */
+export const RequestId: RequestId = /*#__PURE__*/ new RequestIdCapability({});
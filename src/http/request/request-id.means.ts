@@ -0,0 +1,13 @@
+/**
+ * Request identification means.
+ *
+ * Provided by {@link RequestId} capability.
+ */
+export interface RequestIdMeans {
+  /**
+   * Request identifier.
+   *
+   * Can be used to correlate log records and error reports related to the same request.
+   */
+  readonly requestId: string;
+}
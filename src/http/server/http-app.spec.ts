@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { noop } from '@proc7ts/primitives';
+import { request as httpRequest, IncomingMessage, RequestListener } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { readAll } from '../../impl/read-all.js';
+import { TEST_CA_CERT, TEST_SERVER_CERT, TEST_SERVER_KEY } from '../../spec/test-certificates.js';
+import { HttpApp } from './http-app.js';
+
+describe('HttpApp', () => {
+  let app: HttpApp | undefined;
+
+  afterEach(async () => {
+    await app?.close(0);
+    app = undefined;
+  });
+
+  const listener: RequestListener = (request, response) => {
+    response.end(`${request.url} over ${request.socket.localPort ?? 'socket'}`);
+  };
+
+  async function get(
+    options: { port?: number; socketPath?: string; secure?: boolean },
+    path = '/test',
+  ): Promise<string> {
+    const { secure, ...target } = options;
+    const response = await new Promise<IncomingMessage>((resolve, reject) => {
+      (secure ? httpsRequest : httpRequest)(
+        { host: '127.0.0.1', ...target, path, agent: false, ca: TEST_CA_CERT },
+        resolve,
+      )
+        .on('error', reject)
+        .end();
+    });
+
+    return await readAll(response);
+  }
+
+  it('listens on random port by default', async () => {
+    app = new HttpApp({}, listener);
+
+    expect(app.address).toBeUndefined();
+    expect(app.addresses).toEqual([]);
+
+    await app.listen();
+
+    const { port } = app.address as AddressInfo;
+
+    expect(port).toBeGreaterThan(0);
+    expect(await get({ port })).toBe(`/test over ${port}`);
+  });
+  it('listens on multiple bindings', async () => {
+    app = new HttpApp(
+      {
+        listen: [
+          { port: 0, host: '127.0.0.1' },
+          { port: 0, host: '127.0.0.1', tls: { key: TEST_SERVER_KEY, cert: TEST_SERVER_CERT } },
+        ],
+      },
+      listener,
+    );
+
+    expect(await app.listen()).toBe(app);
+    expect(app.servers).toHaveLength(2);
+
+    const [{ port: httpPort }, { port: httpsPort }] = app.addresses as AddressInfo[];
+
+    expect(await get({ port: httpPort })).toBe(`/test over ${httpPort}`);
+    expect(await get({ port: httpsPort, secure: true })).toBe(`/test over ${httpsPort}`);
+  });
+  it('listens on Unix socket', async () => {
+    const path = join(tmpdir(), `hatsy-${process.pid}-${Date.now()}.sock`);
+
+    app = new HttpApp({ listen: { path } }, listener);
+    await app.listen();
+
+    expect(app.address).toBe(path);
+    expect(await get({ socketPath: path })).toBe('/test over socket');
+  });
+  it('starts listening only once', async () => {
+    app = new HttpApp({ listen: { port: 0, host: '127.0.0.1' } }, listener);
+
+    expect(app.listen()).toBe(app.listen());
+    await app.listen();
+  });
+  it('emits lifecycle events', async () => {
+    app = new HttpApp({ listen: { port: 0, host: '127.0.0.1' } }, listener);
+
+    const events: string[] = [];
+
+    app.on('listening', () => events.push('listening'));
+    app.on('closing', () => events.push('closing'));
+    app.on('close', () => events.push('close'));
+
+    await app.listen();
+    expect(events).toEqual(['listening']);
+    expect(app.draining).toBe(false);
+
+    const whenClosed = app.close();
+
+    expect(app.close()).toBe(whenClosed);
+    expect(app.draining).toBe(true);
+    expect(events).toEqual(['listening', 'closing']);
+
+    await whenClosed;
+    expect(events).toEqual(['listening', 'closing', 'close']);
+    expect(app.servers[0].listening).toBe(false);
+  });
+  it('serves requests during drain delay', async () => {
+    app = new HttpApp({ listen: { port: 0, host: '127.0.0.1' }, drainDelay: 50 }, listener);
+    await app.listen();
+
+    const { port } = app.address as AddressInfo;
+    const whenClosed = app.close();
+
+    expect(app.draining).toBe(true);
+    expect(await get({ port })).toBe(`/test over ${port}`);
+
+    await whenClosed;
+    expect(app.servers[0].listening).toBe(false);
+  });
+  it('reports server errors', async () => {
+    app = new HttpApp({ listen: { port: 0, host: '127.0.0.1' } }, listener);
+
+    const onError = jest.fn();
+    const error = new Error('Test');
+
+    app.on('error', onError);
+    await app.listen();
+    app.servers[0].emit('error', error);
+
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+  it('closes other servers when one of them failed to listen', async () => {
+    const other = new HttpApp({ listen: { port: 0, host: '127.0.0.1' } }, noop);
+
+    await other.listen();
+
+    const { port } = other.address as AddressInfo;
+
+    app = new HttpApp(
+      {
+        listen: [
+          { port: 0, host: '127.0.0.1' },
+          { port, host: '127.0.0.1' },
+        ],
+      },
+      listener,
+    );
+
+    try {
+      await expect(app.listen()).rejects.toMatchObject({ code: 'EADDRINUSE' });
+      expect(app.servers[0].listening).toBe(false);
+      expect(app.addresses).toEqual([]);
+    } finally {
+      await other.close();
+    }
+  });
+});
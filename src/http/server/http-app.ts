@@ -0,0 +1,291 @@
+import { EventEmitter } from 'node:events';
+import { createServer as createHttpServer, RequestListener, Server as HttpServer } from 'node:http';
+import {
+  createServer as createHttpsServer,
+  Server as HttpsServer,
+  ServerOptions as HttpsServerOptions,
+} from 'node:https';
+import type { AddressInfo } from 'node:net';
+import { HttpDrain, httpDrain } from './http-drain.js';
+
+/**
+ * HTTP application.
+ *
+ * Serves HTTP requests by the given listener on one or more {@link HttpApp.Binding bindings}. Each binding is served
+ * by its own HTTP or HTTPS server. So, it is possible to accept both HTTP and HTTPS requests side by side.
+ *
+ * The application is not listening initially. It starts to listen when {@link listen} method called.
+ *
+ * Emits the following lifecycle events:
+ *
+ * - `listening` - when all servers started to listen,
+ * - `closing` - when the application started to {@link close},
+ * - `close` - when all servers drained and closed,
+ * - `error` - when some server failed after it started to listen.
+ *
+ * Consider to use {@link httpServer} function to create and start HTTP application.
+ */
+export class HttpApp extends EventEmitter<HttpApp.EventMap> {
+  /**
+   * @internal
+   */
+  readonly #bindings: readonly HttpApp.Binding[];
+
+  /**
+   * @internal
+   */
+  readonly #servers: readonly HttpApp.Server[];
+
+  /**
+   * @internal
+   */
+  readonly #drains: readonly HttpDrain[];
+
+  /**
+   * @internal
+   */
+  #whenListening?: Promise<this>;
+
+  /**
+   * @internal
+   */
+  #whenClosed?: Promise<void>;
+
+  /**
+   * Constructs HTTP application.
+   *
+   * @param options - HTTP application options.
+   * @param listener - HTTP request listener. E.g. the one created by {@link httpListener} function.
+   */
+  constructor(options: HttpApp.Options, listener: RequestListener) {
+    super();
+
+    const { listen = {}, drainTimeout, drainDelay } = options;
+
+    this.#bindings = Array.isArray(listen)
+      ? (listen as readonly HttpApp.Binding[])
+      : [listen as HttpApp.Binding];
+    this.#servers = this.#bindings.map(({ tls }) =>
+      tls ? createHttpsServer(tls, listener) : createHttpServer(listener),
+    );
+    this.#drains = this.#servers.map(server =>
+      httpDrain(server, { timeout: drainTimeout, delay: drainDelay }),
+    );
+  }
+
+  /**
+   * HTTP servers serving the application.
+   *
+   * Contains one server per each binding in the same order.
+   */
+  get servers(): readonly HttpApp.Server[] {
+    return this.#servers;
+  }
+
+  /**
+   * Addresses the application is bound to.
+   *
+   * Contains either network address, or Unix socket path per each listening server.
+   */
+  get addresses(): readonly (AddressInfo | string)[] {
+    const addresses: (AddressInfo | string)[] = [];
+
+    for (const server of this.#servers) {
+      const address = server.address();
+
+      if (address) {
+        addresses.push(address);
+      }
+    }
+
+    return addresses;
+  }
+
+  /**
+   * An address of the first binding of the application, or `undefined` when not listening.
+   */
+  get address(): AddressInfo | string | undefined {
+    return this.addresses[0];
+  }
+
+  /**
+   * Whether the application is closing or closed already.
+   *
+   * Becomes `true` once {@link close} method called.
+   */
+  get draining(): boolean {
+    return !!this.#whenClosed;
+  }
+
+  /**
+   * Starts listening for requests on all bindings.
+   *
+   * When some of the servers failed to start, closes the others once they started.
+   *
+   * Starts listening only once. Subsequent calls return the same promise.
+   *
+   * @returns A promise resolved to `this` instance when all servers started to listen, or rejected when some of them
+   * failed to.
+   */
+  listen(): Promise<this> {
+    if (!this.#whenListening) {
+      this.#whenListening = this.#listen();
+    }
+
+    return this.#whenListening;
+  }
+
+  /**
+   * @internal
+   */
+  async #listen(): Promise<this> {
+    const results = await Promise.allSettled(
+      this.#servers.map((server, index) => listenHttp(server, this.#bindings[index])),
+    );
+    const failure = results.find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected',
+    );
+
+    if (failure) {
+      await Promise.all(this.#drains.map(drain => drain.drain(0)));
+
+      throw failure.reason;
+    }
+
+    this.#servers.forEach(server => {
+      server.on('error', error => this.emit('error', error));
+    });
+    this.emit('listening');
+
+    return this;
+  }
+
+  /**
+   * Closes the application.
+   *
+   * {@link HttpDrain.drain Drains} all servers. I.e. stops accepting new connections after
+   * {@link HttpApp.Options.drainDelay drain delay} and lets in-flight requests finish.
+   *
+   * Closes the application only once. Subsequent calls return the same promise.
+   *
+   * @param timeout - The time to wait for in-flight requests to finish, in milliseconds. Defaults to
+   * {@link HttpApp.Options.drainTimeout drain timeout} specified in application options.
+   *
+   * @returns A promise resolved when all servers closed.
+   */
+  close(timeout?: number): Promise<void> {
+    if (!this.#whenClosed) {
+      this.emit('closing');
+      this.#whenClosed = Promise.all(this.#drains.map(drain => drain.drain(timeout))).then(() => {
+        this.emit('close');
+      });
+    }
+
+    return this.#whenClosed;
+  }
+}
+
+export namespace HttpApp {
+  /**
+   * HTTP server serving the application.
+   */
+  export type Server = HttpServer | HttpsServer;
+
+  /**
+   * HTTP application options.
+   */
+  export interface Options {
+    /**
+     * Either a binding, or an array of bindings to listen on.
+     *
+     * @default Random port on all network interfaces.
+     */
+    readonly listen?: Binding | readonly Binding[] | undefined;
+
+    /**
+     * The time to wait for in-flight requests to finish when closing the application, in milliseconds.
+     *
+     * @default 10 seconds.
+     */
+    readonly drainTimeout?: number | undefined;
+
+    /**
+     * The time to keep accepting new connections after the application started to close, in milliseconds.
+     *
+     * The application is {@link HttpApp.draining draining} during this time, so that readiness
+     * {@link healthCheck health check} fails while requests are still served.
+     *
+     * @default 0.
+     */
+    readonly drainDelay?: number | undefined;
+  }
+
+  /**
+   * HTTP application binding.
+   *
+   * Either a network address, or a Unix socket path to listen on.
+   */
+  export interface Binding {
+    /**
+     * Port number to listen on.
+     *
+     * Random port is used when omitted or set to `0`, unless {@link path} specified.
+     */
+    readonly port?: number | undefined;
+
+    /**
+     * Host name or IP address to listen on.
+     *
+     * Listens on all network interfaces when omitted.
+     */
+    readonly host?: string | undefined;
+
+    /**
+     * Unix socket path to listen on.
+     *
+     * Ignored when {@link port} specified.
+     */
+    readonly path?: string | undefined;
+
+    /**
+     * The maximum length of the queue of pending connections.
+     */
+    readonly backlog?: number | undefined;
+
+    /**
+     * HTTPS server options.
+     *
+     * HTTPS server is created for this binding when specified. Otherwise, plain HTTP server is created.
+     */
+    readonly tls?: HttpsServerOptions | undefined;
+  }
+
+  /**
+   * HTTP application events.
+   */
+  export interface EventMap {
+    listening: [];
+    closing: [];
+    close: [];
+    error: [error: Error];
+  }
+}
+
+/**
+ * @internal
+ */
+function listenHttp(
+  server: HttpApp.Server,
+  { port, host, path, backlog }: HttpApp.Binding,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(
+      path != null && port == null ? { path, backlog } : { port, host, backlog },
+      () => {
+        server.off('error', reject);
+        resolve();
+      },
+    );
+  });
+}
@@ -0,0 +1,262 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { noop } from '@proc7ts/primitives';
+import { Agent, createServer, IncomingMessage, request, Server, ServerResponse } from 'node:http';
+import { connect as connectHttp2, createServer as createHttp2Server } from 'node:http2';
+import { connect, Socket } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { readAll } from '../../impl/read-all.js';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { TestHttp2Server } from '../../testing/test-http2-server.js';
+import { HttpDrain, httpDrain } from './http-drain.js';
+
+describe('httpDrain', () => {
+  let server: Server;
+  let drain: HttpDrain;
+  let requests: { request: IncomingMessage; response: ServerResponse }[];
+  let whenRequested: Promise<void>;
+  let agent: Agent;
+
+  beforeEach(async () => {
+    requests = [];
+
+    let requested!: () => void;
+
+    whenRequested = new Promise(resolve => {
+      requested = resolve;
+    });
+    server = createServer((request, response) => {
+      requests.push({ request, response });
+      requested();
+    });
+    drain = httpDrain(server, { timeout: 5_000 });
+    agent = new Agent({ keepAlive: true });
+    await new Promise<void>(resolve => server.listen({ port: 0, host: '127.0.0.1' }, resolve));
+  });
+  afterEach(async () => {
+    agent.destroy();
+    await drain.drain(0);
+  });
+
+  function get(path = '/test'): Promise<IncomingMessage> {
+    const { port } = server.address() as AddressInfo;
+
+    return new Promise((resolve, reject) => {
+      request({ host: '127.0.0.1', port, path, agent }, resolve).on('error', reject).end();
+    });
+  }
+
+  it('closes idle keep-alive connections', async () => {
+    const whenResponded = get();
+
+    await whenRequested;
+    requests[0].response.end('TEST');
+
+    const response = await whenResponded;
+
+    expect(response.headers.connection).toBe('keep-alive');
+    expect(await readAll(response)).toBe('TEST');
+    expect(drain.draining).toBe(false);
+    expect(drain.inFlight).toBe(0);
+
+    await drain.drain();
+
+    expect(drain.draining).toBe(true);
+    expect(server.listening).toBe(false);
+  });
+  it('lets in-flight requests finish', async () => {
+    const whenResponded = get();
+
+    await whenRequested;
+    expect(drain.inFlight).toBe(1);
+
+    let drained = false;
+    const whenDrained = drain.drain().then(() => {
+      drained = true;
+    });
+
+    expect(drain.drain()).toBe(drain.drain());
+    expect(server.listening).toBe(false);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(drained).toBe(false);
+
+    requests[0].response.end('TEST');
+
+    const response = await whenResponded;
+
+    expect(response.headers.connection).toBe('close');
+    expect(await readAll(response)).toBe('TEST');
+
+    await whenDrained;
+    expect(drain.inFlight).toBe(0);
+  });
+  it('closes connection after in-flight response with headers sent', async () => {
+    const whenResponded = get();
+
+    await whenRequested;
+    requests[0].response.writeHead(200, { 'Content-Length': 4 });
+    requests[0].response.write('TE');
+
+    const whenDrained = drain.drain();
+    const response = await whenResponded;
+
+    expect(response.headers.connection).toBe('keep-alive');
+
+    requests[0].response.end('ST');
+    expect(await readAll(response)).toBe('TEST');
+
+    await whenDrained;
+  });
+  it('closes connection after request received while draining', async () => {
+    const { port } = server.address() as AddressInfo;
+    const socket = await new Promise<Socket>(resolve => {
+      const socket: Socket = connect(port, '127.0.0.1', () => resolve(socket));
+    });
+    const received: string[] = [];
+
+    socket.on('data', chunk => received.push(String(chunk)));
+    socket.write('GET /first HTTP/1.1\r\nHost: localhost\r\n\r\n');
+    await whenRequested;
+
+    const whenDrained = drain.drain();
+
+    socket.write('GET /second HTTP/1.1\r\nHost: localhost\r\n\r\n');
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(requests.map(({ request }) => request.url)).toEqual(['/first', '/second']);
+    expect(requests[1].response.getHeader('connection')).toBe('close');
+
+    const whenClosed = new Promise(resolve => socket.once('close', resolve));
+
+    requests[0].response.end('TEST');
+    await whenDrained;
+    await whenClosed;
+    expect(received.join('')).toContain('Connection: close');
+  });
+  it('aborts requests when timeout expires', async () => {
+    const whenFailed = expect(get()).rejects.toThrow('socket hang up');
+
+    await whenRequested;
+
+    const whenClosed = new Promise<boolean>(resolve => {
+      requests[0].response.once('close', () => resolve(requests[0].response.writableFinished));
+    });
+
+    await drain.drain(10);
+
+    expect(await whenClosed).toBe(false);
+    await whenFailed;
+  });
+  it('resolves when server is not running', async () => {
+    await drain.drain(0);
+    await expect(httpDrain(server).drain()).resolves.toBeUndefined();
+  });
+  it('keeps accepting connections during delay', async () => {
+    const delayed = httpDrain(server, { timeout: 5_000, delay: 50 });
+    const whenDrained = delayed.drain();
+
+    expect(delayed.draining).toBe(true);
+    expect(server.listening).toBe(true);
+
+    const whenResponded = get();
+
+    await whenRequested;
+    requests[0].response.end('TEST');
+
+    const response = await whenResponded;
+
+    expect(response.headers.connection).toBe('close');
+    expect(await readAll(response)).toBe('TEST');
+    expect(server.listening).toBe(true);
+
+    await whenDrained;
+    expect(server.listening).toBe(false);
+  });
+  it('does not delay when server is not running', async () => {
+    await drain.drain(0);
+    await expect(httpDrain(server, { delay: 60_000 }).drain()).resolves.toBeUndefined();
+  });
+
+  describe('HTTP/2', () => {
+    it('lets in-flight requests finish', async () => {
+      const http2Server = createHttp2Server();
+      const http2Drain = httpDrain(http2Server, { timeout: 5_000 });
+      let respond!: () => void;
+
+      http2Server.on('request', (_request, response) => {
+        respond = () => response.end('TEST');
+      });
+      await new Promise<void>(resolve =>
+        http2Server.listen({ port: 0, host: '127.0.0.1' }, resolve),
+      );
+
+      const { port } = http2Server.address() as AddressInfo;
+      const session = connectHttp2(`http://127.0.0.1:${port}`);
+      const stream = session.request({ ':path': '/test' });
+      const whenResponded = new Promise<void>(resolve => stream.once('response', () => resolve()));
+
+      stream.end();
+      await new Promise<void>(resolve => http2Server.once('request', () => resolve()));
+
+      expect(http2Drain.inFlight).toBe(1);
+
+      const whenDrained = http2Drain.drain();
+
+      respond();
+      await whenResponded;
+      expect(await readAll(stream)).toBe('TEST');
+      await whenDrained;
+      expect(session.closed || session.destroyed).toBe(true);
+    });
+    it('aborts requests when timeout expires', async () => {
+      const http2Server = createHttp2Server();
+      const http2Drain = httpDrain(http2Server);
+
+      http2Server.on('request', noop);
+      await new Promise<void>(resolve =>
+        http2Server.listen({ port: 0, host: '127.0.0.1' }, resolve),
+      );
+
+      const { port } = http2Server.address() as AddressInfo;
+      const session = connectHttp2(`http://127.0.0.1:${port}`);
+
+      session.on('error', noop);
+
+      const stream = session.request({ ':path': '/test' });
+
+      stream.on('error', noop);
+      stream.end();
+      await new Promise<void>(resolve => http2Server.once('request', () => resolve()));
+
+      await http2Drain.drain(10);
+
+      expect(http2Drain.inFlight).toBe(0);
+      session.destroy();
+    });
+  });
+
+  describe('test servers', () => {
+    it('stops TestHttpServer with idle keep-alive connections', async () => {
+      const testServer = await TestHttpServer.start();
+
+      testServer.listenBy((_request, response) => response.end('TEST'));
+
+      const { port } = testServer.address;
+      const response = await new Promise<IncomingMessage>((resolve, reject) => {
+        request({ host: '127.0.0.1', port, path: '/test', agent }, resolve)
+          .on('error', reject)
+          .end();
+      });
+
+      expect(await readAll(response)).toBe('TEST');
+
+      await testServer.stop();
+      expect(testServer.server.listening).toBe(false);
+    });
+    it('stops TestHttp2Server', async () => {
+      const testServer = await TestHttp2Server.start();
+
+      await testServer.stop();
+      expect(testServer.server.listening).toBe(false);
+    });
+  });
+});
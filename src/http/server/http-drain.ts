@@ -0,0 +1,178 @@
+import type { EventEmitter } from 'node:events';
+import type { Server as HttpServer } from 'node:http';
+import type { Http2SecureServer, Http2Server, Http2Session } from 'node:http2';
+import type { Server as HttpsServer } from 'node:https';
+import { registerHttpDrainRequest } from '../../impl/http-drain-registry.js';
+import type { HttpMeans } from '../http.means.js';
+
+/**
+ * HTTP server connections drain.
+ *
+ * Gracefully shuts down HTTP server. I.e. stops accepting new connections, lets in-flight requests finish, and closes
+ * the connections afterwards.
+ *
+ * Can be used with HTTP/1.x and HTTP/2 servers, either secure or not.
+ *
+ * Created by {@link httpDrain} function.
+ */
+export interface HttpDrain {
+  /**
+   * Drained HTTP server.
+   */
+  readonly server: HttpDrain.Server;
+
+  /**
+   * Whether the server is draining or already drained.
+   *
+   * Becomes `true` once {@link drain} method called. I.e. before the server stops accepting new connections, if drain
+   * {@link HttpDrain.Options.delay delay} specified.
+   */
+  readonly draining: boolean;
+
+  /**
+   * The number of in-flight requests. I.e. requests which responses are not sent yet.
+   */
+  readonly inFlight: number;
+
+  /**
+   * Starts draining the server.
+   *
+   * Keeps accepting new connections during drain {@link HttpDrain.Options.delay delay}, if the server is listening.
+   * This lets load balancer notice the server is draining, e.g. by failed readiness probe, and stop routing requests
+   * to it.
+   *
+   * Afterwards, stops accepting new connections and closes idle ones. Sends `Connection: close` header with HTTP/1.x
+   * responses, and requests HTTP/2 sessions to close. Then waits for in-flight requests to finish. When the timeout
+   * expires, forcibly closes remaining connections, which aborts the requests still being processed.
+   *
+   * Draining is started only once. Subsequent calls return the same promise.
+   *
+   * @param timeout - The time to wait for in-flight requests to finish, in milliseconds. Defaults to the one specified
+   * in {@link HttpDrain.Options.timeout drain options}.
+   *
+   * @returns A promise resolved when all connections closed.
+   */
+  drain(timeout?: number): Promise<void>;
+}
+
+export namespace HttpDrain {
+  /**
+   * HTTP server to drain.
+   */
+  export type Server = HttpServer | HttpsServer | Http2Server | Http2SecureServer;
+
+  /**
+   * HTTP server drain options.
+   */
+  export interface Options {
+    /**
+     * The time to wait for in-flight requests to finish, in milliseconds.
+     *
+     * @default 10 seconds.
+     */
+    readonly timeout?: number | undefined;
+
+    /**
+     * The time to keep accepting new connections after draining started, in milliseconds.
+     *
+     * The server is {@link HttpDrain.draining draining} during this time, but still serves requests.
+     *
+     * @default 0.
+     */
+    readonly delay?: number | undefined;
+  }
+}
+
+/**
+ * Creates HTTP server connections drain.
+ *
+ * Starts tracking server connections and in-flight requests immediately. So, it is better to call this function
+ * before the server starts listening.
+ *
+ * @param server - HTTP server to drain.
+ * @param options - Drain options.
+ *
+ * @returns New HTTP server connections drain.
+ */
+export function httpDrain(server: HttpDrain.Server, options: HttpDrain.Options = {}): HttpDrain {
+  const { timeout: defaultTimeout = 10_000, delay = 0 } = options;
+  const events = server as EventEmitter;
+  const inFlight = new Map<HttpMeans.Response, HttpMeans.Request>();
+  const sessions = new Set<Http2Session>();
+  let whenDrained: Promise<void> | undefined;
+
+  const closeIdle = (): void => {
+    (server as Partial<HttpServer>).closeIdleConnections?.();
+  };
+
+  events.on('session', (session: Http2Session) => {
+    sessions.add(session);
+    session.once('close', () => sessions.delete(session));
+  });
+  // Track the request before it is handled.
+  events.prependListener('request', (request: HttpMeans.Request, response: HttpMeans.Response) => {
+    registerHttpDrainRequest(request, drain);
+    inFlight.set(response, request);
+    response.once('close', () => {
+      inFlight.delete(response);
+      if (whenDrained) {
+        // Let the connection become idle first.
+        setImmediate(closeIdle);
+      }
+    });
+
+    if (whenDrained) {
+      closeConnection(request, response);
+    }
+  });
+
+  const drain: HttpDrain = {
+    server,
+    get draining() {
+      return !!whenDrained;
+    },
+    get inFlight() {
+      return inFlight.size;
+    },
+    drain(timeout = defaultTimeout) {
+      if (!whenDrained) {
+        whenDrained = new Promise(resolve => {
+          const close = (): void => {
+            const timer = setTimeout(() => {
+              (server as Partial<HttpServer>).closeAllConnections?.();
+              sessions.forEach(session => session.destroy());
+            }, timeout);
+
+            server.close(() => {
+              clearTimeout(timer);
+              resolve();
+            });
+
+            inFlight.forEach(closeConnection);
+            closeIdle();
+            sessions.forEach(session => session.close());
+          };
+
+          if (delay > 0 && server.listening) {
+            setTimeout(close, delay);
+          } else {
+            close();
+          }
+        });
+      }
+
+      return whenDrained;
+    },
+  };
+
+  return drain;
+}
+
+/**
+ * @internal
+ */
+function closeConnection(request: HttpMeans.Request, response: HttpMeans.Response): void {
+  if (request.httpVersionMajor < 2 && !response.headersSent) {
+    response.setHeader('Connection', 'close');
+  }
+}
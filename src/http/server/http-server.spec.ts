@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { IncomingMessage, request } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { readAll } from '../../impl/read-all.js';
+import type { RenderMeans } from '../render/render.means.js';
+import { Rendering } from '../render/rendering.capability.js';
+import { HttpApp } from './http-app.js';
+import { httpServer } from './http-server.js';
+
+describe('httpServer', () => {
+  let app: HttpApp | undefined;
+
+  afterEach(async () => {
+    await app?.close(0);
+    app = undefined;
+  });
+
+  async function get(path: string): Promise<{ statusCode?: number | undefined; body: string }> {
+    const { port } = app!.address as AddressInfo;
+    const response = await new Promise<IncomingMessage>((resolve, reject) => {
+      request({ host: '127.0.0.1', port, path, agent: false }, resolve).on('error', reject).end();
+    });
+
+    return { statusCode: response.statusCode, body: await readAll(response) };
+  }
+
+  it('starts HTTP application with default configuration', async () => {
+    app = await httpServer(({ response }) => {
+      response.end('TEST');
+    });
+
+    expect(app).toBeInstanceOf(HttpApp);
+    expect(await get('/test')).toEqual({ statusCode: 200, body: 'TEST' });
+  });
+  it('starts HTTP application with the given configuration', async () => {
+    app = await httpServer(
+      { listen: { port: 0, host: '127.0.0.1' }, defaultHandler: false },
+      ({ response, requestAddresses }) => {
+        if (requestAddresses.url.pathname === '/test') {
+          response.end('TEST');
+        } else {
+          response.statusCode = 202;
+          response.end();
+        }
+      },
+    );
+
+    expect(await get('/test')).toEqual({ statusCode: 200, body: 'TEST' });
+    expect(await get('/other')).toEqual({ statusCode: 202, body: '' });
+  });
+  it('starts HTTP application processing extended requests', async () => {
+    app = await httpServer<RenderMeans>(
+      {
+        listen: { port: 0, host: '127.0.0.1' },
+        handleBy(handler) {
+          return Rendering.for(handler);
+        },
+      },
+      ({ renderJson }) => {
+        renderJson({ ok: true });
+      },
+    );
+
+    expect(await get('/test')).toEqual({ statusCode: 200, body: '{"ok":true}' });
+  });
+});
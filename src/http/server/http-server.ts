@@ -0,0 +1,77 @@
+import type { RequestHandler } from '../../core/request-handler.js';
+import type { HttpConfig } from '../http-config.js';
+import { httpListener } from '../http-listener.js';
+import type { HttpMeans } from '../http.means.js';
+import { HttpApp } from './http-app.js';
+
+/**
+ * HTTP server configuration.
+ *
+ * Combines {@link HttpConfig HTTP processing configuration} with {@link HttpApp.Options HTTP application options}.
+ */
+export type HttpServerConfig = HttpConfig & HttpApp.Options;
+
+export namespace HttpServerConfig {
+  /**
+   * HTTP server configuration for extended requests.
+   *
+   * @typeParam TExt - Request processing means extension type.
+   */
+  export interface Extended<TExt> extends HttpConfig.Extended<TExt>, HttpApp.Options {}
+}
+
+/**
+ * Creates and starts HTTP application processing extended requests.
+ *
+ * @typeParam TExt - Request processing means extension type.
+ * @param config - HTTP server configuration.
+ * @param handler - HTTP request handler.
+ *
+ * @returns A promise resolved to HTTP application listening on all bindings.
+ */
+export function httpServer<TExt>(
+  config: HttpServerConfig.Extended<TExt>,
+  handler: RequestHandler<HttpMeans & TExt>,
+): Promise<HttpApp>;
+
+/**
+ * Creates and starts HTTP application.
+ *
+ * @param config - HTTP server configuration.
+ * @param handler - HTTP request handler.
+ *
+ * @returns A promise resolved to HTTP application listening on all bindings.
+ */
+export function httpServer(
+  config: HttpServerConfig,
+  handler: RequestHandler<HttpMeans>,
+): Promise<HttpApp>;
+
+/**
+ * Creates and starts HTTP application with default configuration.
+ *
+ * The application listens on random port in this case.
+ *
+ * @param handler - HTTP request handler.
+ *
+ * @returns A promise resolved to HTTP application listening on random port.
+ */
+export function httpServer(handler: RequestHandler<HttpMeans>): Promise<HttpApp>;
+
+export function httpServer<TExt>(
+  configOrHandler: HttpServerConfig | HttpServerConfig.Extended<TExt> | RequestHandler<HttpMeans>,
+  optionalHandler?: RequestHandler<HttpMeans>,
+): Promise<HttpApp> {
+  let config: HttpServerConfig;
+  let handler: RequestHandler<HttpMeans>;
+
+  if (optionalHandler) {
+    config = configOrHandler as HttpServerConfig;
+    handler = optionalHandler;
+  } else {
+    config = {};
+    handler = configOrHandler as RequestHandler<HttpMeans>;
+  }
+
+  return new HttpApp(config, httpListener(config, handler)).listen();
+}
@@ -0,0 +1,3 @@
+export * from './http-app.js';
+export * from './http-drain.js';
+export * from './http-server.js';
@@ -0,0 +1,3 @@
+export * from './service-token.js';
+export * from './services.capability.js';
+export * from './services.means.js';
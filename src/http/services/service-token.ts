@@ -0,0 +1,38 @@
+/**
+ * Service token.
+ *
+ * Identifies a service {@link Services provided} to request processing handlers. Services are obtained by their tokens
+ * from {@link RequestServices request services} then.
+ *
+ * @typeParam T - Service type.
+ */
+export class ServiceToken<T> {
+  readonly #name: string;
+
+  /**
+   * Constructs service token.
+   *
+   * @param name - Human-readable service name.
+   */
+  constructor(name: string) {
+    this.#name = name;
+  }
+
+  /**
+   * Human-readable service name.
+   */
+  get name(): string {
+    return this.#name;
+  }
+
+  /**
+   * Phantom property holding the service type.
+   *
+   * @internal
+   */
+  declare readonly __service__?: T;
+
+  toString(): string {
+    return `ServiceToken(${this.#name})`;
+  }
+}
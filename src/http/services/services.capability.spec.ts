@@ -0,0 +1,264 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { consoleLogger } from '@proc7ts/logger';
+import { noop } from '@proc7ts/primitives';
+import { Logging } from '../../core/logging/logging.capability.js';
+import type { RequestLogger } from '../../core/logging/request-logger.js';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { Rendering } from '../render/rendering.capability.js';
+import { ServiceToken } from './service-token.js';
+import { Services } from './services.capability.js';
+
+describe('Services', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.listenBy(noop);
+  });
+
+  interface Counter {
+    readonly id: number;
+  }
+
+  const CounterToken = new ServiceToken<Counter>('counter');
+  const NameToken = new ServiceToken<string>('name');
+
+  function counter(): () => Counter {
+    let id = 0;
+
+    return () => ({ id: ++id });
+  }
+
+  it('provides request-scoped services by default', async () => {
+    server.handleBy(
+      Services.provide(CounterToken, { create: counter() })
+        .and(Rendering)
+        .for(({ services, renderJson }) => {
+          renderJson([services.get(CounterToken).id, services.get(CounterToken).id]);
+        }),
+    );
+
+    expect(JSON.parse(await (await server.get('/test')).body())).toEqual([1, 1]);
+    expect(JSON.parse(await (await server.get('/test')).body())).toEqual([2, 2]);
+  });
+  it('provides singleton services', async () => {
+    const services = Services.provide(CounterToken, { scope: 'singleton', create: counter() });
+
+    server.handleBy(
+      services.and(Rendering).for(({ services, renderJson }) => {
+        renderJson([services.get(CounterToken).id, services.get(CounterToken).id]);
+      }),
+    );
+
+    expect(JSON.parse(await (await server.get('/test')).body())).toEqual([1, 1]);
+    expect(JSON.parse(await (await server.get('/test')).body())).toEqual([1, 1]);
+  });
+  it('provides transient services', async () => {
+    server.handleBy(
+      Services.provide(CounterToken, { scope: 'transient', create: counter() })
+        .and(Rendering)
+        .for(({ services, renderJson }) => {
+          renderJson([services.get(CounterToken).id, services.get(CounterToken).id]);
+        }),
+    );
+
+    expect(JSON.parse(await (await server.get('/test')).body())).toEqual([1, 2]);
+  });
+  it('resolves service dependencies', async () => {
+    server.handleBy(
+      Services.provide(CounterToken, { create: counter() })
+        .provide(NameToken, { create: services => `counter-${services.get(CounterToken).id}` })
+        .and(Rendering)
+        .for(({ services, renderJson }) => {
+          renderJson(services.get(NameToken));
+        }),
+    );
+
+    expect(JSON.parse(await (await server.get('/test')).body())).toBe('counter-1');
+  });
+  it('resolves singleton dependencies of singleton service', async () => {
+    server.handleBy(
+      Services.provide(CounterToken, { scope: 'singleton', create: counter() })
+        .and(
+          Services.provide(NameToken, {
+            scope: 'singleton',
+            create: services => `counter-${services.get(CounterToken).id}`,
+          }),
+        )
+        .and(Rendering)
+        .for(({ services, renderJson }) => {
+          renderJson(services.get(NameToken));
+        }),
+    );
+
+    expect(JSON.parse(await (await server.get('/test')).body())).toBe('counter-1');
+    expect(JSON.parse(await (await server.get('/test')).body())).toBe('counter-1');
+  });
+  it('fails when singleton service depends on request-scoped one', async () => {
+    const error = await new Promise<unknown>(resolve => {
+      server.handleBy(
+        { logError: false },
+        Services.provide(CounterToken, { create: counter() })
+          .provide(NameToken, {
+            scope: 'singleton',
+            create: services => `counter-${services.get(CounterToken).id}`,
+          })
+          .for(({ services }) => {
+            try {
+              services.get(NameToken);
+            } catch (error) {
+              resolve(error);
+              throw error;
+            }
+          }),
+      );
+      server
+        .get('/test')
+        .then(async response => await response.body())
+        .catch(noop);
+    });
+
+    expect(error).toBeInstanceOf(ReferenceError);
+    expect((error as Error).message).toBe(
+      'Singleton ServiceToken(name) can not depend on request-scoped ServiceToken(counter)',
+    );
+  });
+  it('overrides services in nested capability', async () => {
+    server.handleBy(
+      Services.provide(CounterToken, { create: counter() })
+        .provide(NameToken, { create: () => 'outer' })
+        .and(Services.provide(NameToken, { create: () => 'inner' }))
+        .and(Rendering)
+        .for(({ services, renderJson }) => {
+          renderJson([services.get(NameToken), services.get(CounterToken).id]);
+        }),
+    );
+
+    expect(JSON.parse(await (await server.get('/test')).body())).toEqual(['inner', 1]);
+  });
+  it('fails when service is not provided', async () => {
+    const error = await new Promise<unknown>(resolve => {
+      server.handleBy(
+        { logError: false },
+        Services.for(({ services }) => {
+          try {
+            services.get(NameToken);
+          } catch (error) {
+            resolve(error);
+            throw error;
+          }
+        }),
+      );
+      server
+        .get('/test')
+        .then(async response => await response.body())
+        .catch(noop);
+    });
+
+    expect(error).toBeInstanceOf(ReferenceError);
+    expect((error as Error).message).toBe('ServiceToken(name) is not provided');
+  });
+  it('disposes services in reverse order when response finishes', async () => {
+    const disposed: string[] = [];
+    let onDisposed!: () => void;
+    const whenDisposed = new Promise<void>(resolve => {
+      onDisposed = resolve;
+    });
+
+    server.handleBy(
+      Services.provide(CounterToken, {
+        create: counter(),
+        dispose: ({ id }) => {
+          disposed.push(`counter-${id}`);
+          onDisposed();
+        },
+      })
+        .provide(NameToken, {
+          scope: 'transient',
+          create: services => `name-${services.get(CounterToken).id}`,
+          dispose: async name => {
+            await Promise.resolve();
+            disposed.push(name);
+          },
+        })
+        .and(Rendering)
+        .for(({ services, renderJson }) => {
+          renderJson([services.get(NameToken), services.get(NameToken)]);
+        }),
+    );
+
+    expect(JSON.parse(await (await server.get('/test')).body())).toEqual(['name-1', 'name-1']);
+
+    await whenDisposed;
+    expect(disposed).toEqual(['name-1', 'name-1', 'counter-1']);
+  });
+  it('logs disposal errors', async () => {
+    const error = new Error('test');
+    let onLogged!: (args: unknown[]) => void;
+    const whenLogged = new Promise<unknown[]>(resolve => {
+      onLogged = resolve;
+    });
+    const log: RequestLogger = {
+      ...consoleLogger,
+      error: (...args) => onLogged(args),
+    };
+
+    server.handleBy(
+      Logging.logBy(log)
+        .and(
+          Services.provide(NameToken, {
+            create: () => 'name',
+            dispose: () => {
+              throw error;
+            },
+          }),
+        )
+        .for(({ services, response }) => {
+          response.end(services.get(NameToken));
+        }),
+    );
+
+    expect(await (await server.get('/test')).body()).toBe('name');
+    expect(await whenLogged).toEqual(['Deferred request callback failed', error]);
+  });
+  it('logs disposal errors by console', async () => {
+    const error = new Error('test');
+    let onLogged!: () => void;
+    const whenLogged = new Promise<void>(resolve => {
+      onLogged = resolve;
+    });
+    const logErrorSpy = jest.spyOn(consoleLogger, 'error').mockImplementation(() => onLogged());
+
+    try {
+      server.handleBy(
+        Services.provide(NameToken, {
+          create: () => 'name',
+          dispose: () => {
+            throw error;
+          },
+        }).for(({ services, response }) => {
+          response.end(services.get(NameToken));
+        }),
+      );
+
+      expect(await (await server.get('/test')).body()).toBe('name');
+
+      await whenLogged;
+      expect(logErrorSpy).toHaveBeenCalledWith('Deferred request callback failed', error);
+    } finally {
+      logErrorSpy.mockRestore();
+    }
+  });
+
+  describe('ServiceToken', () => {
+    it('has name', () => {
+      expect(NameToken.name).toBe('name');
+    });
+  });
+});
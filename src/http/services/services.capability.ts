@@ -0,0 +1,206 @@
+import { RequestCapability } from '../../core/request-capability.js';
+import { RequestContext } from '../../core/request-context.js';
+import { RequestHandler } from '../../core/request-handler.js';
+import { requestExtension } from '../../core/request-modification.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
+import type { HttpMeans } from '../http.means.js';
+import type { ServiceToken } from './service-token.js';
+import type { RequestServices, ServicesMeans } from './services.means.js';
+
+/**
+ * Service provider.
+ *
+ * Describes how to create and dispose service instances.
+ *
+ * @typeParam T - Service type.
+ */
+export interface ServiceProvider<T> {
+  /**
+   * Service instance scope.
+   *
+   * - `singleton` - the only instance is created per {@link Services.provide provider registration} and shared
+   *   between requests. Never disposed. May depend on other singletons only.
+   * - `request` - the instance is created once per request and disposed when the response finishes.
+   * - `transient` - new instance is created each time the service is requested. Disposed when the response
+   *   finishes.
+   *
+   * @default `request`.
+   */
+  readonly scope?: 'singleton' | 'request' | 'transient' | undefined;
+
+  /**
+   * Creates service instance.
+   *
+   * @param services - Request services to obtain other services from. Singleton services may obtain only other
+   * singletons from here. An attempt to obtain a service with another scope fails with `ReferenceError`.
+   *
+   * @returns New service instance.
+   */
+  create(this: void, services: RequestServices): T;
+
+  /**
+   * Disposes service instance.
+   *
+   * Called in order opposite to instance creation order. Disposal errors are logged by {@link LoggerMeans request
+   * logger}, if any, or by `console` otherwise.
+   *
+   * @param instance - Service instance to dispose.
+   *
+   * @returns Either nothing if disposed synchronously, or a promise-like instance resolved when disposed
+   * asynchronously.
+   */
+  dispose?(this: void, instance: T): PromiseLike<unknown> | void;
+}
+
+/**
+ * Request services capability.
+ *
+ * Provides {@link ServicesMeans request services means} for handlers.
+ *
+ * Services are registered by their {@link ServiceToken tokens}. Nested services capability inherits the services
+ * registered by enclosing one, and may add or override them for nested handlers.
+ *
+ * @typeParam TInput - Input HTTP request processing means.
+ */
+export interface Services<TInput extends HttpMeans.Any = HttpMeans.Any> extends RequestCapability<
+  TInput,
+  ServicesMeans
+> {
+  /**
+   * Registers service provider.
+   *
+   * @typeParam T - Service type.
+   * @param token - Service token.
+   * @param provider - Service provider.
+   *
+   * @returns New services capability that provides the service in addition to the services provided by this one.
+   * The service overrides the previously registered one with the same token.
+   */
+  provide<T>(token: ServiceToken<T>, provider: ServiceProvider<T>): Services<TInput>;
+}
+
+/**
+ * @internal
+ */
+interface ServiceRegistration<T> {
+  readonly provider: ServiceProvider<T>;
+  singleton?: { readonly instance: T } | undefined;
+}
+
+/**
+ * @internal
+ */
+class ServicesCapability<TInput extends HttpMeans.Any>
+  extends RequestCapability<TInput, ServicesMeans>
+  implements Services<TInput>
+{
+  readonly #registrations: ReadonlyMap<ServiceToken<unknown>, ServiceRegistration<unknown>>;
+
+  constructor(registrations: ReadonlyMap<ServiceToken<unknown>, ServiceRegistration<unknown>>) {
+    super();
+    this.#registrations = registrations;
+  }
+
+  for<TMeans extends TInput>(
+    handler: RequestHandler<TMeans & ServicesMeans>,
+  ): RequestHandler<TMeans> {
+    return provideRequestCapability(this, handler, context => {
+      const { services: parent } = context as { services?: ServiceRegistry | undefined };
+      const services = new ServiceRegistry(
+        this.#registrations,
+        parent,
+        context as RequestContext<TInput>,
+      );
+
+      return context.next(handler, requestExtension<TMeans, ServicesMeans>({ services }));
+    });
+  }
+
+  provide<T>(token: ServiceToken<T>, provider: ServiceProvider<T>): Services<TInput> {
+    return new ServicesCapability<TInput>(
+      new Map(this.#registrations).set(token, { provider } as ServiceRegistration<unknown>),
+    );
+  }
+}
+
+/**
+ * @internal
+ */
+class ServiceRegistry implements RequestServices {
+  readonly #registrations: ReadonlyMap<ServiceToken<unknown>, ServiceRegistration<unknown>>;
+  readonly #parent: ServiceRegistry | undefined;
+  readonly #context: RequestContext<HttpMeans.Any>;
+  readonly #instances = new Map<ServiceToken<unknown>, unknown>();
+
+  constructor(
+    registrations: ReadonlyMap<ServiceToken<unknown>, ServiceRegistration<unknown>>,
+    parent: ServiceRegistry | undefined,
+    context: RequestContext<HttpMeans.Any>,
+  ) {
+    this.#registrations = registrations;
+    this.#parent = parent;
+    this.#context = context;
+  }
+
+  get<T>(token: ServiceToken<T>): T {
+    return this.#get(token);
+  }
+
+  #get<T>(token: ServiceToken<T>, singleton?: ServiceToken<unknown>): T {
+    const registration = this.#registrations.get(token) as ServiceRegistration<T> | undefined;
+
+    if (!registration) {
+      if (this.#parent) {
+        return this.#parent.#get(token, singleton);
+      }
+
+      throw new ReferenceError(`${token} is not provided`);
+    }
+
+    const { provider } = registration;
+    const { scope = 'request' } = provider;
+
+    if (scope === 'singleton') {
+      if (!registration.singleton) {
+        registration.singleton = {
+          instance: provider.create({ get: dependency => this.#get(dependency, token) }),
+        };
+      }
+
+      return registration.singleton.instance;
+    }
+    if (singleton) {
+      throw new ReferenceError(`Singleton ${singleton} can not depend on ${scope}-scoped ${token}`);
+    }
+    if (scope === 'transient') {
+      return this.#create(provider);
+    }
+    if (this.#instances.has(token)) {
+      return this.#instances.get(token) as T;
+    }
+
+    const instance = this.#create(provider);
+
+    this.#instances.set(token, instance);
+
+    return instance;
+  }
+
+  #create<T>(provider: ServiceProvider<T>): T {
+    const instance = provider.create(this);
+    const { dispose } = provider;
+
+    if (dispose) {
+      this.#context.defer(() => dispose(instance));
+    }
+
+    return instance;
+  }
+}
+
+/**
+ * Request services capability instance.
+ *
+ * Provides no services initially. Services should be {@link Services.provide registered} first.
+ */
+export const Services: Services = /*#__PURE__*/ new ServicesCapability(new Map());
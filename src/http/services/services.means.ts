@@ -0,0 +1,32 @@
+import type { ServiceToken } from './service-token.js';
+
+/**
+ * Request services means.
+ *
+ * Provided by {@link Services} capability.
+ */
+export interface ServicesMeans {
+  /**
+   * Services available for request processing.
+   */
+  readonly services: RequestServices;
+}
+
+/**
+ * Services available for request processing.
+ */
+export interface RequestServices {
+  /**
+   * Obtains a service by its token.
+   *
+   * Creates the service instance if necessary according to its {@link ServiceProvider.scope scope}.
+   *
+   * @typeParam T - Service type.
+   * @param token - Service token.
+   *
+   * @returns Service instance.
+   *
+   * @throws ReferenceError If the service is not provided.
+   */
+  get<T>(token: ServiceToken<T>): T;
+}
@@ -0,0 +1,5 @@
+export * from './trace-context.js';
+export * from './trace-exporter.js';
+export * from './trace-span.js';
+export * from './tracing.capability.js';
+export * from './tracing.means.js';
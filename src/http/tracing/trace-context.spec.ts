@@ -0,0 +1,71 @@
+import { describe, expect, it } from '@jest/globals';
+import { formatTraceParent, parseTraceParent } from './trace-context.js';
+
+describe('parseTraceParent', () => {
+  it('parses traceparent', () => {
+    expect(parseTraceParent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      traceFlags: 1,
+      traceState: undefined,
+    });
+  });
+  it('parses tracestate', () => {
+    expect(
+      parseTraceParent(
+        '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00',
+        ' rojo=00f067aa0ba902b7,congo=t61rcWkgMzE ',
+      ),
+    ).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      traceFlags: 0,
+      traceState: 'rojo=00f067aa0ba902b7,congo=t61rcWkgMzE',
+    });
+  });
+  it('ignores empty tracestate', () => {
+    expect(
+      parseTraceParent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01', ' ')?.traceState,
+    ).toBeUndefined();
+  });
+  it('accepts extra fields of future versions', () => {
+    expect(
+      parseTraceParent('01-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01-extra')?.spanId,
+    ).toBe('00f067aa0ba902b7');
+  });
+  it('rejects malformed traceparent', () => {
+    expect(parseTraceParent('00-4bf92f3577b34da6a3ce929d0e0e4736-01')).toBeUndefined();
+  });
+  it('rejects extra fields of version 00', () => {
+    expect(
+      parseTraceParent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01-extra'),
+    ).toBeUndefined();
+  });
+  it('rejects invalid version', () => {
+    expect(
+      parseTraceParent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'),
+    ).toBeUndefined();
+  });
+  it('rejects zero trace identifier', () => {
+    expect(
+      parseTraceParent('00-00000000000000000000000000000000-00f067aa0ba902b7-01'),
+    ).toBeUndefined();
+  });
+  it('rejects zero span identifier', () => {
+    expect(
+      parseTraceParent('00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01'),
+    ).toBeUndefined();
+  });
+});
+
+describe('formatTraceParent', () => {
+  it('formats traceparent', () => {
+    expect(
+      formatTraceParent({
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7',
+        traceFlags: 1,
+      }),
+    ).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+  });
+});
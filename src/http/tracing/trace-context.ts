@@ -0,0 +1,101 @@
+/**
+ * Distributed trace context.
+ *
+ * Identifies a trace span as defined by [W3C Trace Context] specification.
+ *
+ * [W3C Trace Context]: https://www.w3.org/TR/trace-context/
+ */
+export interface TraceContext {
+  /**
+   * Trace identifier.
+   *
+   * 32 lower-case hexadecimal digits.
+   */
+  readonly traceId: string;
+
+  /**
+   * Span identifier.
+   *
+   * 16 lower-case hexadecimal digits.
+   */
+  readonly spanId: string;
+
+  /**
+   * Trace flags bit field.
+   *
+   * The only flag defined is `0x01`, which means the trace is sampled.
+   */
+  readonly traceFlags: number;
+
+  /**
+   * Vendor-specific trace state in the format of [tracestate] header, if any.
+   *
+   * [tracestate]: https://www.w3.org/TR/trace-context/#tracestate-header
+   */
+  readonly traceState?: string | undefined;
+}
+
+/**
+ * @internal
+ */
+const TRACE_PARENT_PATTERN = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})(-.*)?$/;
+
+/**
+ * @internal
+ */
+const ZERO_ID_PATTERN = /^0+$/;
+
+/**
+ * Parses trace context from [traceparent] and [tracestate] HTTP header values.
+ *
+ * [traceparent]: https://www.w3.org/TR/trace-context/#traceparent-header
+ * [tracestate]: https://www.w3.org/TR/trace-context/#tracestate-header
+ *
+ * @param traceParent - `traceparent` header value.
+ * @param traceState - `tracestate` header value, if any.
+ *
+ * @returns Either parsed trace context, or `undefined` when `traceparent` header value is invalid.
+ */
+export function parseTraceParent(
+  traceParent: string,
+  traceState?: string,
+): TraceContext | undefined {
+  const match = TRACE_PARENT_PATTERN.exec(traceParent.trim());
+
+  if (!match) {
+    return;
+  }
+
+  const [, version, traceId, spanId, flags, rest] = match;
+
+  if (
+    version === 'ff' ||
+    (version === '00' && rest) ||
+    ZERO_ID_PATTERN.test(traceId) ||
+    ZERO_ID_PATTERN.test(spanId)
+  ) {
+    return;
+  }
+
+  traceState = traceState?.trim();
+
+  return {
+    traceId,
+    spanId,
+    traceFlags: parseInt(flags, 16),
+    traceState: traceState || undefined,
+  };
+}
+
+/**
+ * Formats [traceparent] HTTP header value for the given trace context.
+ *
+ * [traceparent]: https://www.w3.org/TR/trace-context/#traceparent-header
+ *
+ * @param context - Trace context to format.
+ *
+ * @returns `traceparent` header value.
+ */
+export function formatTraceParent({ traceId, spanId, traceFlags }: TraceContext): string {
+  return `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, '0')}`;
+}
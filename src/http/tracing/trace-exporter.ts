@@ -0,0 +1,18 @@
+import type { TraceSpan } from './trace-span.js';
+
+/**
+ * Trace exporter.
+ *
+ * Receives {@link TraceSpan.end ended} trace spans and sends them e.g. to trace collector.
+ */
+export interface TraceExporter {
+  /**
+   * Exports ended trace span.
+   *
+   * Called for sampled spans only. An error thrown by this method is logged by {@link TraceSpan.end} and does not
+   * affect request processing.
+   *
+   * @param span - Ended trace span.
+   */
+  export(span: TraceSpan): void;
+}
@@ -0,0 +1,257 @@
+import { consoleLogger } from '@proc7ts/logger';
+import { noop } from '@proc7ts/primitives';
+import { randomBytes } from 'node:crypto';
+import { formatTraceParent, TraceContext } from './trace-context.js';
+import type { TraceExporter } from './trace-exporter.js';
+
+/**
+ * Distributed trace span.
+ *
+ * Represents a unit of work, e.g. HTTP request processing, within a trace. Is {@link TraceExporter.export exported}
+ * once {@link end ended}.
+ */
+export class TraceSpan {
+  readonly #name: string;
+  readonly #context: TraceContext;
+  readonly #parentSpanId: string | undefined;
+  readonly #exporter: TraceExporter;
+  readonly #startTime: number;
+  #endTime: number | undefined;
+  readonly #attributes: Record<string, TraceSpan.AttributeValue> = {};
+  #error: unknown;
+
+  /**
+   * Constructs trace span.
+   *
+   * Starts new trace if `parent` context is omitted.
+   *
+   * @param init - Trace span initialization options.
+   */
+  constructor(init: TraceSpan.Init) {
+    const { name, parent, exporter = TraceSpan$noopExporter } = init;
+
+    this.#name = name;
+    this.#exporter = exporter;
+    this.#startTime = Date.now();
+
+    if (parent) {
+      this.#context = {
+        traceId: parent.traceId,
+        spanId: traceSpanId(8),
+        traceFlags: parent.traceFlags,
+        traceState: parent.traceState,
+      };
+      this.#parentSpanId = parent.spanId;
+    } else {
+      this.#context = {
+        traceId: traceSpanId(16),
+        spanId: traceSpanId(8),
+        traceFlags: init.sampled === false ? 0 : 1,
+      };
+    }
+  }
+
+  /**
+   * Span name.
+   */
+  get name(): string {
+    return this.#name;
+  }
+
+  /**
+   * Trace context of this span.
+   */
+  get context(): TraceContext {
+    return this.#context;
+  }
+
+  /**
+   * Trace identifier.
+   */
+  get traceId(): string {
+    return this.#context.traceId;
+  }
+
+  /**
+   * Span identifier.
+   */
+  get spanId(): string {
+    return this.#context.spanId;
+  }
+
+  /**
+   * Parent span identifier, or `undefined` for root span.
+   */
+  get parentSpanId(): string | undefined {
+    return this.#parentSpanId;
+  }
+
+  /**
+   * Whether this span is sampled, i.e. is to be exported.
+   */
+  get sampled(): boolean {
+    return (this.#context.traceFlags & 1) !== 0;
+  }
+
+  /**
+   * The time in milliseconds since the epoch when this span started.
+   */
+  get startTime(): number {
+    return this.#startTime;
+  }
+
+  /**
+   * The time in milliseconds since the epoch when this span ended, or `undefined` if not ended yet.
+   */
+  get endTime(): number | undefined {
+    return this.#endTime;
+  }
+
+  /**
+   * Span attributes.
+   */
+  get attributes(): Readonly<Record<string, TraceSpan.AttributeValue>> {
+    return this.#attributes;
+  }
+
+  /**
+   * An error the span is {@link end ended} with, or `undefined` if ended successfully or not ended yet.
+   */
+  get error(): unknown {
+    return this.#error;
+  }
+
+  /**
+   * Builds HTTP headers to propagate this span context to outgoing request.
+   *
+   * @returns An object containing `traceparent` and optional `tracestate` headers.
+   */
+  headers(): TraceSpan.Headers {
+    const { traceState } = this.#context;
+    const traceparent = formatTraceParent(this.#context);
+
+    return traceState ? { traceparent, tracestate: traceState } : { traceparent };
+  }
+
+  /**
+   * Sets span attribute.
+   *
+   * Does nothing if the span ended already.
+   *
+   * @param name - Attribute name.
+   * @param value - Attribute value.
+   *
+   * @returns `this` instance.
+   */
+  setAttribute(name: string, value: TraceSpan.AttributeValue): this {
+    if (this.#endTime == null) {
+      this.#attributes[name] = value;
+    }
+
+    return this;
+  }
+
+  /**
+   * Starts child span of this one.
+   *
+   * The child span is exported by the same exporter.
+   *
+   * @param name - Child span name.
+   *
+   * @returns New trace span.
+   */
+  startChild(name: string): TraceSpan {
+    return new TraceSpan({ name, parent: this.#context, exporter: this.#exporter });
+  }
+
+  /**
+   * Ends this span and exports it if sampled.
+   *
+   * Does nothing if the span ended already. Export failure is logged rather than thrown, so that it does not affect
+   * the traced request processing.
+   *
+   * @param error - An error the span failed with, if any.
+   */
+  end(error?: unknown): void {
+    if (this.#endTime != null) {
+      return;
+    }
+
+    this.#endTime = Date.now();
+    this.#error = error;
+
+    if (this.sampled) {
+      try {
+        this.#exporter.export(this);
+      } catch (exportError) {
+        consoleLogger.error(
+          `[${this.traceId}/${this.spanId}]`,
+          'Failed to export span',
+          exportError,
+        );
+      }
+    }
+  }
+}
+
+export namespace TraceSpan {
+  /**
+   * Trace span initialization options.
+   */
+  export interface Init {
+    /**
+     * Span name.
+     */
+    readonly name: string;
+
+    /**
+     * Parent trace context, if any.
+     *
+     * New trace started when omitted.
+     */
+    readonly parent?: TraceContext | undefined;
+
+    /**
+     * Whether new trace is sampled.
+     *
+     * Ignored when `parent` trace context specified. In this case its flags are used.
+     *
+     * @default `true`.
+     */
+    readonly sampled?: boolean | undefined;
+
+    /**
+     * Exporter of ended span.
+     *
+     * Spans are not exported when omitted.
+     */
+    readonly exporter?: TraceExporter | undefined;
+  }
+
+  /**
+   * Trace span attribute value.
+   */
+  export type AttributeValue = string | number | boolean;
+
+  /**
+   * HTTP headers propagating trace span context.
+   */
+  export interface Headers {
+    readonly traceparent: string;
+    readonly tracestate?: string;
+  }
+}
+
+/**
+ * @internal
+ */
+const TraceSpan$noopExporter: TraceExporter = {
+  export: noop,
+};
+
+/**
+ * @internal
+ */
+function traceSpanId(bytes: number): string {
+  return randomBytes(bytes).toString('hex');
+}
@@ -0,0 +1,357 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import { consoleLogger } from '@proc7ts/logger';
+import { noop } from '@proc7ts/primitives';
+import { jsonLogger } from '../../core/logging/json-logger.js';
+import { Logging } from '../../core/logging/logging.capability.js';
+import type { RequestLogger } from '../../core/logging/request-logger.js';
+import { requestHandler } from '../../core/request-handler.js';
+import { InMemoryTraceExporter } from '../../testing/in-memory-trace-exporter.js';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { HttpError } from '../http-error.js';
+import { HttpLogging } from '../logging/http-logging.capability.js';
+import { Rendering } from '../render/rendering.capability.js';
+import { Tracing } from './tracing.capability.js';
+
+describe('Tracing', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  let exporter: InMemoryTraceExporter;
+
+  beforeEach(() => {
+    exporter = new InMemoryTraceExporter();
+  });
+  afterEach(() => {
+    server.listenBy(noop);
+  });
+
+  it('starts new trace', async () => {
+    server.handleBy(
+      Tracing.with({ exporter })
+        .and(Rendering)
+        .for(({ traceSpan, renderJson }) => {
+          renderJson(traceSpan.headers());
+        }),
+    );
+
+    const response = await server.get('/test');
+    const { traceparent, tracestate } = JSON.parse(await response.body()) as Record<string, string>;
+    const [span] = exporter.spans;
+
+    expect(exporter.spans).toHaveLength(1);
+    expect(traceparent).toBe(`00-${span.traceId}-${span.spanId}-01`);
+    expect(tracestate).toBeUndefined();
+    expect(span.name).toBe('HTTP GET');
+    expect(span.parentSpanId).toBeUndefined();
+    expect(span.endTime).toBeGreaterThanOrEqual(span.startTime);
+    expect(span.error).toBeUndefined();
+    expect(span.attributes).toEqual({
+      'http.method': 'GET',
+      'http.url': expect.stringMatching(/\/test$/),
+      'http.status_code': 200,
+    });
+  });
+  it('continues incoming trace', async () => {
+    server.handleBy(
+      Tracing.with({ exporter })
+        .and(Rendering)
+        .for(({ traceSpan, renderJson }) => {
+          renderJson(traceSpan.headers());
+        }),
+    );
+
+    const response = await server.get('/test', {
+      headers: {
+        traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+        tracestate: 'rojo=00f067aa0ba902b7',
+      },
+    });
+    const headers = JSON.parse(await response.body()) as Record<string, string>;
+    const [span] = exporter.spans;
+
+    expect(span.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(span.parentSpanId).toBe('00f067aa0ba902b7');
+    expect(span.spanId).not.toBe('00f067aa0ba902b7');
+    expect(headers).toEqual({
+      traceparent: `00-4bf92f3577b34da6a3ce929d0e0e4736-${span.spanId}-01`,
+      tracestate: 'rojo=00f067aa0ba902b7',
+    });
+  });
+  it('combines multiple tracestate headers', async () => {
+    server.handleBy(
+      Tracing.with({ exporter })
+        .and(Rendering)
+        .for(({ traceSpan, renderJson }) => {
+          renderJson(traceSpan.context);
+        }),
+    );
+
+    const response = await server.get('/test', {
+      headers: {
+        traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+        tracestate: ['rojo=00f067aa0ba902b7', 'congo=t61rcWkgMzE'],
+      },
+    });
+
+    expect(JSON.parse(await response.body())).toMatchObject({
+      traceState: 'rojo=00f067aa0ba902b7, congo=t61rcWkgMzE',
+    });
+  });
+  it('does not export unsampled trace', async () => {
+    server.handleBy(
+      Tracing.with({ exporter })
+        .and(Rendering)
+        .for(({ traceSpan, renderJson }) => {
+          renderJson({ sampled: traceSpan.sampled });
+        }),
+    );
+
+    const response = await server.get('/test', {
+      headers: {
+        traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00',
+      },
+    });
+
+    expect(JSON.parse(await response.body())).toEqual({ sampled: false });
+    expect(exporter.spans).toHaveLength(0);
+  });
+  it('does not sample new trace when configured', async () => {
+    server.handleBy(
+      Tracing.with({ exporter, sampled: false })
+        .and(Rendering)
+        .for(({ renderJson }) => {
+          renderJson('ok');
+        }),
+    );
+
+    await (await server.get('/test')).body();
+
+    expect(exporter.spans).toHaveLength(0);
+  });
+  it('names request span after GET method when the latter is unknown', async () => {
+    server.handleBy(
+      requestHandler([
+        ({ request }) => {
+          delete request.method;
+        },
+        Tracing.with({ exporter }).for(({ response }) => {
+          response.end();
+        }),
+      ]),
+    );
+
+    await (await server.get('/test', { method: 'PUT' })).body();
+
+    expect(exporter.spans[0].name).toBe('HTTP GET');
+  });
+  it('starts new trace when incoming one is not trusted', async () => {
+    server.handleBy(
+      Tracing.with({ exporter, trusted: false, name: 'request' })
+        .and(Rendering)
+        .for(({ renderJson }) => {
+          renderJson('ok');
+        }),
+    );
+
+    await (
+      await server.get('/test', {
+        headers: {
+          traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+        },
+      })
+    ).body();
+
+    const [span] = exporter.spans;
+
+    expect(span.name).toBe('request');
+    expect(span.traceId).not.toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(span.parentSpanId).toBeUndefined();
+  });
+  it('starts child span when nested', async () => {
+    server.handleBy(
+      Tracing.with({ exporter, name: ({ request }) => `${request.method} request` })
+        .and(Tracing)
+        .and(Tracing.with({ name: ({ requestAddresses }) => requestAddresses.url.pathname }))
+        .and(Rendering)
+        .for(function nestedHandler({ renderJson }) {
+          renderJson('ok');
+        }),
+    );
+
+    await (await server.get('/test')).body();
+
+    const [nested, child, root] = exporter.spans;
+
+    expect(root.name).toBe('GET request');
+    expect(child.name).toBe('handler');
+    expect(child.parentSpanId).toBe(root.spanId);
+    expect(child.traceId).toBe(root.traceId);
+    expect(child.attributes).toEqual({});
+    expect(nested.name).toBe('/test');
+    expect(nested.parentSpanId).toBe(child.spanId);
+  });
+  it('names child span after handler', async () => {
+    server.handleBy(
+      Tracing.with({ exporter }).for(
+        Tracing.for(function nestedHandler({ response }) {
+          response.end();
+        }),
+      ),
+    );
+
+    await (await server.get('/test')).body();
+
+    expect(exporter.spans.map(({ name }) => name)).toEqual(['nestedHandler', 'HTTP GET']);
+  });
+  it('ends span with error', async () => {
+    const error = new HttpError(403);
+
+    server.handleBy(
+      { logError: false },
+      Tracing.with({ exporter }).for(() => {
+        throw error;
+      }),
+    );
+
+    const response = await server.get('/test');
+
+    expect(response.statusCode).toBe(403);
+    expect(exporter.spans[0].error).toBe(error);
+  });
+  it('does not end span twice', async () => {
+    server.handleBy(
+      Tracing.with({ exporter }).for(({ traceSpan, response }) => {
+        traceSpan.end();
+        response.end();
+      }),
+    );
+
+    await (await server.get('/test')).body();
+
+    expect(exporter.spans).toHaveLength(1);
+    expect(exporter.spans[0].attributes['http.status_code']).toBeUndefined();
+  });
+  it('prefixes log lines with trace and span identifiers', async () => {
+    const log = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+      trace: jest.fn(),
+    } satisfies RequestLogger;
+
+    server.handleBy(
+      Logging.logBy(log)
+        .and(Tracing.with({ exporter }))
+        .for(({ log, response }) => {
+          log.error('error');
+          log.warn('warn');
+          log.info('info');
+          log.debug('debug');
+          log.trace('trace');
+          response.end();
+        }),
+    );
+
+    await (await server.get('/test')).body();
+
+    const [{ traceId, spanId }] = exporter.spans;
+    const prefix = `[${traceId}/${spanId}]`;
+
+    expect(log.error).toHaveBeenCalledWith(prefix, 'error');
+    expect(log.warn).toHaveBeenCalledWith(prefix, 'warn');
+    expect(log.info).toHaveBeenCalledWith(prefix, 'info');
+    expect(log.debug).toHaveBeenCalledWith(prefix, 'debug');
+    expect(log.trace).toHaveBeenCalledWith(prefix, 'trace');
+  });
+  it('binds trace and span identifiers to structured logger', async () => {
+    const lines: string[] = [];
+
+    server.handleBy(
+      HttpLogging.logBy(jsonLogger({ write: line => lines.push(line) }))
+        .and(Tracing.with({ exporter }))
+        .for(({ log, response }) => {
+          log.child({ handler: 'test' }).info('Hello');
+          response.end();
+        }),
+    );
+
+    await (await server.get('/test')).body();
+
+    const [{ traceId, spanId }] = exporter.spans;
+
+    expect(JSON.parse(lines[0])).toMatchObject({ traceId, spanId, handler: 'test', msg: 'Hello' });
+  });
+  it('logs exporter failure', async () => {
+    const error = new Error('Export failed');
+    const logError = jest.spyOn(consoleLogger, 'error').mockImplementation(noop);
+
+    try {
+      server.handleBy(
+        Tracing.with({
+          exporter: {
+            export() {
+              throw error;
+            },
+          },
+        }).for(({ response }) => {
+          response.end('ok');
+        }),
+      );
+
+      const response = await server.get('/test');
+
+      expect(response.statusCode).toBe(200);
+      expect(await response.body()).toBe('ok');
+      expect(logError).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[[\da-f]{32}\/[\da-f]{16}\]$/),
+        'Failed to export span',
+        error,
+      );
+    } finally {
+      logError.mockRestore();
+    }
+  });
+  it('does not export spans by default', async () => {
+    server.handleBy(
+      Tracing.for(({ traceSpan, response }) => {
+        response.end(traceSpan.traceId);
+      }),
+    );
+
+    const response = await server.get('/test');
+
+    expect(await response.body()).toMatch(/^[\da-f]{32}$/);
+  });
+
+  describe('exporter', () => {
+    it('clears spans', async () => {
+      server.handleBy(
+        Tracing.with({ exporter }).for(({ response }) => {
+          response.end();
+        }),
+      );
+
+      await (await server.get('/test')).body();
+      expect(exporter.spans).toHaveLength(1);
+
+      exporter.clear();
+      expect(exporter.spans).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { asArray } from '@proc7ts/primitives';
+import type { JsonLogger } from '../../core/logging/json-logger.js';
+import type { LoggerMeans } from '../../core/logging/logger.means.js';
+import type { RequestLogger } from '../../core/logging/request-logger.js';
+import { RequestCapability } from '../../core/request-capability.js';
+import { RequestContext } from '../../core/request-context.js';
+import { RequestHandler } from '../../core/request-handler.js';
+import { requestExtension } from '../../core/request-modification.js';
+import { prefixRequestLogger } from '../../impl/prefix-request-logger.js';
+import { provideRequestCapability } from '../../impl/request-capability-registry.js';
+import type { HttpMeans } from '../http.means.js';
+import { parseTraceParent } from './trace-context.js';
+import type { TraceExporter } from './trace-exporter.js';
+import { TraceSpan } from './trace-span.js';
+import type { TracingMeans } from './tracing.means.js';
+
+/**
+ * Distributed tracing capability.
+ *
+ * Starts a {@link TraceSpan trace span} for each request. The span continues the trace specified by incoming
+ * [traceparent] and [tracestate] headers, or starts a new trace if there are no such headers. The span ends once
+ * request processing by handler completes, and is exported by configured {@link TraceExporter exporter} then.
+ *
+ * Nested tracing capability starts a child span of the active one. This can be used to trace nested handlers.
+ *
+ * If {@link LoggerMeans logger means} present in request context, then the logger is replaced with the one bound to
+ * trace and span identifiers. The {@link JsonLogger structured logger} gets `traceId` and `spanId` fields bound, while
+ * any other logger prefixes each log line with trace and span identifiers.
+ *
+ * Provides {@link TracingMeans distributed tracing means} for handlers.
+ *
+ * [traceparent]: https://www.w3.org/TR/trace-context/#traceparent-header
+ * [tracestate]: https://www.w3.org/TR/trace-context/#tracestate-header
+ *
+ * @typeParam TInput - Input HTTP request processing means.
+ */
+export interface Tracing<TInput extends HttpMeans.Any = HttpMeans.Any> extends RequestCapability<
+  TInput,
+  TracingMeans
+> {
+  /**
+   * Configures tracing capability.
+   *
+   * @param options - Tracing options.
+   *
+   * @returns New tracing capability.
+   */
+  with(options: Tracing.Options<TInput>): Tracing<TInput>;
+}
+
+export namespace Tracing {
+  /**
+   * Distributed tracing options.
+   *
+   * @typeParam TInput - Input HTTP request processing means.
+   */
+  export interface Options<TInput extends HttpMeans.Any = HttpMeans.Any> {
+    /**
+     * Exporter of ended spans.
+     *
+     * Spans are not exported when omitted.
+     */
+    readonly exporter?: TraceExporter | undefined;
+
+    /**
+     * Span name, or a function building it by request processing context.
+     *
+     * @default `HTTP <method>` for request span, or handler function name for the child one.
+     */
+    readonly name?: string | ((this: void, context: RequestContext<TInput>) => string) | undefined;
+
+    /**
+     * Whether to trust incoming trace context headers.
+     *
+     * When `false`, new trace is always started for each request.
+     *
+     * @default `true`.
+     */
+    readonly trusted?: boolean | undefined;
+
+    /**
+     * Whether the new trace is sampled.
+     *
+     * Ignored when incoming trace context is trusted. Its flags are used in this case.
+     *
+     * @default `true`.
+     */
+    readonly sampled?: boolean | undefined;
+  }
+}
+
+/**
+ * @internal
+ */
+class TracingCapability<TInput extends HttpMeans.Any>
+  extends RequestCapability<TInput, TracingMeans>
+  implements Tracing<TInput>
+{
+  readonly #options: Tracing.Options<TInput>;
+
+  constructor(options: Tracing.Options<TInput>) {
+    super();
+    this.#options = options;
+  }
+
+  for<TMeans extends TInput>(
+    handler: RequestHandler<TMeans & TracingMeans>,
+  ): RequestHandler<TMeans> {
+    return provideRequestCapability(this, handler, async context => {
+      const { traceSpan: parentSpan, log } = context as Partial<TracingMeans & LoggerMeans>;
+      const { name } = this.#options;
+      let traceSpan: TraceSpan;
+
+      if (parentSpan) {
+        traceSpan = parentSpan.startChild(
+          typeof name === 'function'
+            ? name(context as RequestContext<TInput>)
+            : (name ?? (handler.name || 'handler')),
+        );
+      } else {
+        traceSpan = this.#startSpan(context as RequestContext<TInput>);
+      }
+
+      const modification: TracingMeans & Partial<LoggerMeans> = log
+        ? {
+            traceSpan,
+            log: tracingLogger(log, traceSpan),
+          }
+        : { traceSpan };
+
+      let responded: boolean;
+
+      try {
+        responded = await context.next(
+          handler,
+          requestExtension<TMeans, TracingMeans>(modification),
+        );
+      } catch (error) {
+        traceSpan.end(error);
+
+        throw error;
+      }
+
+      if (!parentSpan) {
+        traceSpan.setAttribute('http.status_code', context.response.statusCode);
+      }
+      traceSpan.end();
+
+      return responded;
+    });
+  }
+
+  #startSpan(context: RequestContext<TInput>): TraceSpan {
+    const {
+      request: { method = 'GET', headers },
+      requestAddresses: { url },
+    } = context;
+    const { exporter, name = `HTTP ${method}`, trusted = true, sampled } = this.#options;
+    const { traceparent, tracestate } = headers;
+    const parent =
+      trusted && typeof traceparent === 'string'
+        ? parseTraceParent(traceparent, asArray(tracestate).join(','))
+        : undefined;
+
+    return new TraceSpan({
+      name: typeof name === 'function' ? name(context) : name,
+      parent,
+      sampled,
+      exporter,
+    })
+      .setAttribute('http.method', method)
+      .setAttribute('http.url', url.href);
+  }
+
+  with(options: Tracing.Options<TInput>): Tracing<TInput> {
+    return new TracingCapability(options);
+  }
+}
+
+/**
+ * @internal
+ */
+function tracingLogger(log: RequestLogger, { traceId, spanId }: TraceSpan): RequestLogger {
+  const { child } = log as Partial<JsonLogger>;
+
+  return typeof child === 'function'
+    ? child.call(log, { traceId, spanId })
+    : prefixRequestLogger(log, `[${traceId}/${spanId}]`);
+}
+
+/**
+ * Distributed tracing capability instance.
+ *
+ * Does not export spans. Should be {@link Tracing.with configured} to do so.
+ */
+export const Tracing: Tracing = /*#__PURE__*/ new TracingCapability({});
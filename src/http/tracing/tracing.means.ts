@@ -0,0 +1,15 @@
+import type { TraceSpan } from './trace-span.js';
+
+/**
+ * Distributed tracing means.
+ *
+ * Provided by {@link Tracing} capability.
+ */
+export interface TracingMeans {
+  /**
+   * Active trace span.
+   *
+   * Its {@link TraceSpan.headers headers} can be used to propagate the trace context to outgoing requests.
+   */
+  readonly traceSpan: TraceSpan;
+}
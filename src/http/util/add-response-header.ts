@@ -1,5 +1,5 @@
 import { asArray, elementOrArray } from '@proc7ts/primitives';
-import type { ServerResponse } from 'node:http';
+import type { HttpMeans } from '../http.means.js';
 
 /**
  * Appends HTTP header value to server response.
@@ -10,7 +10,7 @@ import type { ServerResponse } from 'node:http';
  * @param name - Target HTTP header name.
  * @param value - HTTP header value to add.
  */
-export function addResponseHeader(response: ServerResponse, name: string, value: string): void {
+export function addResponseHeader(response: HttpMeans.Response, name: string, value: string): void {
   const oldValues = asArray(response.getHeader(name)).map(String);
   const newValues = elementOrArray(new Set<string>(oldValues).add(value))!;
 
@@ -0,0 +1,125 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from '@jest/globals';
+import { noop } from '@proc7ts/primitives';
+import type { RequestCapability } from '../../core/request-capability.js';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import type { HttpMeans } from '../http.means.js';
+import { Rendering } from '../render/rendering.capability.js';
+import { JsonParsing } from '../request/json-parsing.capability.js';
+import { httpHeaderMatches, httpMethodIs, httpPathStartsWith } from './http-request-conditions.js';
+
+describe('HTTP request conditions', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.listenBy(noop);
+  });
+
+  function checkBy(condition: RequestCapability.Condition<HttpMeans>): void {
+    server.handleBy(async context => {
+      context.response.end(String(await condition(context)));
+    });
+  }
+
+  async function check(response: Promise<TestHttpServer.Response>): Promise<boolean> {
+    return JSON.parse(await (await response).body()) as boolean;
+  }
+
+  it('applies capability conditionally', async () => {
+    server.handleBy(
+      Rendering.and(JsonParsing.when(httpMethodIs('POST'))).for(({ requestBody, renderJson }) => {
+        renderJson({ request: requestBody ?? null });
+      }),
+    );
+
+    const post = await server.post('/test', `{ "text": "hello" }`, {
+      headers: { 'content-type': 'application/json' },
+    });
+
+    expect(JSON.parse(await post.body())).toEqual({ request: { text: 'hello' } });
+
+    const get = await server.get('/test');
+
+    expect(JSON.parse(await get.body())).toEqual({ request: null });
+  });
+
+  describe('httpMethodIs', () => {
+    it('matches HTTP request method', async () => {
+      checkBy(httpMethodIs('get', 'PUT'));
+
+      expect(await check(server.get('/test'))).toBe(true);
+      expect(await check(server.post('/test', undefined, { method: 'PUT' }))).toBe(true);
+      expect(await check(server.post('/test'))).toBe(false);
+    });
+    it('treats request without method as GET one', async () => {
+      server.handleBy(async context => {
+        delete context.request.method;
+        context.response.end(String(await httpMethodIs('GET')(context)));
+      });
+
+      expect(await check(server.post('/test'))).toBe(true);
+    });
+  });
+
+  describe('httpPathStartsWith', () => {
+    it('matches URL path prefix', async () => {
+      checkBy(httpPathStartsWith('/api'));
+
+      expect(await check(server.get('/api'))).toBe(true);
+      expect(await check(server.get('/api/'))).toBe(true);
+      expect(await check(server.get('/api/users?id=1'))).toBe(true);
+      expect(await check(server.get('/apis'))).toBe(false);
+      expect(await check(server.get('/test/api'))).toBe(false);
+    });
+    it('matches URL path prefix ending with slash', async () => {
+      checkBy(httpPathStartsWith('/api/'));
+
+      expect(await check(server.get('/api'))).toBe(true);
+      expect(await check(server.get('/api/users'))).toBe(true);
+      expect(await check(server.get('/apis'))).toBe(false);
+    });
+    it('matches any path with root prefix', async () => {
+      checkBy(httpPathStartsWith('/'));
+
+      expect(await check(server.get('/'))).toBe(true);
+      expect(await check(server.get('/test'))).toBe(true);
+    });
+  });
+
+  describe('httpHeaderMatches', () => {
+    it('matches header presence', async () => {
+      checkBy(httpHeaderMatches('X-Test'));
+
+      expect(await check(server.get('/test', { headers: { 'x-test': '' } }))).toBe(true);
+      expect(await check(server.get('/test'))).toBe(false);
+    });
+    it('matches header value', async () => {
+      checkBy(httpHeaderMatches('X-Test', 'test'));
+
+      expect(await check(server.get('/test', { headers: { 'x-test': 'test' } }))).toBe(true);
+      expect(await check(server.get('/test', { headers: { 'x-test': 'other' } }))).toBe(false);
+    });
+    it('matches header value by regular expression', async () => {
+      checkBy(httpHeaderMatches('Accept', /json/));
+
+      expect(await check(server.get('/test', { headers: { accept: 'application/json' } }))).toBe(
+        true,
+      );
+      expect(await check(server.get('/test', { headers: { accept: 'text/html' } }))).toBe(false);
+    });
+    it('matches header value by global regular expression repeatedly', async () => {
+      checkBy(httpHeaderMatches('Accept', /json/gy));
+
+      const headers = { accept: 'json' };
+
+      expect(await check(server.get('/test', { headers }))).toBe(true);
+      expect(await check(server.get('/test', { headers }))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { asArray } from '@proc7ts/primitives';
+import type { RequestCapability } from '../../core/request-capability.js';
+import type { HttpMeans } from '../http.means.js';
+
+/**
+ * Builds a request processing condition that holds for the given HTTP request methods.
+ *
+ * Request without method is treated as HTTP GET one.
+ *
+ * @param methods - HTTP request methods to match. Case-insensitive.
+ *
+ * @returns Request processing condition that holds when HTTP request method is one of the given `methods`.
+ */
+export function httpMethodIs(...methods: string[]): RequestCapability.Condition<HttpMeans.Any> {
+  const expected = new Set(methods.map(method => method.toUpperCase()));
+
+  return ({ request: { method = 'GET' } }) => expected.has(method.toUpperCase());
+}
+
+/**
+ * Builds a request processing condition that holds for HTTP request URL path starting with the given prefix.
+ *
+ * The path is matched segment-wise. I.e. `/api` prefix matches `/api` and `/api/users` paths, but not `/apis` one.
+ *
+ * The path is taken from {@link HttpMeans.Addresses.url request URL}. So it respects {@link HttpForwarding}.
+ *
+ * @param prefix - URL path prefix to match.
+ *
+ * @returns Request processing condition that holds when HTTP request URL path starts with the given `prefix`.
+ */
+export function httpPathStartsWith(prefix: string): RequestCapability.Condition<HttpMeans.Any> {
+  const dirPrefix = prefix.endsWith('/') ? prefix : prefix + '/';
+  const exactPath = dirPrefix.slice(0, -1);
+
+  return ({
+    requestAddresses: {
+      url: { pathname },
+    },
+  }) => pathname === exactPath || pathname.startsWith(dirPrefix);
+}
+
+/**
+ * Builds a request processing condition that holds for HTTP request containing the given header.
+ *
+ * @param name - HTTP request header name. Case-insensitive.
+ * @param value - Either expected header value, or regular expression the header value should match. When omitted,
+ * the condition holds when the header is present. Global and sticky flags of regular expression are ignored.
+ *
+ * @returns Request processing condition that holds when any of HTTP request header values matches the expected one.
+ */
+export function httpHeaderMatches(
+  name: string,
+  value?: string | RegExp,
+): RequestCapability.Condition<HttpMeans.Any> {
+  const key = name.toLowerCase();
+  let matches: (headerValue: string) => boolean;
+
+  if (value == null) {
+    matches = () => true;
+  } else if (typeof value === 'string') {
+    matches = headerValue => headerValue === value;
+  } else {
+    // Stateless copy of regular expression.
+    const pattern = new RegExp(value.source, value.flags.replace(/[gy]/g, ''));
+
+    matches = headerValue => pattern.test(headerValue);
+  }
+
+  return ({ request: { headers } }) => asArray(headers[key]).some(matches);
+}
@@ -1 +1,2 @@
 export * from './add-response-header.js';
+export * from './http-request-conditions.js';
@@ -0,0 +1,4 @@
+export * from './schema-builders.js';
+export * from './schema.js';
+export * from './validate-body.js';
+export * from './validate-query.js';
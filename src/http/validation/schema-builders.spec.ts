@@ -0,0 +1,280 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  arraySchema,
+  booleanSchema,
+  literalSchema,
+  numberSchema,
+  objectSchema,
+  optionalSchema,
+  stringSchema,
+} from './schema-builders.js';
+import { formatSchemaPath, Schema } from './schema.js';
+
+describe('stringSchema', () => {
+  it('accepts string', () => {
+    expect(stringSchema().validate('test')).toEqual({ ok: true, value: 'test' });
+  });
+  it('rejects missing value', () => {
+    expect(stringSchema().validate(undefined, ['name'])).toEqual({
+      ok: false,
+      issues: [{ path: ['name'], message: 'Required' }],
+    });
+  });
+  it('rejects non-string', () => {
+    expect(stringSchema().validate(1)).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Expected string' }],
+    });
+  });
+  it('checks length', () => {
+    const schema = stringSchema({ minLength: 2, maxLength: 3 });
+
+    expect(schema.validate('ab').ok).toBe(true);
+    expect(schema.validate('a')).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Expected at least 2 characters' }],
+    });
+    expect(schema.validate('abcd')).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Expected at most 3 characters' }],
+    });
+  });
+  it('checks pattern', () => {
+    const schema = stringSchema({ pattern: /^\d+$/g });
+
+    expect(schema.validate('123').ok).toBe(true);
+    expect(schema.validate('123').ok).toBe(true);
+    expect(schema.validate('abc')).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Expected to match /^\\d+$/g' }],
+    });
+  });
+});
+
+describe('numberSchema', () => {
+  it('accepts number', () => {
+    expect(numberSchema().validate(1.5)).toEqual({ ok: true, value: 1.5 });
+  });
+  it('rejects missing value', () => {
+    expect(numberSchema().validate(undefined)).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Required' }],
+    });
+  });
+  it('rejects non-number', () => {
+    expect(numberSchema().validate('1')).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Expected number' }],
+    });
+    expect(numberSchema().validate(NaN).ok).toBe(false);
+    expect(numberSchema().validate(Infinity).ok).toBe(false);
+  });
+  it('coerces numeric string', () => {
+    const schema = numberSchema({ coerce: true });
+
+    expect(schema.validate('13')).toEqual({ ok: true, value: 13 });
+    expect(schema.validate(' ').ok).toBe(false);
+    expect(schema.validate('abc').ok).toBe(false);
+  });
+  it('checks integer', () => {
+    const schema = numberSchema({ integer: true });
+
+    expect(schema.validate(13).ok).toBe(true);
+    expect(schema.validate(1.5)).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Expected integer' }],
+    });
+  });
+  it('checks range', () => {
+    const schema = numberSchema({ min: 1, max: 3 });
+
+    expect(schema.validate(1).ok).toBe(true);
+    expect(schema.validate(0)).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Expected at least 1' }],
+    });
+    expect(schema.validate(4)).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Expected at most 3' }],
+    });
+  });
+});
+
+describe('booleanSchema', () => {
+  it('accepts boolean', () => {
+    expect(booleanSchema().validate(false)).toEqual({ ok: true, value: false });
+  });
+  it('rejects missing value', () => {
+    expect(booleanSchema().validate(undefined)).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Required' }],
+    });
+  });
+  it('rejects non-boolean', () => {
+    expect(booleanSchema().validate('true')).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Expected boolean' }],
+    });
+  });
+  it('coerces boolean string', () => {
+    const schema = booleanSchema({ coerce: true });
+
+    expect(schema.validate('true')).toEqual({ ok: true, value: true });
+    expect(schema.validate('false')).toEqual({ ok: true, value: false });
+    expect(schema.validate('toString').ok).toBe(false);
+  });
+});
+
+describe('literalSchema', () => {
+  it('accepts listed value', () => {
+    const schema: Schema<'a' | 1 | null> = literalSchema('a', 1, null);
+
+    expect(schema.validate(null)).toEqual({ ok: true, value: null });
+    expect(schema.validate(1)).toEqual({ ok: true, value: 1 });
+  });
+  it('rejects missing value', () => {
+    expect(literalSchema('a').validate(undefined)).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Required' }],
+    });
+  });
+  it('rejects other value', () => {
+    expect(literalSchema('a', 1).validate('b')).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Expected one of "a", 1' }],
+    });
+  });
+});
+
+describe('arraySchema', () => {
+  it('accepts array', () => {
+    expect(arraySchema(numberSchema({ coerce: true })).validate([1, '2'])).toEqual({
+      ok: true,
+      value: [1, 2],
+    });
+  });
+  it('rejects missing value', () => {
+    expect(arraySchema(numberSchema()).validate(undefined)).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Required' }],
+    });
+  });
+  it('rejects non-array', () => {
+    expect(arraySchema(numberSchema()).validate(1)).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Expected array' }],
+    });
+  });
+  it('coerces non-array', () => {
+    expect(arraySchema(numberSchema(), { coerce: true }).validate(1)).toEqual({
+      ok: true,
+      value: [1],
+    });
+  });
+  it('checks the number of items', () => {
+    const schema = arraySchema(numberSchema(), { minItems: 1, maxItems: 2 });
+
+    expect(schema.validate([1, 2]).ok).toBe(true);
+    expect(schema.validate([])).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Expected at least 1 items' }],
+    });
+    expect(schema.validate([1, 2, 3])).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Expected at most 2 items' }],
+    });
+  });
+  it('reports all invalid items', () => {
+    expect(arraySchema(numberSchema()).validate(['a', 1, 'b'], ['items'])).toEqual({
+      ok: false,
+      issues: [
+        { path: ['items', 0], message: 'Expected number' },
+        { path: ['items', 2], message: 'Expected number' },
+      ],
+    });
+  });
+});
+
+describe('objectSchema', () => {
+  const schema = objectSchema({
+    name: stringSchema(),
+    age: optionalSchema(numberSchema()),
+  });
+
+  it('accepts object', () => {
+    const result = schema.validate({ name: 'test', age: 13, extra: true });
+
+    expect(result).toEqual({ ok: true, value: { name: 'test', age: 13 } });
+
+    if (result.ok) {
+      const { name, age }: { name: string; age?: number | undefined } = result.value;
+
+      expect([name, age]).toEqual(['test', 13]);
+    }
+  });
+  it('omits missing optional properties', () => {
+    expect(schema.validate({ name: 'test' })).toEqual({ ok: true, value: { name: 'test' } });
+  });
+  it('ignores inherited properties', () => {
+    expect(schema.validate(Object.create({ name: 'test' }))).toEqual({
+      ok: false,
+      issues: [{ path: ['name'], message: 'Required' }],
+    });
+  });
+  it('rejects missing value', () => {
+    expect(schema.validate(undefined)).toEqual({
+      ok: false,
+      issues: [{ path: [], message: 'Required' }],
+    });
+  });
+  it('rejects non-object', () => {
+    const failure = { ok: false, issues: [{ path: [], message: 'Expected object' }] };
+
+    expect(schema.validate(null)).toEqual(failure);
+    expect(schema.validate('test')).toEqual(failure);
+    expect(schema.validate([])).toEqual(failure);
+  });
+  it('reports all invalid properties', () => {
+    expect(schema.validate({ age: 'old' }, ['user'])).toEqual({
+      ok: false,
+      issues: [
+        { path: ['user', 'name'], message: 'Required' },
+        { path: ['user', 'age'], message: 'Expected number' },
+      ],
+    });
+  });
+  it('reports unexpected properties when strict', () => {
+    const strictSchema = objectSchema({ name: stringSchema() }, { strict: true });
+
+    expect(strictSchema.validate({ name: 'test' }).ok).toBe(true);
+    expect(strictSchema.validate({ name: 'test', extra: true })).toEqual({
+      ok: false,
+      issues: [{ path: ['extra'], message: 'Unexpected property' }],
+    });
+  });
+});
+
+describe('optionalSchema', () => {
+  it('accepts undefined', () => {
+    expect(optionalSchema(stringSchema()).validate(undefined)).toEqual({
+      ok: true,
+      value: undefined,
+    });
+  });
+  it('validates defined value', () => {
+    expect(optionalSchema(stringSchema()).validate(1, ['name'])).toEqual({
+      ok: false,
+      issues: [{ path: ['name'], message: 'Expected string' }],
+    });
+  });
+});
+
+describe('formatSchemaPath', () => {
+  it('formats empty path', () => {
+    expect(formatSchemaPath([])).toBe('');
+  });
+  it('formats nested path', () => {
+    expect(formatSchemaPath(['items', 0, 'name'])).toBe('items[0].name');
+    expect(formatSchemaPath([1, 'name'])).toBe('[1].name');
+  });
+});
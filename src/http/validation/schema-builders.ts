@@ -0,0 +1,396 @@
+import { Schema } from './schema.js';
+
+/**
+ * @internal
+ */
+function schemaSuccess<T>(value: T): Schema.Success<T> {
+  return { ok: true, value };
+}
+
+/**
+ * @internal
+ */
+function schemaFailure(path: Schema.Path, message: string): Schema.Failure {
+  return { ok: false, issues: [{ path, message }] };
+}
+
+/**
+ * String schema options.
+ */
+export interface StringSchemaOptions {
+  /**
+   * Minimum string length.
+   */
+  readonly minLength?: number | undefined;
+
+  /**
+   * Maximum string length.
+   */
+  readonly maxLength?: number | undefined;
+
+  /**
+   * Regular expression the string should match.
+   */
+  readonly pattern?: RegExp | undefined;
+}
+
+/**
+ * Builds a string schema.
+ *
+ * @param options - String schema options.
+ *
+ * @returns Schema of string values.
+ */
+export function stringSchema(options: StringSchemaOptions = {}): Schema<string> {
+  const { minLength, maxLength, pattern } = options;
+
+  return {
+    validate(value, path = []) {
+      if (value === undefined) {
+        return schemaFailure(path, 'Required');
+      }
+      if (typeof value !== 'string') {
+        return schemaFailure(path, 'Expected string');
+      }
+      if (minLength != null && value.length < minLength) {
+        return schemaFailure(path, `Expected at least ${minLength} characters`);
+      }
+      if (maxLength != null && value.length > maxLength) {
+        return schemaFailure(path, `Expected at most ${maxLength} characters`);
+      }
+      if (pattern) {
+        pattern.lastIndex = 0;
+        if (!pattern.test(value)) {
+          return schemaFailure(path, `Expected to match ${pattern}`);
+        }
+      }
+
+      return schemaSuccess(value);
+    },
+  };
+}
+
+/**
+ * Number schema options.
+ */
+export interface NumberSchemaOptions {
+  /**
+   * Minimum allowed value.
+   */
+  readonly min?: number | undefined;
+
+  /**
+   * Maximum allowed value.
+   */
+  readonly max?: number | undefined;
+
+  /**
+   * Whether the value expected to be an integer.
+   */
+  readonly integer?: boolean | undefined;
+
+  /**
+   * Whether to convert numeric strings to numbers.
+   *
+   * Useful when validating URL-encoded forms.
+   */
+  readonly coerce?: boolean | undefined;
+}
+
+/**
+ * Builds a number schema.
+ *
+ * Never accepts `NaN` or infinite values.
+ *
+ * @param options - Number schema options.
+ *
+ * @returns Schema of numeric values.
+ */
+export function numberSchema(options: NumberSchemaOptions = {}): Schema<number> {
+  const { min, max, integer, coerce } = options;
+
+  return {
+    validate(value, path = []) {
+      if (value === undefined) {
+        return schemaFailure(path, 'Required');
+      }
+      if (coerce && typeof value === 'string' && value.trim()) {
+        value = Number(value);
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return schemaFailure(path, 'Expected number');
+      }
+      if (integer && !Number.isInteger(value)) {
+        return schemaFailure(path, 'Expected integer');
+      }
+      if (min != null && value < min) {
+        return schemaFailure(path, `Expected at least ${min}`);
+      }
+      if (max != null && value > max) {
+        return schemaFailure(path, `Expected at most ${max}`);
+      }
+
+      return schemaSuccess(value);
+    },
+  };
+}
+
+/**
+ * Boolean schema options.
+ */
+export interface BooleanSchemaOptions {
+  /**
+   * Whether to convert `"true"` and `"false"` strings to booleans.
+   *
+   * Useful when validating URL-encoded forms.
+   */
+  readonly coerce?: boolean | undefined;
+}
+
+/**
+ * @internal
+ */
+const BOOLEAN_STRINGS: Readonly<Record<string, boolean>> = {
+  true: true,
+  false: false,
+};
+
+/**
+ * Builds a boolean schema.
+ *
+ * @param options - Boolean schema options.
+ *
+ * @returns Schema of boolean values.
+ */
+export function booleanSchema(options: BooleanSchemaOptions = {}): Schema<boolean> {
+  const { coerce } = options;
+
+  return {
+    validate(value, path = []) {
+      if (value === undefined) {
+        return schemaFailure(path, 'Required');
+      }
+      if (coerce && typeof value === 'string' && Object.hasOwn(BOOLEAN_STRINGS, value)) {
+        value = BOOLEAN_STRINGS[value];
+      }
+      if (typeof value !== 'boolean') {
+        return schemaFailure(path, 'Expected boolean');
+      }
+
+      return schemaSuccess(value);
+    },
+  };
+}
+
+/**
+ * Builds a schema accepting only the given literal values.
+ *
+ * @typeParam TValues - Type of accepted values.
+ * @param values - Accepted values.
+ *
+ * @returns Schema of literal values.
+ */
+export function literalSchema<const TValues extends readonly (string | number | boolean | null)[]>(
+  ...values: TValues
+): Schema<TValues[number]> {
+  const message = `Expected one of ${values.map(value => JSON.stringify(value)).join(', ')}`;
+
+  return {
+    validate(value, path = []) {
+      if (value === undefined) {
+        return schemaFailure(path, 'Required');
+      }
+      if (!values.includes(value as TValues[number])) {
+        return schemaFailure(path, message);
+      }
+
+      return schemaSuccess(value as TValues[number]);
+    },
+  };
+}
+
+/**
+ * Array schema options.
+ */
+export interface ArraySchemaOptions {
+  /**
+   * Minimum number of array items.
+   */
+  readonly minItems?: number | undefined;
+
+  /**
+   * Maximum number of array items.
+   */
+  readonly maxItems?: number | undefined;
+
+  /**
+   * Whether to convert non-array value to array containing it as the only item.
+   *
+   * Useful when validating URL-encoded forms, where single value can not be distinguished from array of one item.
+   */
+  readonly coerce?: boolean | undefined;
+}
+
+/**
+ * Builds an array schema.
+ *
+ * Validates each array item with the given schema. Reports issues of all invalid items.
+ *
+ * @typeParam T - Type of array items.
+ * @param item - Array item schema.
+ * @param options - Array schema options.
+ *
+ * @returns Schema of arrays.
+ */
+export function arraySchema<T>(item: Schema<T>, options: ArraySchemaOptions = {}): Schema<T[]> {
+  const { minItems, maxItems, coerce } = options;
+
+  return {
+    validate(value, path = []) {
+      if (value === undefined) {
+        return schemaFailure(path, 'Required');
+      }
+      if (!Array.isArray(value)) {
+        if (!coerce) {
+          return schemaFailure(path, 'Expected array');
+        }
+        value = [value];
+      }
+
+      const items = value as unknown[];
+
+      if (minItems != null && items.length < minItems) {
+        return schemaFailure(path, `Expected at least ${minItems} items`);
+      }
+      if (maxItems != null && items.length > maxItems) {
+        return schemaFailure(path, `Expected at most ${maxItems} items`);
+      }
+
+      const result: T[] = [];
+      const issues: Schema.Issue[] = [];
+
+      items.forEach((value, index) => {
+        const itemResult = item.validate(value, [...path, index]);
+
+        if (itemResult.ok) {
+          result.push(itemResult.value);
+        } else {
+          issues.push(...itemResult.issues);
+        }
+      });
+
+      return issues.length ? { ok: false, issues } : schemaSuccess(result);
+    },
+  };
+}
+
+/**
+ * Object schema shape.
+ *
+ * Maps property names to their schemas.
+ */
+export type ObjectSchemaShape = Readonly<Record<string, Schema<unknown>>>;
+
+/**
+ * A type of object valid by the schema of the given shape.
+ *
+ * The properties with schemas accepting `undefined` values are optional.
+ *
+ * @typeParam TShape - Object schema shape.
+ */
+export type ObjectSchemaType<TShape extends ObjectSchemaShape> = {
+  [K in keyof TShape as undefined extends Schema.Type<TShape[K]> ? never : K]: Schema.Type<
+    TShape[K]
+  >;
+} & {
+  [K in keyof TShape as undefined extends Schema.Type<TShape[K]> ? K : never]?: Schema.Type<
+    TShape[K]
+  >;
+};
+
+/**
+ * Object schema options.
+ */
+export interface ObjectSchemaOptions {
+  /**
+   * Whether to report properties not present in schema shape.
+   *
+   * Such properties are removed from valid value by default.
+   */
+  readonly strict?: boolean | undefined;
+}
+
+/**
+ * Builds an object schema.
+ *
+ * Validates each object property with corresponding schema. Reports issues of all invalid properties.
+ *
+ * @typeParam TShape - Object schema shape.
+ * @param shape - Object schema shape.
+ * @param options - Object schema options.
+ *
+ * @returns Schema of objects.
+ */
+export function objectSchema<TShape extends ObjectSchemaShape>(
+  shape: TShape,
+  options: ObjectSchemaOptions = {},
+): Schema<ObjectSchemaType<TShape>> {
+  const { strict } = options;
+
+  return {
+    validate(value, path = []) {
+      if (value === undefined) {
+        return schemaFailure(path, 'Required');
+      }
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return schemaFailure(path, 'Expected object');
+      }
+
+      const object = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      const issues: Schema.Issue[] = [];
+
+      for (const [key, schema] of Object.entries(shape)) {
+        const propertyResult = schema.validate(
+          Object.hasOwn(object, key) ? object[key] : undefined,
+          [...path, key],
+        );
+
+        if (!propertyResult.ok) {
+          issues.push(...propertyResult.issues);
+        } else if (propertyResult.value !== undefined) {
+          result[key] = propertyResult.value;
+        }
+      }
+      if (strict) {
+        for (const key of Object.keys(object)) {
+          if (!Object.hasOwn(shape, key)) {
+            issues.push({ path: [...path, key], message: 'Unexpected property' });
+          }
+        }
+      }
+
+      return issues.length
+        ? { ok: false, issues }
+        : schemaSuccess(result as ObjectSchemaType<TShape>);
+    },
+  };
+}
+
+/**
+ * Builds a schema of optional value.
+ *
+ * Accepts `undefined` value, and validates others by the given schema.
+ *
+ * @typeParam T - Type of valid value.
+ * @param schema - Schema of defined value.
+ *
+ * @returns Schema of optional values.
+ */
+export function optionalSchema<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    validate(value, path) {
+      return value === undefined ? schemaSuccess(undefined) : schema.validate(value, path);
+    },
+  };
+}
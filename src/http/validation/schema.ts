@@ -0,0 +1,111 @@
+/**
+ * Value schema.
+ *
+ * Validates arbitrary values and converts them to the values of expected type. Schemas can be constructed by schema
+ * builder functions, such as {@link objectSchema}, {@link stringSchema}, etc.
+ *
+ * @typeParam T - Type of valid value.
+ */
+export interface Schema<T> {
+  /**
+   * Validates the given value.
+   *
+   * @param value - The value to validate.
+   * @param path - A path to the value within enclosing one. Used to report issues.
+   *
+   * @returns Validation result.
+   */
+  validate(this: void, value: unknown, path?: Schema.Path): Schema.Result<T>;
+}
+
+export namespace Schema {
+  /**
+   * A type of valid value of the given schema.
+   *
+   * @typeParam TSchema - Schema type.
+   */
+  export type Type<TSchema extends Schema<unknown>> = TSchema extends Schema<infer T> ? T : never;
+
+  /**
+   * A path to the value within enclosing one.
+   *
+   * Consists of property names and array indices.
+   */
+  export type Path = readonly (string | number)[];
+
+  /**
+   * Validation issue.
+   */
+  export interface Issue {
+    /**
+     * A path to invalid value.
+     */
+    readonly path: Path;
+
+    /**
+     * Issue message.
+     */
+    readonly message: string;
+  }
+
+  /**
+   * Validation result.
+   *
+   * Either contains a valid value, or a non-empty list of validation issues.
+   *
+   * @typeParam T - Type of valid value.
+   */
+  export type Result<T> = Success<T> | Failure;
+
+  /**
+   * Successful validation result.
+   *
+   * @typeParam T - Type of valid value.
+   */
+  export interface Success<T> {
+    readonly ok: true;
+
+    /**
+     * Valid value. Possibly converted.
+     */
+    readonly value: T;
+  }
+
+  /**
+   * Failed validation result.
+   */
+  export interface Failure {
+    readonly ok: false;
+
+    /**
+     * Non-empty list of validation issues.
+     */
+    readonly issues: readonly Issue[];
+  }
+}
+
+/**
+ * Formats a path to the value within enclosing one.
+ *
+ * Property names are separated by dots, while array indices are enclosed into square brackets. E.g.
+ * `items[0].name`.
+ *
+ * @param path - Path to format.
+ *
+ * @returns Formatted path, or empty string for empty path.
+ */
+export function formatSchemaPath(path: Schema.Path): string {
+  let result = '';
+
+  for (const key of path) {
+    if (typeof key === 'number') {
+      result += `[${key}]`;
+    } else if (result) {
+      result += `.${key}`;
+    } else {
+      result = key;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,178 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import { consoleLogger } from '@proc7ts/logger';
+import { noop } from '@proc7ts/primitives';
+import { TestHttpServer } from '../../testing/test-http-server.js';
+import { HttpError } from '../http-error.js';
+import { Rendering } from '../render/rendering.capability.js';
+import { FormDecoding } from '../request/form-decoding.capability.js';
+import { JsonParsing } from '../request/json-parsing.capability.js';
+import {
+  arraySchema,
+  numberSchema,
+  objectSchema,
+  optionalSchema,
+  stringSchema,
+} from './schema-builders.js';
+import { validateBody } from './validate-body.js';
+
+describe('validateBody', () => {
+  let server: TestHttpServer;
+
+  beforeAll(async () => {
+    server = await TestHttpServer.start();
+  });
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  let logErrorSpy: jest.Mock<(...args: unknown[]) => void>;
+
+  beforeEach(() => {
+    logErrorSpy = jest.spyOn(consoleLogger, 'error').mockImplementation(noop) as typeof logErrorSpy;
+  });
+  afterEach(() => {
+    logErrorSpy.mockRestore();
+  });
+
+  const itemSchema = objectSchema({
+    name: stringSchema({ minLength: 1 }),
+    tags: optionalSchema(arraySchema(stringSchema(), { coerce: true })),
+    count: optionalSchema(numberSchema({ integer: true, coerce: true })),
+  });
+
+  describe('with JSON body', () => {
+    beforeEach(() => {
+      server.handleBy(
+        Rendering.and(JsonParsing.withBody(validateBody(arraySchema(itemSchema)))).for(
+          ({ requestBody, renderJson }) => {
+            const names: string[] = requestBody.map(({ name }) => name);
+
+            renderJson({ names });
+          },
+        ),
+      );
+    });
+
+    it('accepts valid body', async () => {
+      const response = await server.post('/test', JSON.stringify([{ name: 'a' }, { name: 'b' }]), {
+        headers: { 'content-type': 'application/json' },
+      });
+
+      expect(JSON.parse(await response.body())).toEqual({ names: ['a', 'b'] });
+    });
+    it('responds with 422 (Unprocessable Entity) listing issues in JSON', async () => {
+      const response = await server.post(
+        '/test',
+        JSON.stringify([{ name: 'a' }, { name: '', count: 1.5 }]),
+        {
+          headers: { 'content-type': 'application/json', accept: 'application/json' },
+        },
+      );
+
+      expect(response.statusCode).toBe(422);
+      expect(JSON.parse(await response.body())).toEqual({
+        error: {
+          code: 422,
+          message: 'Unprocessable Entity',
+          details: 'Invalid request body',
+          issues: [
+            { path: '[1].name', message: 'Expected at least 1 characters' },
+            { path: '[1].count', message: 'Expected integer' },
+          ],
+        },
+      });
+      expect(logErrorSpy).toHaveBeenCalledWith(expect.any(HttpError));
+    });
+    it('responds with 422 (Unprocessable Entity) listing issues in HTML', async () => {
+      const response = await server.post('/test', JSON.stringify({ name: '<a>' }), {
+        headers: { 'content-type': 'application/json' },
+      });
+
+      expect(response.statusCode).toBe(422);
+
+      const body = await response.body();
+
+      expect(body).toContain('Invalid request body\n<ul>\n<li>Expected array</li>\n</ul>');
+    });
+  });
+
+  describe('with URL-encoded form', () => {
+    beforeEach(() => {
+      server.handleBy(
+        Rendering.and(FormDecoding.withBody(validateBody(itemSchema))).for(
+          ({ requestBody, renderJson }) => {
+            renderJson(requestBody);
+          },
+        ),
+      );
+    });
+
+    it('accepts valid form', async () => {
+      const response = await server.post('/test', 'name=test&tags=a&tags=b&count=13', {
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      });
+
+      expect(JSON.parse(await response.body())).toEqual({
+        name: 'test',
+        tags: ['a', 'b'],
+        count: 13,
+      });
+    });
+    it('coerces single value to array', async () => {
+      const response = await server.post('/test', 'name=test&tags=a', {
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      });
+
+      expect(JSON.parse(await response.body())).toEqual({ name: 'test', tags: ['a'] });
+    });
+    it('does not replace prototype by `__proto__` parameter', async () => {
+      server.handleBy(
+        Rendering.and(
+          FormDecoding.withBody(
+            validateBody<object>({ validate: value => ({ ok: true, value: value as object }) }),
+          ),
+        ).for(({ requestBody, renderJson }) => {
+          renderJson({
+            prototype: Object.getPrototypeOf(requestBody) === Object.prototype,
+            entries: Object.entries(requestBody),
+          });
+        }),
+      );
+
+      const response = await server.post('/test', '__proto__=a&__proto__=b&name=test', {
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      });
+
+      expect(JSON.parse(await response.body())).toEqual({
+        prototype: true,
+        entries: [
+          ['__proto__', ['a', 'b']],
+          ['name', 'test'],
+        ],
+      });
+    });
+    it('responds with 422 (Unprocessable Entity) listing issues in HTML', async () => {
+      const response = await server.post('/test', 'name=a&name=b&count=<b>', {
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      });
+
+      expect(response.statusCode).toBe(422);
+
+      const body = await response.body();
+
+      expect(body).toContain(
+        '<li><code>name</code>: Expected string</li>\n' +
+          '<li><code>count</code>: Expected number</li>\n',
+      );
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { RequestContext } from '../../core/request-context.js';
+import { Schema } from './schema.js';
+import { validateRequestValue } from './validate-request-value.impl.js';
+
+/**
+ * Creates request body validator.
+ *
+ * The result is a {@link RequestValueTransformer request value transformer} that can be passed to
+ * {@link JsonParsing.withBody} or {@link FormDecoding.withBody}. The type of request body is inferred from schema.
+ *
+ * URL-encoded form represented by `URLSearchParams` is converted to object before validation. Repeated parameters are
+ * represented as arrays of strings, while single ones - as strings.
+ *
+ * Rejects with 422 (Unprocessable Entity) {@link HttpError HTTP error} listing all validation issues if request body
+ * is invalid.
+ *
+ * @typeParam T - Type of valid request body.
+ * @param schema - Request body schema.
+ *
+ * @returns Request body validator.
+ */
+export function validateBody<T>(
+  schema: Schema<T>,
+): <TMeans>(this: void, from: unknown, context: RequestContext<TMeans>) => T {
+  return from => validateRequestValue(schema, from, 422, 'Invalid request body');
+}
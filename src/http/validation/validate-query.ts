@@ -0,0 +1,28 @@
+import { URLSearchParams } from 'node:url';
+import { RequestContext } from '../../core/request-context.js';
+import { Schema } from './schema.js';
+import { validateRequestValue } from './validate-request-value.impl.js';
+
+/**
+ * Creates request query validator.
+ *
+ * The result is a {@link RequestValueTransformer request value transformer} that can be passed to
+ * {@link QueryParsing.withQuery}. The type of request query is inferred from schema.
+ *
+ * URL query parameters are converted to object before validation. Repeated parameters are represented as arrays of
+ * strings, while single ones - as strings. So, the schema is expected to coerce parameter values. E.g. by
+ * `numberSchema({ coerce: true })` or `arraySchema(stringSchema(), { coerce: true })`.
+ *
+ * Rejects with 400 (Bad Request) {@link HttpError HTTP error} listing all validation issues if request query is
+ * invalid.
+ *
+ * @typeParam T - Type of valid request query.
+ * @param schema - Request query schema.
+ *
+ * @returns Request query validator.
+ */
+export function validateQuery<T>(
+  schema: Schema<T>,
+): <TMeans>(this: void, from: URLSearchParams, context: RequestContext<TMeans>) => T {
+  return from => validateRequestValue(schema, from, 400, 'Invalid request query');
+}
@@ -0,0 +1,63 @@
+import { URLSearchParams } from 'node:url';
+import { HttpError } from '../http-error.js';
+import { formatSchemaPath, Schema } from './schema.js';
+
+/**
+ * Validates request value by the given schema.
+ *
+ * `URLSearchParams` are converted to object before validation. Repeated parameters are represented as arrays of
+ * strings, while single ones - as strings.
+ *
+ * @internal
+ * @param schema - Value schema.
+ * @param value - The value to validate.
+ * @param statusCode - HTTP status code to reject invalid value with.
+ * @param details - Error details to reject invalid value with.
+ *
+ * @returns Valid value.
+ */
+export function validateRequestValue<T>(
+  schema: Schema<T>,
+  value: unknown,
+  statusCode: number,
+  details: string,
+): T {
+  const result = schema.validate(
+    value instanceof URLSearchParams ? searchParamsToObject(value) : value,
+  );
+
+  if (!result.ok) {
+    throw new HttpError(statusCode, {
+      details,
+      issues: result.issues.map(({ path, message }) => ({
+        path: formatSchemaPath(path),
+        message,
+      })),
+    });
+  }
+
+  return result.value;
+}
+
+/**
+ * @internal
+ */
+function searchParamsToObject(params: URLSearchParams): Record<string, string | string[]> {
+  const result: Record<string, string | string[]> = {};
+
+  for (const key of params.keys()) {
+    if (!Object.hasOwn(result, key)) {
+      const values = params.getAll(key);
+
+      // Define property rather than assign it. Otherwise, `__proto__` parameter would replace the prototype.
+      Object.defineProperty(result, key, {
+        configurable: true,
+        enumerable: true,
+        writable: true,
+        value: values.length > 1 ? values : values[0],
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,69 @@
+import type { ServerResponse } from 'node:http';
+import type { HttpMeans } from '../http/http.means.js';
+
+/**
+ * @internal
+ */
+const ResponseBytes$counter = /*#__PURE__*/ new WeakMap<HttpMeans.Response, () => number>();
+
+/**
+ * Starts counting response body bytes, unless counted already.
+ *
+ * The counter is shared by all callers, so that the response is patched only once.
+ *
+ * @internal
+ * @param response - HTTP response to count the bytes of.
+ *
+ * @returns A function returning the number of response body bytes written so far.
+ */
+export function countResponseBytes(response: HttpMeans.Response): () => number {
+  let counter = ResponseBytes$counter.get(response);
+
+  if (!counter) {
+    counter = patchResponseBytes(response);
+    ResponseBytes$counter.set(response, counter);
+  }
+
+  return counter;
+}
+
+/**
+ * @internal
+ */
+function patchResponseBytes(response: HttpMeans.Response): () => number {
+  const write = response.write;
+  const end = response.end;
+  let bytes = 0;
+  let ending = false;
+  const count = (chunk: unknown, encoding: unknown): void => {
+    if (typeof chunk === 'string') {
+      bytes += Buffer.byteLength(
+        chunk,
+        typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf-8',
+      );
+    } else if (chunk instanceof Uint8Array) {
+      bytes += chunk.byteLength;
+    }
+  };
+
+  response.write = function (this: ServerResponse, chunk: unknown, ...args: unknown[]) {
+    if (!ending) {
+      count(chunk, args[0]);
+    }
+
+    return (write as (...args: unknown[]) => boolean).call(this, chunk, ...args);
+  } as ServerResponse['write'];
+  response.end = function (this: ServerResponse, chunk?: unknown, ...args: unknown[]) {
+    count(chunk, args[0]);
+
+    // HTTP/2 compatibility API writes the last chunk by calling `write()`. Do not count it twice.
+    ending = true;
+    try {
+      return (end as (...args: unknown[]) => ServerResponse).call(this, chunk, ...args);
+    } finally {
+      ending = false;
+    }
+  } as ServerResponse['end'];
+
+  return () => bytes;
+}
@@ -0,0 +1,30 @@
+import type { HttpMeans } from '../http/http.means.js';
+import type { HttpDrain } from '../http/server/http-drain.js';
+
+/**
+ * @internal
+ */
+const HttpDrain$byRequest = /*#__PURE__*/ new WeakMap<HttpMeans.Request, HttpDrain>();
+
+/**
+ * Registers HTTP request received by the server tracked by the given drain.
+ *
+ * @internal
+ * @param request - Received HTTP request.
+ * @param drain - HTTP server connections drain.
+ */
+export function registerHttpDrainRequest(request: HttpMeans.Request, drain: HttpDrain): void {
+  HttpDrain$byRequest.set(request, drain);
+}
+
+/**
+ * Obtains HTTP server connections drain tracking the server the given request received by.
+ *
+ * @internal
+ * @param request - HTTP request.
+ *
+ * @returns Either HTTP server connections drain, or `undefined` when the server is not tracked.
+ */
+export function httpDrainOf(request: HttpMeans.Request): HttpDrain | undefined {
+  return HttpDrain$byRequest.get(request);
+}
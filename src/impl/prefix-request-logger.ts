@@ -0,0 +1,14 @@
+import type { RequestLogger } from '../core/logging/request-logger.js';
+
+/**
+ * @internal
+ */
+export function prefixRequestLogger(log: RequestLogger, prefix: unknown): RequestLogger {
+  return {
+    error: (...args) => log.error(prefix, ...args),
+    warn: (...args) => log.warn(prefix, ...args),
+    info: (...args) => log.info(prefix, ...args),
+    debug: (...args) => log.debug(prefix, ...args),
+    trace: (...args) => log.trace(prefix, ...args),
+  };
+}
@@ -0,0 +1,152 @@
+import type { RequestCapability } from '../core/request-capability.js';
+import type { RequestContext } from '../core/request-context.js';
+import type { RequestHandler } from '../core/request-handler.js';
+
+/**
+ * @internal
+ */
+const RequestCapability$byHandler = new WeakMap<RequestHandler<any>, RequestCapability<any, any>>();
+
+/**
+ * @internal
+ */
+const RequestCapability$provided = new WeakSet<RequestHandler<any>>();
+
+/**
+ * Provides request processing capability to the given handler.
+ *
+ * Registers the handler the capability is provided to. This is used to report the capability to request processing
+ * tracer.
+ *
+ * The returned handler skips the capability when it is applied already, and checks the required capabilities are
+ * applied.
+ *
+ * @internal
+ * @param capability - Request processing capability to provide.
+ * @param handler - Request processing handler the capability is provided to.
+ * @param provided - Request processing handler that applies the capability and delegates to the `handler`.
+ * @param whenApplied - Request processing handler to call instead when capability applied already. Delegates to the
+ * `handler` by default.
+ *
+ * @returns Request processing handler applying the capability.
+ */
+export function provideRequestCapability<TMeans>(
+  capability: RequestCapability<any, any>,
+  handler: RequestHandler<any>,
+  provided: RequestHandler<TMeans>,
+  whenApplied: RequestHandler<TMeans> = context => context.next(handler),
+): RequestHandler<TMeans> {
+  if (RequestCapability$provided.has(provided)) {
+    // Provided already.
+    return provided;
+  }
+
+  RequestCapability$byHandler.set(handler, capability);
+
+  const { id, requires } = capability;
+
+  return requestCapabilityProvided<TMeans>(context => {
+    if (capability.isAppliedTo(context)) {
+      return whenApplied(context);
+    }
+
+    for (const required of requires) {
+      if (!required.isAppliedTo(context)) {
+        throw new ReferenceError(`${String(capability)} requires ${String(required)}`);
+      }
+    }
+
+    return provided(id != null ? requestContextApplying(context, id) : context);
+  });
+}
+
+/**
+ * @internal
+ */
+function requestCapabilityProvided<TMeans>(
+  handler: RequestHandler<TMeans>,
+): RequestHandler<TMeans> {
+  RequestCapability$provided.add(handler);
+
+  return handler;
+}
+
+/**
+ * @internal
+ */
+export function requestCapabilityOf(
+  handler: RequestHandler<any>,
+): RequestCapability<any, any> | undefined {
+  return RequestCapability$byHandler.get(handler);
+}
+
+/**
+ * @internal
+ */
+const RequestHandler$delegate = new WeakMap<RequestHandler<any>, RequestHandler<any>>();
+
+/**
+ * Registers request processing handler delegating to another one.
+ *
+ * Delegating handler is reported to request processing tracer as the handler it delegates to.
+ *
+ * @internal
+ * @param delegating - Request processing handler delegating to the `handler`.
+ * @param handler - Request processing handler to delegate to.
+ *
+ * @returns Delegating handler.
+ */
+export function requestHandlerDelegating<TMeans>(
+  delegating: RequestHandler<TMeans>,
+  handler: RequestHandler<TMeans>,
+): RequestHandler<TMeans> {
+  RequestHandler$delegate.set(delegating, requestHandlerOf(handler));
+
+  return delegating;
+}
+
+/**
+ * @internal
+ */
+export function requestHandlerOf<TMeans>(handler: RequestHandler<TMeans>): RequestHandler<TMeans> {
+  return RequestHandler$delegate.get(handler) ?? handler;
+}
+
+/**
+ * @internal
+ */
+const RequestCapability$applied = /*#__PURE__*/ Symbol('RequestCapability.applied');
+
+/**
+ * @internal
+ */
+interface RequestCapability$Means {
+  readonly [RequestCapability$applied]?: ReadonlySet<string> | undefined;
+}
+
+/**
+ * @internal
+ */
+export function isRequestCapabilityApplied(context: object, id: string): boolean {
+  return !!(context as RequestCapability$Means)[RequestCapability$applied]?.has(id);
+}
+
+/**
+ * @internal
+ */
+export function requestContextApplying<TMeans>(
+  context: RequestContext<TMeans>,
+  id: string,
+): RequestContext<TMeans> {
+  const { [RequestCapability$applied]: applied } = context as RequestCapability$Means;
+  const modification: RequestCapability$Means = {
+    [RequestCapability$applied]: new Set(applied).add(id),
+  };
+
+  return {
+    ...context,
+    next(handler, extension) {
+      return context.next(handler, { ...extension, ...modification } as typeof extension);
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import type { ErrorReporter } from '../http/error-reporter.js';
+
+/**
+ * Error reporter that collects reported errors in memory.
+ *
+ * Can be used for testing purposes.
+ */
+export class InMemoryErrorReporter implements ErrorReporter {
+  readonly #reports: InMemoryErrorReporter.Report[] = [];
+
+  /**
+   * Error reports in order of their reporting.
+   */
+  get reports(): readonly InMemoryErrorReporter.Report[] {
+    return this.#reports;
+  }
+
+  report(error: unknown, context: ErrorReporter.Context): void {
+    this.#reports.push({ error, context });
+  }
+
+  /**
+   * Removes all error reports.
+   */
+  clear(): void {
+    this.#reports.length = 0;
+  }
+}
+
+export namespace InMemoryErrorReporter {
+  /**
+   * Error report collected by {@link InMemoryErrorReporter}.
+   */
+  export interface Report {
+    /**
+     * Reported error.
+     */
+    readonly error: unknown;
+
+    /**
+     * Error report context.
+     */
+    readonly context: ErrorReporter.Context;
+  }
+}
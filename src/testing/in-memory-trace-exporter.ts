@@ -0,0 +1,29 @@
+import type { TraceExporter } from '../http/tracing/trace-exporter.js';
+import type { TraceSpan } from '../http/tracing/trace-span.js';
+
+/**
+ * Trace exporter that collects exported spans in memory.
+ *
+ * Can be used for testing purposes.
+ */
+export class InMemoryTraceExporter implements TraceExporter {
+  readonly #spans: TraceSpan[] = [];
+
+  /**
+   * Exported spans in order of their export.
+   */
+  get spans(): readonly TraceSpan[] {
+    return this.#spans;
+  }
+
+  export(span: TraceSpan): void {
+    this.#spans.push(span);
+  }
+
+  /**
+   * Removes all exported spans.
+   */
+  clear(): void {
+    this.#spans.length = 0;
+  }
+}
@@ -1,4 +1,7 @@
 /**
  * @module @hatsy/hatsy/testing.js
  */
+export * from './in-memory-error-reporter.js';
+export * from './in-memory-trace-exporter.js';
 export * from './test-http-server.js';
+export * from './test-http2-server.js';
@@ -1,18 +1,11 @@
 import { noop } from '@proc7ts/primitives';
-import {
-  createServer,
-  IncomingMessage,
-  request,
-  RequestListener,
-  RequestOptions,
-  Server,
-} from 'node:http';
+import { IncomingMessage, request, RequestListener, RequestOptions, Server } from 'node:http';
 import type { AddressInfo } from 'node:net';
-import { promisify } from 'node:util';
 import { RequestHandler } from '../core/request-handler.js';
 import { HttpConfig } from '../http/http-config.js';
 import { httpListener } from '../http/http-listener.js';
 import { HttpMeans } from '../http/http.means.js';
+import { HttpApp } from '../http/server/http-app.js';
 import { readAll } from '../impl/read-all.js';
 
 /**
@@ -36,7 +29,7 @@ export class TestHttpServer {
   /**
    * @internal
    */
-  #server!: Server;
+  #app!: HttpApp;
 
   private constructor() {
     this.#listener = noop;
@@ -46,14 +39,14 @@ export class TestHttpServer {
    * HTTP server instance.
    */
   get server(): Server {
-    return this.#server;
+    return this.#app.servers[0] as Server;
   }
 
   /**
    * An address the service is bound to.
    */
   get address(): AddressInfo {
-    return this.#server.address() as AddressInfo;
+    return this.#app.address as AddressInfo;
   }
 
   /**
@@ -114,16 +107,14 @@ export class TestHttpServer {
   /**
    * @internal
    */
-  #start(): Promise<TestHttpServer> {
-    return new Promise((resolve, reject) => {
-      const server = (this.#server = createServer((request, response) =>
-        this.#listener(request, response),
-      ));
+  async #start(): Promise<TestHttpServer> {
+    this.#app = new HttpApp({ listen: { port: 0, host: '127.0.0.1' } }, (request, response) =>
+      this.#listener(request, response),
+    );
 
-      server.on('error', reject);
-      server.on('listening', () => resolve(this));
-      server.listen({ port: 0, host: '127.0.0.1' });
-    });
+    await this.#app.listen();
+
+    return this;
   }
 
   /**
@@ -179,10 +170,12 @@ export class TestHttpServer {
   /**
    * Stops this server.
    *
+   * {@link HttpApp.close Closes} the application, so that idle keep-alive connections do not prevent it from stopping.
+   *
    * @returns A promise resolved when the server is stopped.
    */
   stop(): Promise<void> {
-    return promisify(this.server.close.bind(this.server))();
+    return this.#app.close();
   }
 }
 
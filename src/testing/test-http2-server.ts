@@ -0,0 +1,254 @@
+import { noop } from '@proc7ts/primitives';
+import {
+  ClientHttp2Session,
+  connect,
+  createServer,
+  Http2Server,
+  Http2ServerRequest,
+  Http2ServerResponse,
+  IncomingHttpHeaders,
+  IncomingHttpStatusHeader,
+  OutgoingHttpHeaders,
+} from 'node:http2';
+import type { AddressInfo } from 'node:net';
+import { RequestHandler } from '../core/request-handler.js';
+import { HttpConfig } from '../http/http-config.js';
+import { httpListener } from '../http/http-listener.js';
+import { HttpMeans } from '../http/http.means.js';
+import { HttpDrain, httpDrain } from '../http/server/http-drain.js';
+import { readAll } from '../impl/read-all.js';
+
+/**
+ * Testing HTTP/2 server and client.
+ *
+ * The server accepts unencrypted HTTP/2 connections (h2c). The client sends requests over single HTTP/2 session.
+ */
+export class TestHttp2Server {
+  /**
+   * Starts new test HTTP/2 server and binds it to random port at localhost.
+   *
+   * @returns A promise resolved to started server.
+   */
+  static start(): Promise<TestHttp2Server> {
+    return new TestHttp2Server().#start();
+  }
+
+  /**
+   * @internal
+   */
+  #listener: TestHttp2Server.Listener;
+
+  /**
+   * @internal
+   */
+  #server!: Http2Server;
+
+  /**
+   * @internal
+   */
+  #session!: ClientHttp2Session;
+
+  /**
+   * @internal
+   */
+  #drain!: HttpDrain;
+
+  private constructor() {
+    this.#listener = noop;
+  }
+
+  /**
+   * HTTP/2 server instance.
+   */
+  get server(): Http2Server {
+    return this.#server;
+  }
+
+  /**
+   * An address the service is bound to.
+   */
+  get address(): AddressInfo {
+    return this.#server.address() as AddressInfo;
+  }
+
+  /**
+   * Starts to handle incoming requests by the given request listener.
+   *
+   * @param listener - New HTTP/2 request listener.
+   *
+   * @returns `this` instance.
+   */
+  listenBy(listener: TestHttp2Server.Listener): this {
+    this.#listener = listener;
+
+    return this;
+  }
+
+  /**
+   * Starts to handle extended incoming requests by the given request handler.
+   *
+   * @typeParam TExt - Request processing means extension type.
+   * @param config - HTTP processing configuration.
+   * @param handler - New HTTP/2 request processing handler.
+   *
+   * @returns `this` instance.
+   */
+  handleBy<TExt>(
+    config: HttpConfig.Extended<TExt, HttpMeans.Http2>,
+    handler: RequestHandler<HttpMeans.Http2 & TExt>,
+  ): this;
+
+  /**
+   * Starts to handle incoming requests by the given request handler.
+   *
+   * @param config - HTTP processing configuration.
+   * @param handler - New HTTP/2 request processing handler.
+   *
+   * @returns `this` instance.
+   */
+  handleBy(config: HttpConfig<HttpMeans.Http2>, handler: RequestHandler<HttpMeans.Http2>): this;
+
+  /**
+   * Starts to handle incoming requests by the given request handler according to default configuration.
+   *
+   * @param handler - New HTTP/2 request processing handler.
+   *
+   * @returns `this` instance.
+   */
+  handleBy(handler: RequestHandler<HttpMeans.Http2>): this;
+
+  handleBy(
+    configOrHandler: HttpConfig<HttpMeans.Http2> | RequestHandler<HttpMeans.Http2>,
+    optionalHandler?: RequestHandler<HttpMeans.Http2>,
+  ): this {
+    return this.listenBy(
+      httpListener(
+        configOrHandler as HttpConfig<HttpMeans.Http2>,
+        optionalHandler as RequestHandler<HttpMeans.Http2>,
+      ),
+    );
+  }
+
+  /**
+   * @internal
+   */
+  #start(): Promise<TestHttp2Server> {
+    return new Promise((resolve, reject) => {
+      const server = (this.#server = createServer((request, response) =>
+        this.#listener(request, response),
+      ));
+
+      this.#drain = httpDrain(server);
+
+      server.on('error', reject);
+      server.on('listening', () => {
+        this.#session = connect(`http://${this.address.address}:${this.address.port}`);
+        resolve(this);
+      });
+      server.listen({ port: 0, host: '127.0.0.1' });
+    });
+  }
+
+  /**
+   * Posts the data to the test server.
+   *
+   * @param path - Request path.
+   * @param body - Request body to post, or `undefined` to post nothing.
+   * @param options - Request options. The default request method is `POST`.
+   *
+   * @returns A promise resolves to server response.
+   */
+  post(
+    path: string,
+    body?: string | Buffer,
+    { method = 'POST', headers }: TestHttp2Server.RequestOptions = {},
+  ): Promise<TestHttp2Server.Response> {
+    return new Promise((resolve, reject) => {
+      const stream = this.#session.request({ ...headers, ':method': method, ':path': path });
+
+      stream.on('response', headers => {
+        resolve({
+          statusCode: headers[':status']!,
+          headers,
+          body: () => readAll(stream),
+        });
+      });
+      stream.on('close', () => reject(new Error(`Stream closed with code ${stream.rstCode}`)));
+      stream.on('error', reject);
+      stream.end(body);
+    });
+  }
+
+  /**
+   * Requests the data from the test server.
+   *
+   * @param path - Request path.
+   * @param options - Request options. The default request method is `GET`.
+   *
+   * @returns A promise resolves to server response.
+   */
+  get(path: string, options?: TestHttp2Server.RequestOptions): Promise<TestHttp2Server.Response> {
+    return this.post(path, undefined, { method: 'GET', ...options });
+  }
+
+  /**
+   * Stops this server.
+   *
+   * Closes client session and {@link HttpDrain.drain drains} the server.
+   *
+   * @returns A promise resolved when the server is stopped.
+   */
+  stop(): Promise<void> {
+    this.#session.close();
+
+    return this.#drain.drain();
+  }
+}
+
+export namespace TestHttp2Server {
+  /**
+   * HTTP/2 request listener.
+   */
+  export type Listener = (
+    this: void,
+    request: Http2ServerRequest,
+    response: Http2ServerResponse,
+  ) => void;
+
+  /**
+   * Test HTTP/2 request options.
+   */
+  export interface RequestOptions {
+    /**
+     * Request method.
+     */
+    readonly method?: string | undefined;
+
+    /**
+     * Request headers.
+     */
+    readonly headers?: OutgoingHttpHeaders | undefined;
+  }
+
+  /**
+   * A response of test HTTP/2 server.
+   */
+  export interface Response {
+    /**
+     * Response status code.
+     */
+    readonly statusCode: number;
+
+    /**
+     * Response headers.
+     */
+    readonly headers: IncomingHttpHeaders & IncomingHttpStatusHeader;
+
+    /**
+     * Reads response body.
+     *
+     * @returns A promise resolved to response body.
+     */
+    body(): Promise<string>;
+  }
+}